@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Backup test request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Original title', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    }
+  ]
+};
+
+describe('Backups API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function createBackup(label?: string) {
+    const { POST } = await import('@/app/api/backups/route');
+    const res = await POST(jsonRequest('/api/backups', 'POST', { label }));
+    return { status: res.status, body: await res.json() };
+  }
+
+  it('creates a labelled manual backup and lists it as valid', async () => {
+    const created = await createBackup('Before the big refactor');
+    expect(created.status).toBe(200);
+    expect(created.body.data).toMatchObject({ type: 'manual', label: 'Before the big refactor', valid: true, requestCount: 1, taskCount: 1 });
+
+    const { GET } = await import('@/app/api/backups/route');
+    const list = await (await GET(jsonRequest('/api/backups', 'GET'))).json();
+    expect(list.data.backups).toHaveLength(1);
+    expect(list.data.backups[0].name).toBe(created.body.data.name);
+    expect(list.data.status.backupDirectory).toBe(path.join(workspace.dir, '.backups'));
+  });
+
+  it('previews a backup and restores it, keeping a safety backup', async () => {
+    const created = await createBackup('Known good');
+    const name = created.body.data.name;
+
+    const taskRoute = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await taskRoute.PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { title: 'Changed title' }),
+      context({ id: 'req-1', taskId: 'task-1' })
+    );
+    expect((await workspace.read()).requests[0].tasks[0].title).toBe('Changed title');
+
+    const backupRoute = await import('@/app/api/backups/[name]/route');
+    const preview = await (await backupRoute.GET(jsonRequest(`/api/backups/${name}`, 'GET'), context({ name }))).json();
+    expect(preview.data.data).toEqual(seedData);
+
+    const restoreRoute = await import('@/app/api/backups/[name]/restore/route');
+    const res = await restoreRoute.POST(jsonRequest(`/api/backups/${name}/restore`, 'POST'), context({ name }));
+    const result = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(await workspace.read()).toEqual(seedData);
+    expect(result.data.safetyBackup).toMatch(/^tasks-safety-/);
+
+    const safety = JSON.parse(await fs.readFile(path.join(workspace.dir, '.backups', result.data.safetyBackup), 'utf-8'));
+    expect(safety.type).toBe('safety');
+    expect(safety.data.requests[0].tasks[0].title).toBe('Changed title');
+  });
+
+  it('refuses to restore a backup whose checksum no longer matches', async () => {
+    const created = await createBackup();
+    const name = created.body.data.name;
+    const backupPath = path.join(workspace.dir, '.backups', name);
+    const backup = JSON.parse(await fs.readFile(backupPath, 'utf-8'));
+    backup.data.requests[0].originalRequest = 'Tampered';
+    await fs.writeFile(backupPath, JSON.stringify(backup, null, 2));
+
+    const { GET } = await import('@/app/api/backups/route');
+    const list = await (await GET(jsonRequest('/api/backups', 'GET'))).json();
+    expect(list.data.backups[0].valid).toBe(false);
+
+    const restoreRoute = await import('@/app/api/backups/[name]/restore/route');
+    const res = await restoreRoute.POST(jsonRequest(`/api/backups/${name}/restore`, 'POST'), context({ name }));
+    expect(res.status).toBe(422);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('rejects names outside the backup store', async () => {
+    const backupRoute = await import('@/app/api/backups/[name]/route');
+    const res = await backupRoute.GET(jsonRequest('/api/backups/x', 'GET'), context({ name: '../tasks.json' }));
+    expect(res.status).toBe(400);
+  });
+
+  it('diffs a backup against the live data and restores a single task', async () => {
+    const name = (await createBackup()).body.data.name;
+
+    const taskRoute = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await taskRoute.PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { title: 'Changed title' }),
+      context({ id: 'req-1', taskId: 'task-1' })
+    );
+
+    const diffRoute = await import('@/app/api/backups/diff/route');
+    const diff = await (await diffRoute.GET(jsonRequest(`/api/backups/diff?from=${name}`, 'GET'))).json();
+    expect(diff.data.to).toBe('live');
+    expect(diff.data.diff.requests[0].tasks[0]).toMatchObject({
+      taskId: 'task-1',
+      change: 'modified',
+      fields: [{ field: 'title', from: 'Original title', to: 'Changed title' }]
+    });
+
+    const restoreRecord = await import('@/app/api/backups/[name]/restore-record/route');
+    const res = await restoreRecord.POST(
+      jsonRequest(`/api/backups/${name}/restore-record`, 'POST', { requestId: 'req-1', taskId: 'task-1' }),
+      context({ name })
+    );
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.action).toBe('restored');
+    expect((await workspace.read()).requests[0].tasks).toEqual(seedData.requests[0].tasks);
+  });
+
+  it('removes a request that did not exist in the backup', async () => {
+    const name = (await createBackup()).body.data.name;
+    const { POST } = await import('@/app/api/requests/route');
+    const created = await (await POST(jsonRequest('/api/requests', 'POST', { originalRequest: 'Added later', splitDetails: '', completed: false }))).json();
+    const requestId = created.data.requestId;
+
+    const restoreRecord = await import('@/app/api/backups/[name]/restore-record/route');
+    const res = await restoreRecord.POST(
+      jsonRequest(`/api/backups/${name}/restore-record`, 'POST', { requestId }),
+      context({ name })
+    );
+    expect((await res.json()).data.action).toBe('removed');
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('requires a source to diff from', async () => {
+    const diffRoute = await import('@/app/api/backups/diff/route');
+    const res = await diffRoute.GET(jsonRequest('/api/backups/diff', 'GET'));
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'First request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Open task', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Done task', description: 'Task', done: true, approved: false, completedDetails: 'Shipped' }
+      ]
+    },
+    {
+      requestId: 'req-2',
+      originalRequest: 'Second request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Other task', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    },
+    {
+      requestId: 'req-3',
+      originalRequest: 'Third request',
+      splitDetails: '',
+      completed: false,
+      tasks: []
+    }
+  ]
+};
+
+describe('Bulk operations API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    delete process.env.TASKS_COMPLETION_POLICY;
+    await workspace.cleanup();
+  });
+
+  async function bulk(operations: unknown[]) {
+    const { POST } = await import('@/app/api/bulk/route');
+    return POST(jsonRequest('/api/bulk', 'POST', { operations }));
+  }
+
+  it('applies every operation in one transaction with one backup', async () => {
+    const res = await bulk([
+      { type: 'setTaskDone', requestId: 'req-1', taskId: 'task-1' },
+      { type: 'approveTask', requestId: 'req-1', taskId: 'task-2' },
+      { type: 'completeRequest', requestId: 'req-1' },
+      { type: 'moveTask', requestId: 'req-2', taskId: 'task-1', toRequestId: 'req-1' },
+      { type: 'deleteRequest', requestId: 'req-3' }
+    ]);
+    expect(res.status).toBe(200);
+
+    const json = await res.json();
+    expect(json.data.succeeded).toBe(5);
+    expect(json.data.failed).toBe(0);
+    expect(json.data.results[3]).toMatchObject({ ok: true, taskId: 'task-3' });
+
+    const saved = await workspace.read();
+    expect(saved.requests.map(r => r.requestId)).toEqual(['req-1', 'req-2']);
+    expect(saved.requests[0].completed).toBe(true);
+    expect(saved.requests[0].tasks.map(t => [t.id, t.title, t.done, t.approved])).toEqual([
+      ['task-1', 'Open task', true, false],
+      ['task-2', 'Done task', true, true],
+      ['task-3', 'Other task', false, false]
+    ]);
+    expect(saved.requests[1].tasks).toEqual([]);
+
+    const backups = await fs.readdir(path.join(workspace.dir, '.backups'));
+    expect(backups.filter(name => name.startsWith('tasks-'))).toHaveLength(1);
+  });
+
+  it('reports failed operations and still applies the rest', async () => {
+    const res = await bulk([
+      { type: 'deleteRequest', requestId: 'missing' },
+      { type: 'approveTask', requestId: 'req-1', taskId: 'task-1' },
+      { type: 'moveTask', requestId: 'req-1', taskId: 'task-1', toRequestId: 'req-1' },
+      { type: 'completeRequest', requestId: 'req-2' }
+    ]);
+    expect(res.status).toBe(200);
+
+    const { data } = await res.json();
+    expect(data.succeeded).toBe(1);
+    expect(data.results.map((result: { ok: boolean; status?: number }) => [result.ok, result.status])).toEqual([
+      [false, 404],
+      [false, 422],
+      [false, 400],
+      [true, undefined]
+    ]);
+    expect(data.results[1].error).toMatch(/must be done before it can be approved/);
+
+    const saved = await workspace.read();
+    expect(saved.requests[0].tasks).toEqual(seedData.requests[0].tasks);
+    expect(saved.requests[1].completed).toBe(true);
+  });
+
+  it('leaves completion managed by a policy alone', async () => {
+    process.env.TASKS_COMPLETION_POLICY = 'allDone';
+    const res = await bulk([{ type: 'completeRequest', requestId: 'req-2' }]);
+
+    const { data } = await res.json();
+    expect(data.results[0]).toMatchObject({ ok: false, status: 409 });
+    expect(data.results[0].error).toMatch(/allDone policy/);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('is undone in one step', async () => {
+    await bulk([
+      { type: 'deleteRequest', requestId: 'req-2' },
+      { type: 'deleteRequest', requestId: 'req-3' },
+      { type: 'setTaskDone', requestId: 'req-1', taskId: 'task-2', done: false }
+    ]);
+
+    const { POST } = await import('@/app/api/undo/route');
+    expect((await POST(jsonRequest('/api/undo', 'POST', {}))).status).toBe(200);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('rejects malformed batches without changing anything', async () => {
+    expect((await bulk([])).status).toBe(400);
+    expect((await bulk([{ type: 'rename', requestId: 'req-1' }])).status).toBe(400);
+    expect((await bulk([{ type: 'setTaskDone', requestId: 'req-1' }])).status).toBe(400);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+});
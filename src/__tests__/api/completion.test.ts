@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Auto-completing request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Finished', description: 'Task', done: true, approved: false, completedDetails: 'Done' },
+        { id: 'task-2', title: 'Pending', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    }
+  ]
+};
+
+describe('Request completion policy', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    delete process.env.TASKS_COMPLETION_POLICY;
+    await workspace.cleanup();
+  });
+
+  async function updateTask(taskId: string, body: unknown) {
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    return PUT(jsonRequest(`/api/requests/req-1/tasks/${taskId}`, 'PUT', body), context({ id: 'req-1', taskId }));
+  }
+
+  async function getRequest() {
+    const { GET } = await import('@/app/api/requests/[id]/route');
+    return (await (await GET(jsonRequest('/api/requests/req-1', 'GET'), context({ id: 'req-1' }))).json()).data;
+  }
+
+  async function updateRequest(body: unknown) {
+    const { PUT } = await import('@/app/api/requests/[id]/route');
+    return PUT(jsonRequest('/api/requests/req-1', 'PUT', body), context({ id: 'req-1' }));
+  }
+
+  it('keeps completion manual by default', async () => {
+    await updateTask('task-2', { done: true });
+
+    const request = await getRequest();
+    expect(request.completed).toBe(false);
+    expect(request.completion).toMatchObject({ policy: 'manual', inherited: true, managed: false });
+  });
+
+  it('recomputes completion on task changes under the global policy', async () => {
+    process.env.TASKS_COMPLETION_POLICY = 'allDone';
+
+    await updateTask('task-2', { done: true });
+    let request = await getRequest();
+    expect(request.completed).toBe(true);
+    expect(request.completedAt).toEqual(expect.any(String));
+    expect(request.completion).toMatchObject({ policy: 'allDone', managed: true, reason: 'All 2 tasks done' });
+
+    await updateTask('task-1', { done: false });
+    request = await getRequest();
+    expect(request.completed).toBe(false);
+    expect(request.completion.reason).toBe('1 of 2 tasks done');
+  });
+
+  it('recomputes completion when a task is restored from the trash', async () => {
+    process.env.TASKS_COMPLETION_POLICY = 'allDone';
+
+    const { DELETE } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await DELETE(jsonRequest('/api/requests/req-1/tasks/task-2', 'DELETE'), context({ id: 'req-1', taskId: 'task-2' }));
+    expect((await getRequest()).completed).toBe(true);
+
+    const trash = await import('@/app/api/trash/route');
+    const [item] = (await (await trash.GET(jsonRequest('/api/trash', 'GET'))).json()).data.items;
+    const { POST } = await import('@/app/api/trash/[id]/restore/route');
+    expect((await POST(jsonRequest(`/api/trash/${item.id}/restore`, 'POST'), context({ id: item.id }))).status).toBe(200);
+
+    const request = await getRequest();
+    expect(request.tasks).toHaveLength(2);
+    expect(request.completed).toBe(false);
+  });
+
+  it('sets and clears a per-request policy', async () => {
+    const res = await updateRequest({ completionPolicy: 'allDone' });
+    expect(res.status).toBe(200);
+    expect((await workspace.read()).requests[0].completionPolicy).toBe('allDone');
+
+    // A manual toggle against the derived value is refused; the derived value itself is accepted
+    const refused = await updateRequest({ completed: true });
+    expect(refused.status).toBe(409);
+    expect((await refused.json()).error).toBe('Completion follows the allDone policy (1 of 2 tasks done)');
+    expect((await getRequest()).completed).toBe(false);
+    expect((await updateRequest({ completed: false, splitDetails: 'Still going' })).status).toBe(200);
+
+    await updateRequest({ completionPolicy: null });
+    const stored = (await workspace.read()).requests[0];
+    expect(stored).not.toHaveProperty('completionPolicy');
+  });
+
+  it('rejects an unknown policy', async () => {
+    const res = await updateRequest({ completionPolicy: 'sometimes' });
+    expect(res.status).toBe(400);
+  });
+});
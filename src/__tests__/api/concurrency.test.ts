@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Concurrency test request',
+      splitDetails: '',
+      completed: false,
+      tasks: Array.from({ length: 5 }, (_, i) => ({
+        id: `task-${i + 1}`,
+        title: `Task ${i + 1}`,
+        description: `Description ${i + 1}`,
+        done: false,
+        approved: false,
+        completedDetails: ''
+      }))
+    }
+  ]
+};
+
+describe('Concurrent API mutations', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  it('keeps every task created by concurrent POST requests', async () => {
+    const { POST } = await import('@/app/api/requests/[id]/tasks/route');
+
+    const responses = await Promise.all(
+      Array.from({ length: 12 }, (_, i) =>
+        POST(
+          jsonRequest('/api/requests/req-1/tasks', 'POST', {
+            title: `Concurrent ${i}`,
+            description: `Created concurrently ${i}`,
+            done: false,
+            approved: false,
+            completedDetails: ''
+          }),
+          context({ id: 'req-1' })
+        )
+      )
+    );
+
+    expect(responses.every(res => res.status === 200)).toBe(true);
+
+    const data = await workspace.read();
+    const tasks = data.requests[0].tasks;
+    expect(tasks).toHaveLength(17);
+
+    // Every created task received its own ID
+    const ids = tasks.map(t => t.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (let i = 0; i < 12; i++) {
+      expect(tasks.some(t => t.title === `Concurrent ${i}`)).toBe(true);
+    }
+  });
+
+  it('applies concurrent PUT requests to different tasks without losing any', async () => {
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+
+    const responses = await Promise.all(
+      seedData.requests[0].tasks.map(task =>
+        PUT(
+          jsonRequest(`/api/requests/req-1/tasks/${task.id}`, 'PUT', {
+            done: true,
+            completedDetails: `Finished ${task.id}`
+          }),
+          context({ id: 'req-1', taskId: task.id })
+        )
+      )
+    );
+
+    expect(responses.every(res => res.status === 200)).toBe(true);
+
+    const data = await workspace.read();
+    for (const task of data.requests[0].tasks) {
+      expect(task.done).toBe(true);
+      expect(task.completedDetails).toBe(`Finished ${task.id}`);
+    }
+  });
+
+  it('assigns unique IDs to concurrently created requests', async () => {
+    const { POST } = await import('@/app/api/requests/route');
+
+    await Promise.all(
+      Array.from({ length: 8 }, (_, i) =>
+        POST(jsonRequest('/api/requests', 'POST', {
+          originalRequest: `Request ${i}`,
+          splitDetails: '',
+          completed: false
+        }))
+      )
+    );
+
+    const data = await workspace.read();
+    const ids = data.requests.map(r => r.requestId);
+    expect(ids).toHaveLength(9);
+    expect(new Set(ids).size).toBe(9);
+  });
+
+  it('does not lose task edits racing with a request deletion', async () => {
+    const requestsRoute = await import('@/app/api/requests/route');
+    const requestRoute = await import('@/app/api/requests/[id]/route');
+    const taskRoute = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+
+    const created = await requestsRoute.POST(jsonRequest('/api/requests', 'POST', {
+      originalRequest: 'Short-lived request',
+      splitDetails: '',
+      completed: false
+    }));
+    const { data: createdRequest } = await created.json();
+
+    await Promise.all([
+      requestRoute.DELETE(
+        jsonRequest(`/api/requests/${createdRequest.requestId}`, 'DELETE'),
+        context({ id: createdRequest.requestId })
+      ),
+      taskRoute.PUT(
+        jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { approved: true, done: true }),
+        context({ id: 'req-1', taskId: 'task-1' })
+      ),
+      taskRoute.PUT(
+        jsonRequest('/api/requests/req-1/tasks/task-2', 'PUT', { title: 'Renamed concurrently' }),
+        context({ id: 'req-1', taskId: 'task-2' })
+      )
+    ]);
+
+    const data = await workspace.read();
+    expect(data.requests.map(r => r.requestId)).toEqual(['req-1']);
+    expect(data.requests[0].tasks[0]).toMatchObject({ done: true, approved: true });
+    expect(data.requests[0].tasks[1].title).toBe('Renamed concurrently');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Versioned request',
+      splitDetails: 'Initial details',
+      completed: false,
+      tasks: [
+        {
+          id: 'task-1',
+          title: 'Versioned task',
+          description: 'Task description',
+          done: false,
+          approved: false,
+          completedDetails: ''
+        }
+      ]
+    }
+  ]
+};
+
+describe('ETag / If-Match concurrency control', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  it('returns an ETag that changes when the request changes', async () => {
+    const { GET, PUT } = await import('@/app/api/requests/[id]/route');
+
+    const first = await GET(jsonRequest('/api/requests/req-1', 'GET'), context({ id: 'req-1' }));
+    const etag = first.headers.get('ETag');
+    expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+
+    const updated = await PUT(
+      jsonRequest('/api/requests/req-1', 'PUT', { splitDetails: 'Edited' }, { 'If-Match': etag! }),
+      context({ id: 'req-1' })
+    );
+    expect(updated.status).toBe(200);
+    expect(updated.headers.get('ETag')).not.toBe(etag);
+
+    const second = await GET(jsonRequest('/api/requests/req-1', 'GET'), context({ id: 'req-1' }));
+    expect(second.headers.get('ETag')).toBe(updated.headers.get('ETag'));
+  });
+
+  it('answers 412 with the current copy when a request PUT is stale', async () => {
+    const { GET, PUT } = await import('@/app/api/requests/[id]/route');
+
+    const loaded = await GET(jsonRequest('/api/requests/req-1', 'GET'), context({ id: 'req-1' }));
+    const staleEtag = loaded.headers.get('ETag')!;
+
+    // Another tab saves first
+    await PUT(
+      jsonRequest('/api/requests/req-1', 'PUT', { originalRequest: 'Their title' }, { 'If-Match': staleEtag }),
+      context({ id: 'req-1' })
+    );
+
+    const conflict = await PUT(
+      jsonRequest('/api/requests/req-1', 'PUT', { originalRequest: 'My title' }, { 'If-Match': staleEtag }),
+      context({ id: 'req-1' })
+    );
+    expect(conflict.status).toBe(412);
+
+    const body = await conflict.json();
+    expect(body.success).toBe(false);
+    expect(body.data.originalRequest).toBe('Their title');
+    expect(conflict.headers.get('ETag')).not.toBe(staleEtag);
+
+    const data = await workspace.read();
+    expect(data.requests[0].originalRequest).toBe('Their title');
+  });
+
+  it('rejects a stale task PUT and DELETE but accepts requests without If-Match', async () => {
+    const { GET, PUT, DELETE } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    const params = { id: 'req-1', taskId: 'task-1' };
+
+    const loaded = await GET(jsonRequest('/api/requests/req-1/tasks/task-1', 'GET'), context(params));
+    const staleEtag = loaded.headers.get('ETag')!;
+
+    const unconditional = await PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { done: true }),
+      context(params)
+    );
+    expect(unconditional.status).toBe(200);
+
+    const stalePut = await PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { title: 'Mine' }, { 'If-Match': staleEtag }),
+      context(params)
+    );
+    expect(stalePut.status).toBe(412);
+    expect((await stalePut.json()).data.done).toBe(true);
+
+    const staleDelete = await DELETE(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'DELETE', undefined, { 'If-Match': staleEtag }),
+      context(params)
+    );
+    expect(staleDelete.status).toBe(412);
+
+    const data = await workspace.read();
+    expect(data.requests[0].tasks).toHaveLength(1);
+    expect(data.requests[0].tasks[0].title).toBe('Versioned task');
+  });
+
+  it('returns the same ETag from a task PUT as the next GET', async () => {
+    const { GET, PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    const params = { id: 'req-1', taskId: 'task-1' };
+
+    // A timestamped task, whose keys saving writes back in schema order
+    await PUT(jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { done: true }), context(params));
+    const loaded = await GET(jsonRequest('/api/requests/req-1/tasks/task-1', 'GET'), context(params));
+
+    const updated = await PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { status: 'in-progress' }, { 'If-Match': loaded.headers.get('ETag')! }),
+      context(params)
+    );
+    expect(updated.status).toBe(200);
+
+    const reloaded = await GET(jsonRequest('/api/requests/req-1/tasks/task-1', 'GET'), context(params));
+    expect(reloaded.headers.get('ETag')).toBe(updated.headers.get('ETag'));
+
+    const chained = await PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { title: 'Chained' }, { 'If-Match': updated.headers.get('ETag')! }),
+      context(params)
+    );
+    expect(chained.status).toBe(200);
+  });
+});
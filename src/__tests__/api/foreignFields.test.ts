@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+// tasks.json as written by a newer MCP server, with fields the editor doesn't know
+const foreignData = {
+  schemaVersion: 1,
+  version: 3,
+  settings: { autoApprove: false },
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Request with extra fields',
+      splitDetails: '',
+      completed: false,
+      createdAt: '2026-10-01T09:00:00.000Z',
+      priority: 'high',
+      tasks: [
+        {
+          id: 'task-1',
+          title: 'Task with extra fields',
+          description: 'Task',
+          done: false,
+          approved: false,
+          completedDetails: '',
+          status: 'in_progress',
+          estimate: { hours: 3 }
+        }
+      ]
+    }
+  ]
+};
+
+describe('Unknown fields', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(foreignData as TasksData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  it('keeps unknown root, request and task fields through edits', async () => {
+    const requestRoute = await import('@/app/api/requests/[id]/route');
+    const taskRoute = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    const tasksRoute = await import('@/app/api/requests/[id]/tasks/route');
+
+    await requestRoute.PUT(
+      jsonRequest('/api/requests/req-1', 'PUT', { splitDetails: 'Edited' }),
+      context({ id: 'req-1' })
+    );
+    await taskRoute.PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { done: true }),
+      context({ id: 'req-1', taskId: 'task-1' })
+    );
+    await tasksRoute.POST(
+      jsonRequest('/api/requests/req-1/tasks', 'POST', { title: 'New', description: 'Added in the editor', done: false, approved: false, completedDetails: '' }),
+      context({ id: 'req-1' })
+    );
+
+    const saved = await workspace.read() as unknown as typeof foreignData;
+    expect(saved.version).toBe(3);
+    expect(saved.settings).toEqual({ autoApprove: false });
+    expect(saved.requests[0]).toMatchObject({ createdAt: '2026-10-01T09:00:00.000Z', priority: 'high', splitDetails: 'Edited' });
+    expect(saved.requests[0].tasks[0]).toMatchObject({ status: 'in_progress', estimate: { hours: 3 }, done: true });
+    expect(saved.requests[0].tasks).toHaveLength(2);
+  });
+
+  it('saves foreign data losslessly when nothing the editor manages changed', async () => {
+    const taskRoute = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+
+    await taskRoute.PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { done: true }),
+      context({ id: 'req-1', taskId: 'task-1' })
+    );
+    await taskRoute.PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { done: false }),
+      context({ id: 'req-1', taskId: 'task-1' })
+    );
+
+    // Only the update stamps differ once the change has been reverted
+    const [request] = foreignData.requests;
+    expect(await workspace.read()).toEqual({
+      ...foreignData,
+      requests: [{ ...request, updatedAt: expect.any(String), tasks: [{ ...request.tasks[0], updatedAt: expect.any(String) }] }]
+    });
+  });
+
+  it('returns unknown fields from the API but does not accept them as input', async () => {
+    const taskRoute = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+
+    const task = await (await taskRoute.GET(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'GET'),
+      context({ id: 'req-1', taskId: 'task-1' })
+    )).json();
+    expect(task.data.status).toBe('in_progress');
+
+    await taskRoute.PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { status: 'hacked', injected: true }),
+      context({ id: 'req-1', taskId: 'task-1' })
+    );
+    const saved = await workspace.read() as unknown as typeof foreignData;
+    expect(saved.requests[0].tasks[0].status).toBe('in_progress');
+    expect(saved.requests[0].tasks[0]).not.toHaveProperty('injected');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import { AuditEntry, TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Audited request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'First task', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Second task', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    }
+  ]
+};
+
+describe('Audit history API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function history(query = ''): Promise<{ status: number; entries: AuditEntry[] }> {
+    const { GET } = await import('@/app/api/requests/[id]/history/route');
+    const res = await GET(jsonRequest(`/api/requests/req-1/history${query}`, 'GET'), context({ id: 'req-1' }));
+    return { status: res.status, entries: (await res.json()).data };
+  }
+
+  async function updateTask(taskId: string, body: unknown, headers: Record<string, string> = {}) {
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    return PUT(jsonRequest(`/api/requests/req-1/tasks/${taskId}`, 'PUT', body, headers), context({ id: 'req-1', taskId }));
+  }
+
+  it('records who changed which fields, newest first', async () => {
+    await updateTask('task-1', { done: true }, { 'sec-fetch-site': 'same-origin' });
+    await updateTask('task-2', { title: 'Renamed' }, { 'X-Actor': 'planner-bot' });
+
+    const { status, entries } = await history();
+    expect(status).toBe(200);
+    expect(entries).toHaveLength(2);
+
+    expect(entries[0]).toMatchObject({ taskId: 'task-2', change: 'modified', actor: { type: 'api', name: 'planner-bot' } });
+    expect(entries[0].fields).toEqual([{ field: 'title', from: 'Second task', to: 'Renamed' }]);
+
+    expect(entries[1]).toMatchObject({ taskId: 'task-1', actor: { type: 'ui' } });
+    expect(entries[1].fields).toContainEqual({ field: 'done', from: false, to: true });
+  });
+
+  it('narrows the history to one task', async () => {
+    await updateTask('task-1', { done: true });
+    await updateTask('task-2', { done: true });
+
+    const { entries } = await history('?taskId=task-2');
+    expect(entries.map(entry => entry.taskId)).toEqual(['task-2']);
+  });
+
+  it('labels undo and keeps history for deleted tasks', async () => {
+    const { DELETE } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await DELETE(jsonRequest('/api/requests/req-1/tasks/task-1', 'DELETE'), context({ id: 'req-1', taskId: 'task-1' }));
+    const { POST } = await import('@/app/api/undo/route');
+    await POST(jsonRequest('/api/undo', 'POST', {}));
+
+    const { entries } = await history('?taskId=task-1');
+    expect(entries.map(entry => entry.change)).toEqual(['added', 'removed']);
+    expect(entries[0].operation).toMatch(/^Undo: /);
+  });
+
+  it('attributes edits made directly to the file to an external actor', async () => {
+    // Read once so the service knows the file's current content
+    await history();
+
+    const edited = structuredClone(seedData);
+    edited.requests[0].tasks[0].approved = true;
+    await fs.writeFile(workspace.tasksFile, JSON.stringify(edited, null, 2));
+
+    const { entries } = await history();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ taskId: 'task-1', actor: { type: 'external' } });
+    expect(entries[0].fields).toEqual([{ field: 'approved', from: false, to: true }]);
+  });
+
+  it('returns 404 for an unknown request', async () => {
+    const { GET } = await import('@/app/api/requests/[id]/history/route');
+    const res = await GET(jsonRequest('/api/requests/missing/history', 'GET'), context({ id: 'missing' }));
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'First request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Open task', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Done later', description: 'Task', done: true, approved: false, completedDetails: 'Shipped', completedAt: '2026-10-02T00:00:00.000Z' },
+        { id: 'task-3', title: 'Approved task', description: 'Task', done: true, approved: true, completedDetails: 'Done' }
+      ]
+    },
+    {
+      requestId: 'req-2',
+      originalRequest: 'Second request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Done first', description: 'Task', done: true, approved: false, completedDetails: 'Fixed', completedAt: '2026-10-01T00:00:00.000Z' }
+      ]
+    }
+  ]
+};
+
+describe('Review queue', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function review(requestId: string, taskId: string, body: unknown, headers?: Record<string, string>) {
+    const { POST } = await import('@/app/api/requests/[id]/tasks/[taskId]/review/route');
+    return POST(
+      jsonRequest(`/api/requests/${requestId}/tasks/${taskId}/review`, 'POST', body, headers),
+      context({ id: requestId, taskId })
+    );
+  }
+
+  it('lists tasks awaiting approval across requests, longest waiting first', async () => {
+    const { GET } = await import('@/app/api/review/route');
+    const res = await GET(jsonRequest('/api/review', 'GET'));
+    expect(res.status).toBe(200);
+
+    const json = await res.json();
+    expect(json.data.map((item: { requestId: string; task: { id: string } }) => `${item.requestId}/${item.task.id}`))
+      .toEqual(['req-2/task-1', 'req-1/task-2']);
+    expect(json.data[0].originalRequest).toBe('Second request');
+  });
+
+  it('approves a task', async () => {
+    const res = await review('req-1', 'task-2', { decision: 'approve' });
+    expect(res.status).toBe(200);
+
+    const task = (await workspace.read()).requests[0].tasks[1];
+    expect(task).toMatchObject({ done: true, approved: true, status: 'approved' });
+    expect(task.approvedAt).toBeDefined();
+  });
+
+  it('reopens a rejected task and keeps every round of feedback', async () => {
+    const first = await review('req-1', 'task-2', { decision: 'reject', feedback: 'Tests are missing' }, { 'X-Actor': 'alice' });
+    expect(first.status).toBe(200);
+
+    let task = (await workspace.read()).requests[0].tasks[1];
+    expect(task).toMatchObject({ done: false, approved: false, status: 'rejected' });
+    expect(task.completedAt).toBeUndefined();
+    expect(task.reviewFeedback).toEqual([{ feedback: 'Tests are missing', rejectedAt: expect.any(String), reviewer: 'alice' }]);
+
+    // The agent finishes it again through the regular API, then it's rejected a second time
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await PUT(jsonRequest('/api/requests/req-1/tasks/task-2', 'PUT', { done: true }), context({ id: 'req-1', taskId: 'task-2' }));
+    await review('req-1', 'task-2', { decision: 'reject', feedback: 'Still failing' });
+
+    task = (await workspace.read()).requests[0].tasks[1];
+    expect(task.reviewFeedback?.map(entry => entry.feedback)).toEqual(['Tests are missing', 'Still failing']);
+  });
+
+  it('requires feedback to reject', async () => {
+    const res = await review('req-1', 'task-2', { decision: 'reject', feedback: '  ' });
+    expect(res.status).toBe(400);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('refuses tasks that are not awaiting review', async () => {
+    expect((await review('req-1', 'task-1', { decision: 'approve' })).status).toBe(409);
+    expect((await review('req-1', 'task-3', { decision: 'reject', feedback: 'No' })).status).toBe(409);
+    expect((await review('req-1', 'task-9', { decision: 'approve' })).status).toBe(404);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('rejects malformed feedback written by another tool', async () => {
+    const malformed = structuredClone(seedData);
+    Object.assign(malformed.requests[0].tasks[1], { reviewFeedback: [{ feedback: 42 }] });
+    await workspace.cleanup();
+    workspace = await createTempWorkspace(malformed);
+
+    expect((await review('req-1', 'task-2', { decision: 'reject', feedback: 'Tests are missing' })).status).toBe(400);
+    expect(await workspace.read()).toEqual(malformed);
+  });
+
+  it('can be undone', async () => {
+    await review('req-1', 'task-2', { decision: 'reject', feedback: 'Tests are missing' });
+
+    const { POST } = await import('@/app/api/undo/route');
+    expect((await POST(jsonRequest('/api/undo', 'POST', {}))).status).toBe(200);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+// tasks.json as written before the format was versioned
+const legacyData: TasksData = {
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Legacy request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Legacy task', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    }
+  ]
+};
+
+describe('Schema API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(legacyData);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await workspace.cleanup();
+  });
+
+  async function migrate(body: Record<string, unknown>) {
+    const { POST } = await import('@/app/api/schema/migrate/route');
+    const res = await POST(jsonRequest('/api/schema/migrate', 'POST', body));
+    return { status: res.status, body: await res.json() };
+  }
+
+  async function listBackups() {
+    const { GET } = await import('@/app/api/backups/route');
+    const json = await (await GET(jsonRequest('/api/backups', 'GET'))).json();
+    return json.data.backups as { type: string; label?: string }[];
+  }
+
+  async function completeTask() {
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    return PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { done: true }),
+      context({ id: 'req-1', taskId: 'task-1' })
+    );
+  }
+
+  it('reports the stored version and known migrations', async () => {
+    const { GET } = await import('@/app/api/schema/route');
+    const json = await (await GET(jsonRequest('/api/schema', 'GET'))).json();
+
+    expect(json.data).toMatchObject({ fileVersion: 0, currentVersion: 1, writeVersion: 1 });
+    expect(json.data.migrations[0]).toMatchObject({ version: 1 });
+  });
+
+  it('shows what a migration would change without writing on a dry run', async () => {
+    const { status, body } = await migrate({ dryRun: true });
+
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ fromVersion: 0, toVersion: 1, dryRun: true, backup: null });
+    expect(body.data.rootChanges).toEqual([{ field: 'schemaVersion', to: 1 }]);
+    expect(body.data.diff.requests).toEqual([]);
+    expect(await workspace.read()).toEqual(legacyData);
+    expect(await listBackups()).toHaveLength(0);
+  });
+
+  it('backs up the legacy file before the first save migrates it', async () => {
+    expect((await completeTask()).status).toBe(200);
+
+    const saved = await workspace.read();
+    expect(saved.schemaVersion).toBe(1);
+    expect(saved.requests[0].tasks[0].done).toBe(true);
+
+    const backups = await listBackups();
+    expect(backups).toHaveLength(1);
+    expect(backups[0]).toMatchObject({ type: 'safety', label: 'Before migrating to schema v1' });
+  });
+
+  it('migrates the file down to the legacy shape', async () => {
+    await migrate({});
+    expect((await workspace.read()).schemaVersion).toBe(1);
+
+    const { body } = await migrate({ targetVersion: 0 });
+    expect(body.data).toMatchObject({ fromVersion: 1, toVersion: 0, dryRun: false });
+    expect(body.data.backup).toMatch(/^tasks-safety-/);
+    expect(await workspace.read()).toEqual(legacyData);
+  });
+
+  it('keeps writing the legacy shape when configured to', async () => {
+    vi.stubEnv('TASKS_SCHEMA_WRITE_VERSION', '0');
+    expect((await completeTask()).status).toBe(200);
+
+    const saved = await workspace.read();
+    expect(saved).not.toHaveProperty('schemaVersion');
+    expect(saved.requests[0].tasks[0].done).toBe(true);
+    expect((await listBackups()).map(backup => backup.type)).toEqual(['auto']);
+  });
+
+  it('rejects unknown target versions', async () => {
+    const { status } = await migrate({ targetVersion: 99 });
+    expect(status).toBe(400);
+  });
+});
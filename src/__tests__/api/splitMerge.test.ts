@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Build the dashboard',
+      splitDetails: 'Charts first',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Layout', description: 'Task', done: true, approved: false, completedDetails: 'Shipped' },
+        { id: 'task-2', title: 'Charts', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-3', title: 'Export', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    },
+    {
+      requestId: 'req-2',
+      originalRequest: 'Dashboard, again',
+      splitDetails: 'Filters too',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Filters', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-4', title: 'Sharing', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    },
+    {
+      requestId: 'req-3',
+      originalRequest: 'Dashboard, once more',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Dark mode', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    }
+  ]
+};
+
+describe('Request split and merge API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function split(requestId: string, body: unknown) {
+    const { POST } = await import('@/app/api/requests/[id]/split/route');
+    return POST(jsonRequest(`/api/requests/${requestId}/split`, 'POST', body), context({ id: requestId }));
+  }
+
+  async function merge(requestId: string, body: unknown) {
+    const { POST } = await import('@/app/api/requests/[id]/merge/route');
+    return POST(jsonRequest(`/api/requests/${requestId}/merge`, 'POST', body), context({ id: requestId }));
+  }
+
+  it('splits chosen tasks into a new request under the same ids', async () => {
+    const res = await split('req-1', { taskIds: ['task-3', 'task-2'], originalRequest: 'Export the dashboard' });
+    expect(res.status).toBe(200);
+
+    const { data } = await res.json();
+    expect(data.request.requestId).toBe('req-4');
+
+    const saved = await workspace.read();
+    expect(saved.requests[0].tasks.map(t => t.id)).toEqual(['task-1']);
+    expect(saved.requests[3]).toMatchObject({
+      requestId: 'req-4',
+      originalRequest: 'Export the dashboard',
+      splitDetails: 'Charts first',
+      completed: false
+    });
+    expect(saved.requests[3].tasks.map(t => [t.id, t.title])).toEqual([['task-2', 'Charts'], ['task-3', 'Export']]);
+  });
+
+  it('refuses to split off every task or unknown ones', async () => {
+    expect((await split('req-1', { taskIds: ['task-1', 'task-2', 'task-3'] })).status).toBe(400);
+    expect((await split('req-1', { taskIds: ['task-9'] })).status).toBe(404);
+    expect((await split('req-1', { taskIds: [] })).status).toBe(400);
+    expect((await split('missing', { taskIds: ['task-1'] })).status).toBe(404);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('merges requests, renumbering clashing task ids and joining details', async () => {
+    const res = await merge('req-1', { requestIds: ['req-2', 'req-3'] });
+    expect(res.status).toBe(200);
+
+    const { data } = await res.json();
+    expect(data.mergedRequestIds).toEqual(['req-2', 'req-3']);
+    expect(data.renamedTasks).toEqual([
+      { requestId: 'req-2', from: 'task-1', to: 'task-5' },
+      { requestId: 'req-3', from: 'task-1', to: 'task-6' }
+    ]);
+
+    const saved = await workspace.read();
+    expect(saved.requests.map(r => r.requestId)).toEqual(['req-1']);
+    expect(saved.requests[0]).toMatchObject({
+      originalRequest: 'Build the dashboard',
+      splitDetails: 'Charts first\n\nFilters too'
+    });
+    expect(saved.requests[0].tasks.map(t => [t.id, t.title])).toEqual([
+      ['task-1', 'Layout'],
+      ['task-2', 'Charts'],
+      ['task-3', 'Export'],
+      ['task-5', 'Filters'],
+      ['task-4', 'Sharing'],
+      ['task-6', 'Dark mode']
+    ]);
+  });
+
+  it('keeps a version of the merge target and undoes the merge in one step', async () => {
+    await merge('req-1', { requestIds: ['req-2'], originalRequest: 'One dashboard' });
+
+    const { GET } = await import('@/app/api/requests/[id]/versions/route');
+    const versions = await (await GET(jsonRequest('/api/requests/req-1/versions', 'GET'), context({ id: 'req-1' }))).json();
+    expect(versions.data[0].record.originalRequest).toBe('Build the dashboard');
+
+    const { POST } = await import('@/app/api/undo/route');
+    expect((await POST(jsonRequest('/api/undo', 'POST', {}))).status).toBe(200);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('moves the merged requests to the trash', async () => {
+    await merge('req-1', { requestIds: ['req-2', 'req-3'] });
+
+    const trash = await import('@/app/api/trash/route');
+    const listed = async () => (await (await trash.GET(jsonRequest('/api/trash', 'GET'))).json()).data.items;
+    const items = await listed();
+    expect(items.map((item: { record: { requestId: string } }) => item.record.requestId).sort()).toEqual(['req-2', 'req-3']);
+    expect(items.find((item: { record: { requestId: string } }) => item.record.requestId === 'req-2').record).toEqual(seedData.requests[1]);
+
+    const { POST } = await import('@/app/api/undo/route');
+    await POST(jsonRequest('/api/undo', 'POST', {}));
+    expect(await listed()).toEqual([]);
+  });
+
+  it('rejects a merge when a request to merge in has changed since it was loaded', async () => {
+    const { GET, PUT } = await import('@/app/api/requests/[id]/route');
+    const etag = (await GET(jsonRequest('/api/requests/req-2', 'GET'), context({ id: 'req-2' }))).headers.get('ETag') as string;
+
+    await PUT(jsonRequest('/api/requests/req-2', 'PUT', { splitDetails: 'Filters and search' }), context({ id: 'req-2' }));
+    const edited = await workspace.read();
+
+    const stale = await merge('req-1', { requestIds: ['req-2'], sourceEtags: { 'req-2': etag } });
+    expect(stale.status).toBe(412);
+    expect((await stale.json()).data.splitDetails).toBe('Filters and search');
+    expect(await workspace.read()).toEqual(edited);
+
+    const current = (await GET(jsonRequest('/api/requests/req-2', 'GET'), context({ id: 'req-2' }))).headers.get('ETag') as string;
+    expect((await merge('req-1', { requestIds: ['req-2'], sourceEtags: { 'req-2': current } })).status).toBe(200);
+  });
+
+  it('validates the requests to merge', async () => {
+    expect((await merge('req-1', { requestIds: ['req-1'] })).status).toBe(400);
+    expect((await merge('req-1', { requestIds: ['req-2', 'req-2'] })).status).toBe(400);
+    expect((await merge('req-1', { requestIds: [] })).status).toBe(400);
+    expect((await merge('req-1', { requestIds: ['req-2', 'missing'] })).status).toBe(404);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+});
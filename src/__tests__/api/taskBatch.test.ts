@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Big request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'First', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Second', description: 'Task', done: true, approved: false, completedDetails: 'Shipped' },
+        { id: 'task-3', title: 'Third', description: 'Task', done: true, approved: false, completedDetails: 'Shipped' }
+      ]
+    },
+    {
+      requestId: 'req-2',
+      originalRequest: 'Other request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Existing', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    }
+  ]
+};
+
+describe('Task batch API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function batch(requestId: string, body: unknown) {
+    const { POST } = await import('@/app/api/requests/[id]/tasks/batch/route');
+    return POST(jsonRequest(`/api/requests/${requestId}/tasks/batch`, 'POST', body), context({ id: requestId }));
+  }
+
+  it('approves the selected tasks and reports the ones it could not', async () => {
+    const res = await batch('req-1', { action: 'approve', taskIds: ['task-1', 'task-2', 'task-3'] });
+    expect(res.status).toBe(200);
+
+    const { data, message } = await res.json();
+    expect(message).toBe('2 of 3 tasks updated');
+    expect(data.results[0]).toMatchObject({ ok: false, status: 422, operation: { taskId: 'task-1' } });
+
+    const tasks = (await workspace.read()).requests[0].tasks;
+    expect(tasks.map(t => t.approved)).toEqual([false, true, true]);
+  });
+
+  it('marks tasks done and undone', async () => {
+    await batch('req-1', { action: 'done', taskIds: ['task-1'] });
+    await batch('req-1', { action: 'undone', taskIds: ['task-2', 'task-3'] });
+
+    const tasks = (await workspace.read()).requests[0].tasks;
+    expect(tasks.map(t => t.done)).toEqual([true, false, false]);
+  });
+
+  it('deletes tasks to the trash', async () => {
+    const res = await batch('req-1', { action: 'delete', taskIds: ['task-1', 'task-3'] });
+    expect(res.status).toBe(200);
+
+    expect((await workspace.read()).requests[0].tasks.map(t => t.id)).toEqual(['task-2']);
+    const { GET } = await import('@/app/api/trash/route');
+    const trash = await (await GET(jsonRequest('/api/trash', 'GET'))).json();
+    expect(trash.data.items.map((item: { record: { title: string } }) => item.record.title).sort()).toEqual(['First', 'Third']);
+  });
+
+  it('moves tasks to another request with new ids', async () => {
+    const res = await batch('req-1', { action: 'move', taskIds: ['task-1', 'task-2'], toRequestId: 'req-2' });
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.results.map((result: { taskId: string }) => result.taskId)).toEqual(['task-2', 'task-3']);
+
+    const saved = await workspace.read();
+    expect(saved.requests[0].tasks.map(t => t.title)).toEqual(['Third']);
+    expect(saved.requests[1].tasks.map(t => [t.id, t.title])).toEqual([
+      ['task-1', 'Existing'],
+      ['task-2', 'First'],
+      ['task-3', 'Second']
+    ]);
+  });
+
+  it('saves a batch in one undoable step', async () => {
+    await batch('req-1', { action: 'delete', taskIds: ['task-1', 'task-2', 'task-3'] });
+
+    const { POST } = await import('@/app/api/undo/route');
+    expect((await POST(jsonRequest('/api/undo', 'POST', {}))).status).toBe(200);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('validates the batch and the request', async () => {
+    expect((await batch('req-1', { action: 'move', taskIds: ['task-1'] })).status).toBe(400);
+    expect((await batch('req-1', { action: 'done', taskIds: [] })).status).toBe(400);
+    expect((await batch('req-1', { action: 'archive', taskIds: ['task-1'] })).status).toBe(400);
+    expect((await batch('missing', { action: 'done', taskIds: ['task-1'] })).status).toBe(404);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Ordered request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'First', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Second', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-3', title: 'Third', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    }
+  ]
+};
+
+describe('Task order API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function reorder(taskIds: unknown, headers?: Record<string, string>) {
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/order/route');
+    return PUT(jsonRequest('/api/requests/req-1/tasks/order', 'PUT', { taskIds }, headers), context({ id: 'req-1' }));
+  }
+
+  async function savedIds() {
+    return (await workspace.read()).requests[0].tasks.map(t => t.id);
+  }
+
+  it('reorders tasks, keeping their ids', async () => {
+    const res = await reorder(['task-3', 'task-1', 'task-2']);
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.taskIds).toEqual(['task-3', 'task-1', 'task-2']);
+
+    expect(await savedIds()).toEqual(['task-3', 'task-1', 'task-2']);
+  });
+
+  it('records the reorder in the history and undoes it', async () => {
+    await reorder(['task-2', 'task-1', 'task-3']);
+
+    const { GET } = await import('@/app/api/requests/[id]/history/route');
+    const history = await (await GET(jsonRequest('/api/requests/req-1/history', 'GET'), context({ id: 'req-1' }))).json();
+    expect(history.data[0]).toMatchObject({
+      operation: 'Reorder tasks of req-1',
+      fields: [{ field: 'taskOrder', from: ['task-1', 'task-2', 'task-3'], to: ['task-2', 'task-1', 'task-3'] }]
+    });
+
+    const { POST } = await import('@/app/api/undo/route');
+    expect((await POST(jsonRequest('/api/undo', 'POST', {}))).status).toBe(200);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('rejects an order that does not list every task once', async () => {
+    expect((await reorder(['task-2', 'task-1'])).status).toBe(409);
+    expect((await reorder(['task-2', 'task-1', 'task-4'])).status).toBe(409);
+    expect((await reorder(['task-1', 'task-1', 'task-2', 'task-3'])).status).toBe(400);
+    expect((await reorder([])).status).toBe(400);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('honours If-Match against the request', async () => {
+    expect((await reorder(['task-3', 'task-2', 'task-1'], { 'If-Match': '"stale"' })).status).toBe(412);
+
+    const { GET } = await import('@/app/api/requests/[id]/route');
+    const etag = (await GET(jsonRequest('/api/requests/req-1', 'GET'), context({ id: 'req-1' }))).headers.get('ETag') as string;
+    const res = await reorder(['task-3', 'task-2', 'task-1'], { 'If-Match': etag });
+    expect(res.status).toBe(200);
+  });
+
+  it('returns the new version so the next save can follow on', async () => {
+    const res = await reorder(['task-2', 'task-3', 'task-1']);
+    const etag = res.headers.get('ETag') as string;
+
+    const route = await import('@/app/api/requests/[id]/route');
+    const current = await route.GET(jsonRequest('/api/requests/req-1', 'GET'), context({ id: 'req-1' }));
+    expect(current.headers.get('ETag')).toBe(etag);
+
+    const save = await route.PUT(
+      jsonRequest('/api/requests/req-1', 'PUT', { splitDetails: 'After reorder' }, { 'If-Match': etag }),
+      context({ id: 'req-1' })
+    );
+    expect(save.status).toBe(200);
+  });
+
+  it('inserts new tasks at a position', async () => {
+    const { POST } = await import('@/app/api/requests/[id]/tasks/route');
+    const create = (title: string, position?: number) => POST(
+      jsonRequest('/api/requests/req-1/tasks', 'POST', { title, description: 'Task', done: false, approved: false, completedDetails: '', position }),
+      context({ id: 'req-1' })
+    );
+
+    expect((await create('Top', 0)).status).toBe(200);
+    expect((await create('Middle', 2)).status).toBe(200);
+    expect((await create('Past the end', 99)).status).toBe(200);
+    expect((await create('Negative', -1)).status).toBe(400);
+
+    const tasks = (await workspace.read()).requests[0].tasks;
+    expect(tasks.map(t => [t.id, t.title])).toEqual([
+      ['task-4', 'Top'],
+      ['task-1', 'First'],
+      ['task-5', 'Middle'],
+      ['task-2', 'Second'],
+      ['task-3', 'Third'],
+      ['task-6', 'Past the end']
+    ]);
+    expect(tasks[0]).not.toHaveProperty('position');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Status request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Legacy task', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Done task', description: 'Task', done: true, approved: false, completedDetails: 'Done' }
+      ]
+    },
+    {
+      requestId: 'req-2',
+      originalRequest: 'Other request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Working task', description: 'Task', done: false, approved: false, completedDetails: '', status: 'in-progress' }
+      ]
+    }
+  ]
+};
+
+describe('Task status', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function updateTask(taskId: string, body: unknown) {
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    return PUT(jsonRequest(`/api/requests/req-1/tasks/${taskId}`, 'PUT', body), context({ id: 'req-1', taskId }));
+  }
+
+  it('stores a status with a blocked reason and keeps the flags in step', async () => {
+    const res = await updateTask('task-2', { status: 'blocked', blockedReason: 'Waiting for review access' });
+    expect(res.status).toBe(200);
+
+    const task = (await workspace.read()).requests[0].tasks[1];
+    expect(task).toMatchObject({ status: 'blocked', blockedReason: 'Waiting for review access', done: false, approved: false });
+  });
+
+  it('moves the status along when only the flags change', async () => {
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await PUT(jsonRequest('/api/requests/req-2/tasks/task-1', 'PUT', { done: true }), context({ id: 'req-2', taskId: 'task-1' }));
+
+    expect((await workspace.read()).requests[1].tasks[0]).toMatchObject({ status: 'needs-review', done: true });
+  });
+
+  it('filters tasks and requests by status', async () => {
+    const tasksRoute = await import('@/app/api/tasks/route');
+    const tasks = await (await tasksRoute.GET(jsonRequest('/api/tasks?status=in-progress,needs-review', 'GET'))).json();
+    expect(tasks.data.tasks.map((t: { requestId: string; id: string }) => `${t.requestId}/${t.id}`).sort()).toEqual(['req-1/task-2', 'req-2/task-1']);
+
+    const requestsRoute = await import('@/app/api/requests/route');
+    const requests = await (await requestsRoute.GET(jsonRequest('/api/requests?status=in-progress', 'GET'))).json();
+    expect(requests.data.requests.map((r: { requestId: string }) => r.requestId)).toEqual(['req-2']);
+  });
+
+  it('rejects unknown statuses', async () => {
+    const tasksRoute = await import('@/app/api/tasks/route');
+    expect((await tasksRoute.GET(jsonRequest('/api/tasks?status=stuck', 'GET'))).status).toBe(400);
+    expect((await updateTask('task-1', { status: 'stuck' })).status).toBe(400);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { computeEtag } from '@/utils/etag';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Wrong request',
+      splitDetails: 'Split into two tasks',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Stays', description: 'Task', done: false, approved: false, completedDetails: '' },
+        {
+          id: 'task-2',
+          title: 'Belongs elsewhere',
+          description: 'Task',
+          done: true,
+          approved: false,
+          completedDetails: 'Shipped',
+          createdAt: '2026-10-01T00:00:00.000Z'
+        }
+      ]
+    },
+    {
+      requestId: 'req-2',
+      originalRequest: 'Right request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Existing', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    }
+  ]
+};
+
+describe('Task move and copy API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function transfer(mode: 'move' | 'copy', taskId: string, body: unknown, headers?: Record<string, string>) {
+    const { POST } = mode === 'move'
+      ? await import('@/app/api/requests/[id]/tasks/[taskId]/move/route')
+      : await import('@/app/api/requests/[id]/tasks/[taskId]/copy/route');
+    return POST(jsonRequest(`/api/requests/req-1/tasks/${taskId}/${mode}`, 'POST', body, headers), context({ id: 'req-1', taskId }));
+  }
+
+  it('moves a task under a new id', async () => {
+    const res = await transfer('move', 'task-2', { toRequestId: 'req-2' });
+    expect(res.status).toBe(200);
+
+    const { data } = await res.json();
+    expect(data.from).toEqual({ requestId: 'req-1', taskId: 'task-2' });
+    expect(data.requestId).toBe('req-2');
+    expect(data.task.id).toBe('task-2');
+
+    const saved = await workspace.read();
+    expect(saved.requests[0].tasks.map(t => t.id)).toEqual(['task-1']);
+    expect(saved.requests[0].splitDetails).toBe('Split into two tasks');
+    expect(saved.requests[1].tasks[1]).toMatchObject({
+      id: 'task-2',
+      title: 'Belongs elsewhere',
+      done: true,
+      completedDetails: 'Shipped',
+      createdAt: '2026-10-01T00:00:00.000Z'
+    });
+  });
+
+  it('leaves a tombstone note in the source when asked', async () => {
+    await transfer('move', 'task-2', { toRequestId: 'req-2', tombstone: true });
+
+    const source = (await workspace.read()).requests[0];
+    expect(source.splitDetails).toBe('Split into two tasks\n\nTask task-2 "Belongs elsewhere" moved to request req-2 as task-2.');
+  });
+
+  it('copies a task, leaving the original in place', async () => {
+    const res = await transfer('copy', 'task-1', { toRequestId: 'req-1' });
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.task.id).toBe('task-3');
+
+    const tasks = (await workspace.read()).requests[0].tasks;
+    expect(tasks.map(t => [t.id, t.title])).toEqual([['task-1', 'Stays'], ['task-2', 'Belongs elsewhere'], ['task-3', 'Stays']]);
+    expect(tasks[2].createdAt).toBeDefined();
+    expect(tasks[0].createdAt).toBeUndefined();
+  });
+
+  it('refuses to move a task into its own request or a missing one', async () => {
+    expect((await transfer('move', 'task-2', { toRequestId: 'req-1' })).status).toBe(400);
+    expect((await transfer('move', 'task-2', { toRequestId: 'missing' })).status).toBe(404);
+    expect((await transfer('copy', 'task-9', { toRequestId: 'req-2' })).status).toBe(404);
+    expect((await transfer('move', 'task-2', {})).status).toBe(400);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('honours If-Match on moves', async () => {
+    const stale = await transfer('move', 'task-2', { toRequestId: 'req-2' }, { 'If-Match': '"stale"' });
+    expect(stale.status).toBe(412);
+
+    const current = await transfer('move', 'task-2', { toRequestId: 'req-2' }, { 'If-Match': computeEtag(seedData.requests[0].tasks[1]) });
+    expect(current.status).toBe(200);
+  });
+
+  it('undoes a move in one step', async () => {
+    await transfer('move', 'task-2', { toRequestId: 'req-2', tombstone: true });
+
+    const { POST } = await import('@/app/api/undo/route');
+    expect((await POST(jsonRequest('/api/undo', 'POST', {}))).status).toBe(200);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+});
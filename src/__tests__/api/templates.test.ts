@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Add the invoices API',
+      splitDetails: 'Route, schema, tests and docs',
+      completed: true,
+      tasks: [
+        { id: 'task-2', title: 'Add invoices route', description: 'GET and POST', done: true, approved: true, completedDetails: 'Shipped', createdAt: '2026-10-01T00:00:00.000Z' },
+        { id: 'task-5', title: 'Write tests', description: 'Cover invoices', done: true, approved: false, completedDetails: 'Added', status: 'rejected' }
+      ]
+    }
+  ]
+};
+
+describe('Templates API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function saveTemplate() {
+    const { POST } = await import('@/app/api/templates/route');
+    const res = await POST(jsonRequest('/api/templates', 'POST', { requestId: 'req-1', name: 'API route' }));
+    return (await res.json()).data;
+  }
+
+  async function update(id: string, body: unknown) {
+    const { PUT } = await import('@/app/api/templates/[id]/route');
+    return PUT(jsonRequest(`/api/templates/${id}`, 'PUT', body), context({ id }));
+  }
+
+  async function instantiate(id: string, body: unknown) {
+    const { POST } = await import('@/app/api/templates/[id]/instantiate/route');
+    return POST(jsonRequest(`/api/templates/${id}/instantiate`, 'POST', body), context({ id }));
+  }
+
+  it('saves a request as a template next to tasks.json, not in it', async () => {
+    const template = await saveTemplate();
+    expect(template).toMatchObject({
+      name: 'API route',
+      sourceRequestId: 'req-1',
+      tasks: [
+        { title: 'Add invoices route', description: 'GET and POST' },
+        { title: 'Write tests', description: 'Cover invoices' }
+      ],
+      placeholders: []
+    });
+
+    expect(await workspace.read()).toEqual(seedData);
+    const stored = await fs.readJson(path.join(workspace.dir, '.tasks.templates.json'));
+    expect(stored.templates.map((t: { id: string }) => t.id)).toEqual([template.id]);
+
+    const { GET } = await import('@/app/api/templates/route');
+    expect((await (await GET(jsonRequest('/api/templates', 'GET'))).json()).data).toHaveLength(1);
+  });
+
+  it('creates a request from a template with placeholders filled in and fresh tasks', async () => {
+    const template = await saveTemplate();
+    const edited = await update(template.id, {
+      originalRequest: 'Add the {{resource}} API',
+      tasks: [
+        { title: 'Add {{resource}} route', description: 'GET and POST' },
+        { title: 'Write tests', description: 'Cover {{resource}}' }
+      ]
+    });
+    expect((await edited.json()).data.placeholders).toEqual(['resource']);
+
+    expect((await instantiate(template.id, {})).status).toBe(400);
+
+    const res = await instantiate(template.id, { values: { resource: 'payments' } });
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.requestId).toBe('req-2');
+
+    const created = (await workspace.read()).requests[1];
+    expect(created).toMatchObject({
+      originalRequest: 'Add the payments API',
+      splitDetails: 'Route, schema, tests and docs',
+      completed: false
+    });
+    expect(created.tasks.map(t => [t.id, t.title, t.description, t.done, t.approved])).toEqual([
+      ['task-1', 'Add payments route', 'GET and POST', false, false],
+      ['task-2', 'Write tests', 'Cover payments', false, false]
+    ]);
+  });
+
+  it('deletes templates and reports missing ones', async () => {
+    const template = await saveTemplate();
+    const { DELETE } = await import('@/app/api/templates/[id]/route');
+
+    expect((await DELETE(jsonRequest(`/api/templates/${template.id}`, 'DELETE'), context({ id: template.id }))).status).toBe(200);
+    expect((await DELETE(jsonRequest(`/api/templates/${template.id}`, 'DELETE'), context({ id: template.id }))).status).toBe(404);
+    expect((await update('missing', { name: 'Renamed' })).status).toBe(404);
+    expect((await instantiate('missing', {})).status).toBe(404);
+  });
+
+  it('validates new templates', async () => {
+    const { POST } = await import('@/app/api/templates/route');
+    expect((await POST(jsonRequest('/api/templates', 'POST', { requestId: 'req-1', name: '  ' }))).status).toBe(400);
+    expect((await POST(jsonRequest('/api/templates', 'POST', { requestId: 'missing', name: 'Nope' }))).status).toBe(404);
+  });
+
+  it('duplicates a request with its tasks reset under fresh ids', async () => {
+    const { POST } = await import('@/app/api/requests/[id]/duplicate/route');
+    const res = await POST(jsonRequest('/api/requests/req-1/duplicate', 'POST'), context({ id: 'req-1' }));
+    expect(res.status).toBe(200);
+
+    const saved = await workspace.read();
+    expect(saved.requests[0]).toEqual(seedData.requests[0]);
+    expect(saved.requests[1]).toMatchObject({ requestId: 'req-2', originalRequest: 'Add the invoices API', completed: false });
+    expect(saved.requests[1].tasks.map(t => [t.id, t.title, t.done, t.approved, t.completedDetails, t.status])).toEqual([
+      ['task-1', 'Add invoices route', false, false, '', undefined],
+      ['task-2', 'Write tests', false, false, '', undefined]
+    ]);
+
+    const { POST: undo } = await import('@/app/api/undo/route');
+    expect((await undo(jsonRequest('/api/undo', 'POST', {}))).status).toBe(200);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+});
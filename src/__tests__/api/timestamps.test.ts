@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+// A legacy request without stamps next to two stamped ones
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    { requestId: 'req-1', originalRequest: 'Legacy request', splitDetails: '', completed: false, tasks: [] },
+    {
+      requestId: 'req-2',
+      originalRequest: 'October request',
+      splitDetails: '',
+      completed: false,
+      createdAt: '2026-10-05T10:00:00.000Z',
+      updatedAt: '2026-10-12T10:00:00.000Z',
+      tasks: [
+        {
+          id: 'task-1', title: 'October task', description: 'Task', done: true, approved: false, completedDetails: 'Done',
+          createdAt: '2026-10-05T10:00:00.000Z', updatedAt: '2026-10-06T10:00:00.000Z', completedAt: '2026-10-06T10:00:00.000Z'
+        }
+      ]
+    },
+    {
+      requestId: 'req-3',
+      originalRequest: 'September request',
+      splitDetails: '',
+      completed: false,
+      createdAt: '2026-09-01T10:00:00.000Z',
+      updatedAt: '2026-10-15T10:00:00.000Z',
+      tasks: []
+    }
+  ]
+};
+
+describe('Timestamps', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await workspace.cleanup();
+  });
+
+  async function listRequests(query: string) {
+    const { GET } = await import('@/app/api/requests/route');
+    const res = await GET(jsonRequest(`/api/requests?${query}`, 'GET'));
+    return { status: res.status, body: await res.json() };
+  }
+
+  it('stamps created, updated, completed and approved times', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T08:00:00.000Z'));
+    const tasksRoute = await import('@/app/api/requests/[id]/tasks/route');
+    const created = await (await tasksRoute.POST(
+      jsonRequest('/api/requests/req-1/tasks', 'POST', { title: 'New', description: 'Task', done: false, approved: false, completedDetails: '' }),
+      context({ id: 'req-1' })
+    )).json();
+    expect(created.data).toMatchObject({ createdAt: '2026-10-19T08:00:00.000Z', updatedAt: '2026-10-19T08:00:00.000Z' });
+
+    vi.setSystemTime(new Date('2026-10-19T09:00:00.000Z'));
+    const taskRoute = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await taskRoute.PUT(
+      jsonRequest(`/api/requests/req-1/tasks/${created.data.id}`, 'PUT', { done: true, approved: true, createdAt: '2000-01-01T00:00:00.000Z' }),
+      context({ id: 'req-1', taskId: created.data.id })
+    );
+
+    const [legacy] = (await workspace.read()).requests;
+    expect(legacy.createdAt).toBeUndefined();
+    expect(legacy.updatedAt).toBe('2026-10-19T09:00:00.000Z');
+    expect(legacy.tasks[0]).toMatchObject({
+      createdAt: '2026-10-19T08:00:00.000Z',
+      updatedAt: '2026-10-19T09:00:00.000Z',
+      completedAt: '2026-10-19T09:00:00.000Z',
+      approvedAt: '2026-10-19T09:00:00.000Z'
+    });
+  });
+
+  it('sorts requests by created and updated time, with legacy records oldest', async () => {
+    const byCreated = await listRequests('sortBy=created&sortOrder=desc');
+    expect(byCreated.body.data.requests.map((r: { requestId: string }) => r.requestId)).toEqual(['req-2', 'req-3', 'req-1']);
+
+    const byUpdated = await listRequests('sortBy=updated&sortOrder=desc');
+    expect(byUpdated.body.data.requests.map((r: { requestId: string }) => r.requestId)).toEqual(['req-3', 'req-2', 'req-1']);
+  });
+
+  it('filters by date range, including the whole end day', async () => {
+    const october = await listRequests('createdFrom=2026-10-01&createdTo=2026-10-05');
+    expect(october.body.data.requests.map((r: { requestId: string }) => r.requestId)).toEqual(['req-2']);
+
+    const updated = await listRequests('updatedFrom=2026-10-13T00:00:00Z');
+    expect(updated.body.data.requests.map((r: { requestId: string }) => r.requestId)).toEqual(['req-3']);
+
+    const { GET } = await import('@/app/api/tasks/route');
+    const tasks = await (await GET(jsonRequest('/api/tasks?sortBy=updated&createdTo=2026-10-05', 'GET'))).json();
+    expect(tasks.data.tasks.map((t: { id: string }) => t.id)).toEqual(['task-1']);
+  });
+
+  it('rejects invalid dates', async () => {
+    const { status } = await listRequests('createdFrom=last-week');
+    expect(status).toBe(400);
+  });
+
+  it('orders recent activity by time', async () => {
+    const { GET } = await import('@/app/api/stats/route');
+    const stats = await (await GET(jsonRequest('/api/stats', 'GET'))).json();
+    expect(stats.data.recentActivity).toEqual([
+      expect.objectContaining({ taskId: 'task-1', requestId: 'req-2', activityAt: '2026-10-06T10:00:00.000Z', completedAt: '2026-10-06T10:00:00.000Z' })
+    ]);
+  });
+});
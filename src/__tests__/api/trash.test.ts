@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'First request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Keep me', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Delete me', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    },
+    { requestId: 'req-2', originalRequest: 'Second request', splitDetails: '', completed: false, tasks: [] }
+  ]
+};
+
+describe('Trash API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function listTrash() {
+    const { GET } = await import('@/app/api/trash/route');
+    return (await (await GET(jsonRequest('/api/trash', 'GET'))).json()).data;
+  }
+
+  async function restore(id: string) {
+    const { POST } = await import('@/app/api/trash/[id]/restore/route');
+    const res = await POST(jsonRequest(`/api/trash/${id}/restore`, 'POST'), context({ id }));
+    return { status: res.status, body: await res.json() };
+  }
+
+  async function deleteTask(id: string, taskId: string) {
+    const { DELETE } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await DELETE(jsonRequest(`/api/requests/${id}/tasks/${taskId}`, 'DELETE'), context({ id, taskId }));
+  }
+
+  async function deleteRequest(id: string) {
+    const { DELETE } = await import('@/app/api/requests/[id]/route');
+    await DELETE(jsonRequest(`/api/requests/${id}`, 'DELETE'), context({ id }));
+  }
+
+  it('moves deleted records out of tasks.json and into the trash', async () => {
+    await deleteTask('req-1', 'task-2');
+    await deleteRequest('req-2');
+
+    const data = await workspace.read();
+    expect(data.requests.map(r => r.requestId)).toEqual(['req-1']);
+    expect(data.requests[0].tasks.map(t => t.id)).toEqual(['task-1']);
+    expect(await fs.readFile(workspace.tasksFile, 'utf-8')).not.toContain('Delete me');
+
+    const trash = await listTrash();
+    expect(trash.retentionDays).toBe(30);
+    expect(trash.items.map((item: { type: string }) => item.type).sort()).toEqual(['request', 'task']);
+    const task = trash.items.find((item: { type: string }) => item.type === 'task');
+    expect(task.origin).toEqual({ requestId: 'req-1', requestTitle: 'First request', index: 1 });
+    expect(task.record.title).toBe('Delete me');
+    expect(task.deletedAt).toBeTruthy();
+  });
+
+  it('restores a request and a task to where they came from', async () => {
+    await deleteTask('req-1', 'task-2');
+    await deleteRequest('req-2');
+
+    for (const item of (await listTrash()).items) {
+      const res = await restore(item.id);
+      expect(res.status).toBe(200);
+      expect(res.body.data.createdRequest).toBe(false);
+    }
+
+    // req-1 keeps the update stamp from the task delete
+    expect(await workspace.read()).toEqual({
+      ...seedData,
+      requests: seedData.requests.map(r => (r.requestId === 'req-1' ? { ...r, updatedAt: expect.any(String) } : r))
+    });
+    expect((await listTrash()).items).toEqual([]);
+  });
+
+  it('restores a task into a new request when its request is gone', async () => {
+    await deleteTask('req-1', 'task-2');
+    await deleteRequest('req-1');
+    const task = (await listTrash()).items.find((item: { type: string }) => item.type === 'task');
+
+    const res = await restore(task.id);
+
+    expect(res.body.data).toEqual({ requestId: 'req-1', taskId: 'task-2', createdRequest: true });
+    const restored = (await workspace.read()).requests.find(r => r.requestId === 'req-1');
+    expect(restored?.originalRequest).toBe('First request');
+    expect(restored?.tasks.map(t => t.title)).toEqual(['Delete me']);
+  });
+
+  it('purges single items and empties the trash', async () => {
+    await deleteTask('req-1', 'task-2');
+    await deleteRequest('req-2');
+    const [first] = (await listTrash()).items;
+
+    const itemRoute = await import('@/app/api/trash/[id]/route');
+    expect((await itemRoute.DELETE(jsonRequest(`/api/trash/${first.id}`, 'DELETE'), context({ id: first.id }))).status).toBe(200);
+    expect((await listTrash()).items).toHaveLength(1);
+
+    const { DELETE } = await import('@/app/api/trash/route');
+    const emptied = await (await DELETE(jsonRequest('/api/trash', 'DELETE'))).json();
+    expect(emptied.data.purged).toBe(1);
+    expect((await listTrash()).items).toEqual([]);
+  });
+
+  it('drops items past the retention period', async () => {
+    await deleteRequest('req-2');
+    const trashFile = path.join(workspace.dir, '.tasks.trash.json');
+    const stored = JSON.parse(await fs.readFile(trashFile, 'utf-8'));
+    stored.items[0].deletedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    await fs.writeFile(trashFile, JSON.stringify(stored));
+
+    expect((await listTrash()).items).toEqual([]);
+  });
+
+  it('leaves the trash alone when the save fails', async () => {
+    const { JsonFileStorage } = await import('@/services/storage');
+    const write = vi.spyOn(JsonFileStorage.prototype, 'write').mockRejectedValueOnce(new Error('Disk full'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await deleteRequest('req-2');
+    expect(await workspace.read()).toEqual(seedData);
+    expect((await listTrash()).items).toEqual([]);
+
+    await deleteRequest('req-2');
+    const [item] = (await listTrash()).items;
+    write.mockRejectedValueOnce(new Error('Disk full'));
+    expect((await restore(item.id)).status).toBe(500);
+    expect((await listTrash()).items).toHaveLength(1);
+  });
+
+  it('puts a record back in the trash when its restore is undone, and takes it out on redo', async () => {
+    await deleteTask('req-1', 'task-2');
+    const [item] = (await listTrash()).items;
+    await restore(item.id);
+
+    const { POST: undo } = await import('@/app/api/undo/route');
+    const { POST: redo } = await import('@/app/api/redo/route');
+    expect((await undo(jsonRequest('/api/undo', 'POST', {}))).status).toBe(200);
+    expect((await workspace.read()).requests[0].tasks.map(t => t.id)).toEqual(['task-1']);
+    expect((await listTrash()).items).toEqual([item]);
+
+    expect((await redo(jsonRequest('/api/redo', 'POST', {}))).status).toBe(200);
+    expect((await workspace.read()).requests[0].tasks.map(t => t.id)).toEqual(['task-1', 'task-2']);
+    expect((await listTrash()).items).toEqual([]);
+  });
+
+  it('puts a record back in the trash when its undone delete is redone', async () => {
+    await deleteRequest('req-2');
+    const { items } = await listTrash();
+
+    const { POST: undo } = await import('@/app/api/undo/route');
+    const { POST: redo } = await import('@/app/api/redo/route');
+    await undo(jsonRequest('/api/undo', 'POST', {}));
+    await redo(jsonRequest('/api/redo', 'POST', {}));
+
+    expect((await workspace.read()).requests.map(r => r.requestId)).toEqual(['req-1']);
+    expect((await listTrash()).items).toEqual(items);
+  });
+
+  it('keeps an unreadable trash aside instead of writing over it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const trashFile = path.join(workspace.dir, '.tasks.trash.json');
+    await fs.writeFile(trashFile, '{"items": [{"id": "half-written"');
+
+    await deleteRequest('req-2');
+
+    expect((await listTrash()).items.map((item: { record: { requestId: string } }) => item.record.requestId)).toEqual(['req-2']);
+    const copies = (await fs.readdir(workspace.dir)).filter(name => name.startsWith('.tasks.trash-unreadable-'));
+    expect(copies).toHaveLength(1);
+    expect(await fs.readFile(path.join(workspace.dir, copies[0]), 'utf-8')).toBe('{"items": [{"id": "half-written"');
+  });
+
+  it('takes an undone delete back out of the trash', async () => {
+    await deleteRequest('req-2');
+    const { POST } = await import('@/app/api/undo/route');
+    await POST(jsonRequest('/api/undo', 'POST', {}));
+
+    expect(await workspace.read()).toEqual(seedData);
+    expect((await listTrash()).items).toEqual([]);
+  });
+});
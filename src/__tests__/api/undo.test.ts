@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'First request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Original title', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    },
+    { requestId: 'req-2', originalRequest: 'Second request', splitDetails: '', completed: false, tasks: [] },
+    { requestId: 'req-3', originalRequest: 'Third request', splitDetails: '', completed: false, tasks: [] }
+  ]
+};
+
+describe('Undo/redo API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function deleteRequest(id: string) {
+    const { DELETE } = await import('@/app/api/requests/[id]/route');
+    return DELETE(jsonRequest(`/api/requests/${id}`, 'DELETE'), context({ id }));
+  }
+
+  async function undo(steps?: number) {
+    const { POST } = await import('@/app/api/undo/route');
+    const res = await POST(jsonRequest('/api/undo', 'POST', { steps }));
+    return { status: res.status, body: await res.json() };
+  }
+
+  async function redo() {
+    const { POST } = await import('@/app/api/redo/route');
+    const res = await POST(jsonRequest('/api/redo', 'POST', {}));
+    return { status: res.status, body: await res.json() };
+  }
+
+  it('undoes a delete back into its original position and redoes it', async () => {
+    await deleteRequest('req-2');
+    expect((await workspace.read()).requests.map(r => r.requestId)).toEqual(['req-1', 'req-3']);
+
+    const undone = await undo();
+    expect(undone.status).toBe(200);
+    expect(undone.body.data).toMatchObject({ applied: ['Delete request req-2'], undo: null, redo: 'Delete request req-2' });
+    expect(await workspace.read()).toEqual(seedData);
+
+    const redone = await redo();
+    expect(redone.status).toBe(200);
+    expect((await workspace.read()).requests.map(r => r.requestId)).toEqual(['req-1', 'req-3']);
+  });
+
+  it('undoes a task edit and several deletes in one call', async () => {
+    const taskRoute = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await taskRoute.PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { title: 'Changed title' }),
+      context({ id: 'req-1', taskId: 'task-1' })
+    );
+    await deleteRequest('req-2');
+    await deleteRequest('req-3');
+
+    const { GET } = await import('@/app/api/undo/route');
+    const status = await (await GET(jsonRequest('/api/undo', 'GET'))).json();
+    expect(status.data.undo).toBe('Delete request req-3');
+
+    const undone = await undo(2);
+    expect(undone.body.data.applied).toEqual(['Delete request req-3', 'Delete request req-2']);
+    expect(undone.body.data.undo).toBe('Update task task-1 in req-1');
+
+    await undo();
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('refuses to undo over a change made since', async () => {
+    await deleteRequest('req-2');
+
+    // Someone else (e.g. the MCP server) re-creates the request with other content
+    const data = await workspace.read();
+    data.requests.push({ requestId: 'req-2', originalRequest: 'Recreated elsewhere', splitDetails: '', completed: false, tasks: [] });
+    await fs.writeFile(workspace.tasksFile, JSON.stringify(data, null, 2));
+
+    const undone = await undo();
+    expect(undone.status).toBe(409);
+    expect((await workspace.read()).requests[2].originalRequest).toBe('Recreated elsewhere');
+  });
+
+  it('reports when there is nothing to undo', async () => {
+    const undone = await undo();
+    expect(undone.status).toBe(409);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RecordVersion, TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Original wording',
+      splitDetails: 'Original plan',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'First title', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Other task', description: 'Task', done: false, approved: false, completedDetails: '' }
+      ]
+    },
+    { requestId: 'req-2', originalRequest: 'Untouched request', splitDetails: '', completed: false, tasks: [] }
+  ]
+};
+
+describe('Record versions API', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function versions(query = ''): Promise<RecordVersion[]> {
+    const { GET } = await import('@/app/api/requests/[id]/versions/route');
+    const res = await GET(jsonRequest(`/api/requests/req-1/versions${query}`, 'GET'), context({ id: 'req-1' }));
+    return (await res.json()).data;
+  }
+
+  async function revert(versionId: string) {
+    const { POST } = await import('@/app/api/requests/[id]/revert/route');
+    return POST(jsonRequest('/api/requests/req-1/revert', 'POST', { versionId }), context({ id: 'req-1' }));
+  }
+
+  async function updateTask(body: unknown) {
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    return PUT(jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', body), context({ id: 'req-1', taskId: 'task-1' }));
+  }
+
+  it('keeps the previous version of a task on every save', async () => {
+    await updateTask({ title: 'Second title' });
+    await updateTask({ title: 'Botched title', done: true });
+
+    const list = await versions('?taskId=task-1');
+    expect(list.map(version => version.type === 'task' && version.record.title)).toEqual(['Second title', 'First title']);
+    expect(await versions()).toEqual([]);
+  });
+
+  it('reverts one task without touching the rest of the file', async () => {
+    await updateTask({ title: 'Botched title', done: true });
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    await PUT(jsonRequest('/api/requests/req-1/tasks/task-2', 'PUT', { done: true }), context({ id: 'req-1', taskId: 'task-2' }));
+
+    const [original] = await versions('?taskId=task-1');
+    const res = await revert(original.id);
+    expect(res.status).toBe(200);
+
+    const data = await workspace.read();
+    expect(data.requests[0].tasks[0]).toMatchObject({ title: 'First title', done: false });
+    expect(data.requests[0].tasks[1].done).toBe(true);
+    expect(data.requests[1]).toEqual(seedData.requests[1]);
+
+    // The botched version is kept, so the revert can be reverted
+    const [latest] = await versions('?taskId=task-1');
+    expect(latest.record).toMatchObject({ title: 'Botched title', done: true });
+  });
+
+  it('reverts a request\'s own fields and keeps its current tasks', async () => {
+    const { PUT } = await import('@/app/api/requests/[id]/route');
+    await PUT(jsonRequest('/api/requests/req-1', 'PUT', { originalRequest: 'Rewritten', splitDetails: 'New plan', completed: false }), context({ id: 'req-1' }));
+    await updateTask({ done: true });
+
+    const [original] = await versions();
+    expect(original.record).not.toHaveProperty('tasks');
+    await revert(original.id);
+
+    const data = await workspace.read();
+    expect(data.requests[0]).toMatchObject({ originalRequest: 'Original wording', splitDetails: 'Original plan' });
+    expect(data.requests[0].tasks[0].done).toBe(true);
+  });
+
+  it('keeps no version of an edit that failed to save', async () => {
+    const { JsonFileStorage } = await import('@/services/storage');
+    vi.spyOn(JsonFileStorage.prototype, 'write').mockRejectedValue(new Error('Disk full'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await updateTask({ title: 'Never saved' })).status).toBe(500);
+    const { PUT } = await import('@/app/api/requests/[id]/route');
+    expect((await PUT(jsonRequest('/api/requests/req-1', 'PUT', { originalRequest: 'Never saved' }), context({ id: 'req-1' }))).status).toBe(500);
+
+    expect(await workspace.read()).toEqual(seedData);
+    expect(await versions('?taskId=task-1')).toEqual([]);
+    expect(await versions()).toEqual([]);
+  });
+
+  it('returns 404 for an unknown version', async () => {
+    const res = await revert('missing');
+    expect(res.status).toBe(404);
+  });
+
+  it('rejects a revert without a version id', async () => {
+    const { POST } = await import('@/app/api/requests/[id]/revert/route');
+    const res = await POST(jsonRequest('/api/requests/req-1/revert', 'POST', {}), context({ id: 'req-1' }));
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const seedData: TasksData = {
+  schemaVersion: 1,
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Workflow request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Open task', description: 'Task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Approved task', description: 'Task', done: true, approved: true, completedDetails: 'Done' }
+      ]
+    }
+  ]
+};
+
+describe('Workflow rules', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(seedData);
+  });
+
+  afterEach(async () => {
+    delete process.env.TASKS_WORKFLOW_RULES;
+    await workspace.cleanup();
+  });
+
+  async function updateTask(taskId: string, body: unknown) {
+    const { PUT } = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+    return PUT(jsonRequest(`/api/requests/req-1/tasks/${taskId}`, 'PUT', body), context({ id: 'req-1', taskId }));
+  }
+
+  it('returns 422 with an explanation for an illegal transition', async () => {
+    const res = await updateTask('task-1', { approved: true });
+    expect(res.status).toBe(422);
+
+    const json = await res.json();
+    expect(json.error).toMatch(/must be done before it can be approved/);
+    expect(json.validation).toEqual([{ field: 'approved', message: 'A task must be done before it can be approved' }]);
+    expect(await workspace.read()).toEqual(seedData);
+  });
+
+  it('withdraws approval when a task is reopened', async () => {
+    const res = await updateTask('task-2', { done: false, approved: true });
+    expect(res.status).toBe(200);
+
+    const data = await workspace.read();
+    expect(data.requests[0].tasks[1]).toMatchObject({ done: false, approved: false });
+  });
+
+  it('applies rules configured in TASKS_WORKFLOW_RULES', async () => {
+    process.env.TASKS_WORKFLOW_RULES = '{"doneRequiresDetails": true}';
+
+    const { GET } = await import('@/app/api/workflow/route');
+    const rules = await (await GET(jsonRequest('/api/workflow', 'GET'))).json();
+    expect(rules.data).toEqual({ approveRequiresDone: true, undoneClearsApproval: true, doneRequiresDetails: true });
+
+    expect((await updateTask('task-1', { done: true })).status).toBe(422);
+    expect((await updateTask('task-1', { done: true, completedDetails: 'Shipped' })).status).toBe(200);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { TasksData } from '@/types';
+import { createTempWorkspace, jsonRequest, context, TempWorkspace } from '../helpers/routeHarness';
+
+const defaultData: TasksData = {
+  requests: [
+    { requestId: 'req-1', originalRequest: 'Default workspace request', splitDetails: '', completed: false, tasks: [] }
+  ]
+};
+
+const projectData: TasksData = {
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Project workspace request',
+      splitDetails: '',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'Project task', description: 'Lives in the project file', done: false, approved: false, completedDetails: '' }
+      ]
+    }
+  ]
+};
+
+describe('Workspace-scoped API', () => {
+  let workspace: TempWorkspace;
+  let projectDir: string;
+  let projectFile: string;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace(defaultData);
+    projectDir = path.join(workspace.dir, 'project');
+    projectFile = path.join(projectDir, 'tasks.json');
+    await fs.ensureDir(projectDir);
+    await fs.writeFile(projectFile, JSON.stringify(projectData, null, 2));
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function registerProject() {
+    const { POST } = await import('@/app/api/workspaces/route');
+    return POST(jsonRequest('/api/workspaces', 'POST', { name: 'project', path: projectDir }));
+  }
+
+  it('registers a workspace and lists it next to the default', async () => {
+    const res = await registerProject();
+    expect(res.status).toBe(200);
+
+    const { GET } = await import('@/app/api/workspaces/route');
+    const list = await (await GET(jsonRequest('/api/workspaces', 'GET', undefined, { 'X-Workspace': 'project' }))).json();
+
+    expect(list.data.map((w: { name: string }) => w.name)).toEqual(['default', 'project']);
+    expect(list.data.find((w: { active: boolean }) => w.active).name).toBe('project');
+    expect(list.data[1].path).toBe(projectDir);
+  });
+
+  it('routes reads and writes to the selected workspace file', async () => {
+    await registerProject();
+    const requestsRoute = await import('@/app/api/requests/route');
+    const taskRoute = await import('@/app/api/requests/[id]/tasks/[taskId]/route');
+
+    const list = await (await requestsRoute.GET(jsonRequest('/api/requests', 'GET', undefined, { 'X-Workspace': 'project' }))).json();
+    expect(list.data.requests[0].originalRequest).toBe('Project workspace request');
+
+    const res = await taskRoute.PUT(
+      jsonRequest('/api/requests/req-1/tasks/task-1', 'PUT', { done: true }, { 'X-Workspace': 'project' }),
+      context({ id: 'req-1', taskId: 'task-1' })
+    );
+    expect(res.status).toBe(200);
+
+    const project = JSON.parse(await fs.readFile(projectFile, 'utf-8'));
+    expect(project.requests[0].tasks[0].done).toBe(true);
+    expect(await fs.pathExists(path.join(projectDir, '.backups'))).toBe(true);
+
+    // The default workspace is untouched
+    expect(await workspace.read()).toEqual(defaultData);
+    expect(await fs.pathExists(path.join(workspace.dir, '.backups'))).toBe(false);
+  });
+
+  it('selects the workspace from the UI cookie', async () => {
+    await registerProject();
+    const { GET } = await import('@/app/api/requests/route');
+
+    const res = await GET(jsonRequest('/api/requests', 'GET', undefined, { Cookie: 'taskEditor_workspace=project' }));
+    const json = await res.json();
+    expect(json.data.requests[0].originalRequest).toBe('Project workspace request');
+  });
+
+  it('returns 404 for an unknown workspace', async () => {
+    const { GET } = await import('@/app/api/requests/route');
+
+    const res = await GET(jsonRequest('/api/requests', 'GET', undefined, { 'X-Workspace': 'missing' }));
+    expect(res.status).toBe(404);
+  });
+
+  it('unregisters a workspace without deleting its file', async () => {
+    await registerProject();
+    const { DELETE } = await import('@/app/api/workspaces/[name]/route');
+
+    const res = await DELETE(jsonRequest('/api/workspaces/project', 'DELETE'), context({ name: 'project' }));
+    expect(res.status).toBe(200);
+    expect(await fs.pathExists(projectFile)).toBe(true);
+
+    const { GET } = await import('@/app/api/requests/route');
+    const after = await GET(jsonRequest('/api/requests', 'GET', undefined, { 'X-Workspace': 'project' }));
+    expect(after.status).toBe(404);
+  });
+
+  it('keeps every workspace registered at the same time', async () => {
+    const { POST, GET } = await import('@/app/api/workspaces/route');
+    const names = ['one', 'two', 'three', 'four'];
+    const results = await Promise.all(names.map(name => POST(jsonRequest('/api/workspaces', 'POST', { name, path: projectDir }))));
+    expect(results.map(res => res.status)).toEqual([200, 200, 200, 200]);
+
+    const list = await (await GET(jsonRequest('/api/workspaces', 'GET'))).json();
+    expect(list.data.map((w: { name: string }) => w.name).sort()).toEqual(['default', ...names].sort());
+
+    const { DELETE } = await import('@/app/api/workspaces/[name]/route');
+    await Promise.all(['one', 'three'].map(name => DELETE(jsonRequest(`/api/workspaces/${name}`, 'DELETE'), context({ name }))));
+    const remaining = await (await GET(jsonRequest('/api/workspaces', 'GET'))).json();
+    expect(remaining.data.map((w: { name: string }) => w.name).sort()).toEqual(['default', 'four', 'two']);
+  });
+});
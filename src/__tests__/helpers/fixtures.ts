@@ -0,0 +1,15 @@
+import { Request, Task, TasksData } from '@/types';
+
+// Minimal valid records for unit tests. Pass only the fields a test cares about.
+
+export function task(overrides: Partial<Task> = {}): Task {
+  return { id: 'task-1', title: 'Task', description: 'Task', done: false, approved: false, completedDetails: '', ...overrides };
+}
+
+export function request(tasks: Task[], overrides: Partial<Request> = {}): Request {
+  return { requestId: 'req-1', originalRequest: 'Request', splitDetails: '', completed: false, tasks, ...overrides };
+}
+
+export function data(...requests: Request[]): TasksData {
+  return { requests };
+}
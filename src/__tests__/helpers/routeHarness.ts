@@ -0,0 +1,55 @@
+import { vi } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { TasksData } from '@/types';
+
+// Helpers for tests that run the real route handlers against a real tasks.json
+// in a temp directory, so locking and transactions are exercised end to end.
+
+export type RouteContext<P> = { params: Promise<P> };
+
+export function jsonRequest(url: string, method: string, body?: unknown, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(`http://localhost${url}`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+export function context<P>(params: P): RouteContext<P> {
+  return { params: Promise.resolve(params) };
+}
+
+export interface TempWorkspace {
+  dir: string;
+  tasksFile: string;
+  read(): Promise<TasksData>;
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Seed a temp directory with tasks.json and point the service at it.
+ * Route modules must be imported (dynamically) after this runs.
+ */
+export async function createTempWorkspace(seed: TasksData): Promise<TempWorkspace> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'task-editor-'));
+  const tasksFile = path.join(dir, 'tasks.json');
+  await fs.writeFile(tasksFile, JSON.stringify(seed, null, 2));
+
+  // The service resolves its file paths from the working directory at import time
+  vi.spyOn(process, 'cwd').mockReturnValue(dir);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.resetModules();
+
+  return {
+    dir,
+    tasksFile,
+    read: async () => JSON.parse(await fs.readFile(tasksFile, 'utf-8')),
+    cleanup: async () => {
+      vi.restoreAllMocks();
+      await fs.remove(dir);
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ApiError } from '@/types';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, getSchemaVersion, getWriteSchemaVersion, migrateTo, planMigration } from '@/schemas/migrations';
+
+const legacy = { requests: [] };
+
+describe('Schema migrations', () => {
+  it('registers migrations in order, ending at the current version', () => {
+    expect(MIGRATIONS.map(migration => migration.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+    expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it('treats unversioned data as version 0', () => {
+    expect(getSchemaVersion(legacy)).toBe(0);
+    expect(getSchemaVersion({ schemaVersion: 'one', requests: [] })).toBe(0);
+    expect(getSchemaVersion({ schemaVersion: 1, requests: [] })).toBe(1);
+  });
+
+  it('upgrades legacy data and downgrades it back to the same shape', () => {
+    const upgraded = migrateTo(legacy);
+    expect(upgraded.data).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, requests: [] });
+    expect(upgraded.steps.map(step => step.version)).toEqual([1]);
+    expect(Object.keys(upgraded.data)[0]).toBe('schemaVersion');
+
+    const downgraded = migrateTo(upgraded.data, 0);
+    expect(downgraded.data).toEqual(legacy);
+    expect(legacy).toEqual({ requests: [] });
+  });
+
+  it('leaves current data and data from a newer editor untouched', () => {
+    const current = { schemaVersion: CURRENT_SCHEMA_VERSION, requests: [] };
+    expect(migrateTo(current)).toEqual({ data: current, steps: [] });
+
+    const newer = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, requests: [] };
+    expect(migrateTo(newer).data).toBe(newer);
+  });
+
+  it('rejects unknown target versions', () => {
+    expect(() => planMigration(0, CURRENT_SCHEMA_VERSION + 1)).toThrow(ApiError);
+  });
+
+  it('falls back to the current version for an invalid write version', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(getWriteSchemaVersion('0')).toBe(0);
+    expect(getWriteSchemaVersion(undefined)).toBe(CURRENT_SCHEMA_VERSION);
+    expect(getWriteSchemaVersion('latest')).toBe(CURRENT_SCHEMA_VERSION);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { AuditEntry } from '@/types';
+import { auditChanges, historyFor, parseAudit } from '@/services/audit';
+import { task, request, data } from '../helpers/fixtures';
+
+const T1 = '2026-10-01T09:00:00.000Z';
+
+describe('auditChanges', () => {
+  it('records field-level before and after values for a modified task', () => {
+    const entries = auditChanges(
+      data(request([task()])),
+      data(request([task({ done: true, completedDetails: 'Shipped' })])),
+      { type: 'ui' },
+      undefined,
+      T1
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ timestamp: T1, actor: { type: 'ui' }, requestId: 'req-1', taskId: 'task-1', change: 'modified' });
+    expect(entries[0].fields).toEqual(expect.arrayContaining([
+      { field: 'done', from: false, to: true },
+      { field: 'completedDetails', from: '', to: 'Shipped' }
+    ]));
+    expect(entries[0]).not.toHaveProperty('operation');
+  });
+
+  it('lists every field of created and deleted records', () => {
+    const created = auditChanges(data(), data(request([task()])), { type: 'api' }, 'Import');
+
+    expect(created.map(entry => [entry.taskId, entry.change])).toEqual([[undefined, 'added'], ['task-1', 'added']]);
+    expect(created[0].fields.map(field => field.field)).toContain('originalRequest');
+    expect(created[1].fields).toContainEqual({ field: 'title', from: undefined, to: 'Task' });
+    expect(created.every(entry => entry.operation === 'Import')).toBe(true);
+
+    const deleted = auditChanges(data(request([task()])), data(request([])), { type: 'api' });
+    expect(deleted).toHaveLength(1);
+    expect(deleted[0]).toMatchObject({ taskId: 'task-1', change: 'removed' });
+    expect(deleted[0].fields).toContainEqual({ field: 'title', from: 'Task', to: undefined });
+  });
+
+  it('ignores updatedAt-only changes', () => {
+    const entries = auditChanges(data(request([task()])), data(request([task({ updatedAt: T1 })], { updatedAt: T1 })), { type: 'api' });
+    expect(entries).toEqual([]);
+  });
+});
+
+describe('historyFor', () => {
+  const entries = [
+    { id: '1', requestId: 'req-1' },
+    { id: '2', requestId: 'req-1', taskId: 'task-1' },
+    { id: '3', requestId: 'req-2' },
+    { id: '4', requestId: 'req-1', taskId: 'task-2' }
+  ] as AuditEntry[];
+
+  it('returns a request and its tasks newest first', () => {
+    expect(historyFor(entries, 'req-1').map(entry => entry.id)).toEqual(['4', '2', '1']);
+  });
+
+  it('narrows to a single task', () => {
+    expect(historyFor(entries, 'req-1', 'task-1').map(entry => entry.id)).toEqual(['2']);
+  });
+
+  it('treats an unreadable log as empty', () => {
+    expect(parseAudit('not json')).toEqual([]);
+    expect(parseAudit(null)).toEqual([]);
+  });
+});
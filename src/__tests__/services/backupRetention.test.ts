@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_RETENTION_POLICY, getRetentionPolicy, parseBackupTimestamp, selectBackupsToPrune, RetainedBackup } from '@/services/backupRetention';
+import { BackupType, RetentionPolicy } from '@/types';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+
+/** A backup named the way storeBackup names it, taken `ageMs` before NOW */
+function backupAt(ageMs: number, type: BackupType = 'auto'): RetainedBackup {
+  const timestamp = new Date(NOW - ageMs).toISOString().replace(/[:.]/g, '-');
+  const prefix = type === 'auto' ? 'tasks' : `tasks-${type}`;
+  return { name: `${prefix}-${timestamp}.json`, type, timestamp };
+}
+
+const noFloor: RetentionPolicy = { ...DEFAULT_RETENTION_POLICY, minimum: 0 };
+
+describe('backup retention', () => {
+  it('parses the timestamp in a backup name', () => {
+    expect(parseBackupTimestamp('2026-10-19T11-59-30-123Z')).toBe(Date.parse('2026-10-19T11:59:30.123Z'));
+    expect(parseBackupTimestamp('not-a-date')).toBeNaN();
+  });
+
+  it('keeps every backup from the last hour, even a burst', () => {
+    // 200 saves a second apart, e.g. a bulk delete
+    const burst = Array.from({ length: 200 }, (_, i) => backupAt(i * 1000));
+
+    expect(selectBackupsToPrune(burst, noFloor, NOW)).toEqual([]);
+  });
+
+  it('thins backups to one per hour for a day and one per day after that', () => {
+    // A backup every 10 minutes for three days
+    const timeline = Array.from({ length: 3 * 24 * 6 }, (_, i) => backupAt(i * 10 * 60 * 1000));
+
+    const pruned = new Set(selectBackupsToPrune(timeline, noFloor, NOW));
+    const kept = timeline.filter(backup => !pruned.has(backup.name));
+    const ages = kept.map(backup => NOW - parseBackupTimestamp(backup.timestamp));
+
+    expect(ages.filter(age => age <= HOUR)).toHaveLength(7);
+    // Hour windows are aligned to the clock, so the last day spans 24 or 25 of them
+    expect(ages.filter(age => age > HOUR && age <= 24 * HOUR).length).toBeGreaterThanOrEqual(23);
+    expect(ages.filter(age => age > HOUR && age <= 24 * HOUR).length).toBeLessThanOrEqual(25);
+    expect(ages.filter(age => age > 24 * HOUR).length).toBeLessThanOrEqual(3);
+  });
+
+  it('keeps the same survivor of a window as newer backups arrive', () => {
+    const timeline = Array.from({ length: 12 }, (_, i) => backupAt(30 * HOUR + i * 5 * 60 * 1000));
+    const first = new Set(selectBackupsToPrune(timeline, noFloor, NOW));
+    const later = new Set(selectBackupsToPrune([...timeline, backupAt(0)], noFloor, NOW + 10 * 60 * 1000));
+
+    const survivors = (pruned: Set<string>) => timeline.filter(backup => !pruned.has(backup.name)).map(backup => backup.name);
+    expect(survivors(later)).toEqual(survivors(first));
+  });
+
+  it('drops backups older than the retention period but keeps the minimum', () => {
+    const old = Array.from({ length: 15 }, (_, i) => backupAt((40 + i) * 24 * HOUR));
+
+    expect(selectBackupsToPrune(old, noFloor, NOW)).toHaveLength(15);
+    const pruned = selectBackupsToPrune(old, DEFAULT_RETENTION_POLICY, NOW);
+    expect(pruned).toEqual(old.slice(10).map(backup => backup.name));
+  });
+
+  it('never prunes manual backups', () => {
+    const manual = backupAt(400 * 24 * HOUR, 'manual');
+    const safety = backupAt(400 * 24 * HOUR + 1000, 'safety');
+
+    expect(selectBackupsToPrune([manual, safety], noFloor, NOW)).toEqual([safety.name]);
+  });
+
+  it('reads a policy from the environment and falls back on invalid input', () => {
+    const custom = { minimum: 3, tiers: [{ maxAgeHours: 2, everyHours: 0 }] };
+    expect(getRetentionPolicy(JSON.stringify(custom))).toEqual(custom);
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(getRetentionPolicy('{"minimum": -1}')).toBe(DEFAULT_RETENTION_POLICY);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyCompletionPolicy, completionStatus, getCompletionPolicy } from '@/services/completion';
+import { task, request, data } from '../helpers/fixtures';
+
+describe('getCompletionPolicy', () => {
+  it('is manual unless configured', () => {
+    expect(getCompletionPolicy(undefined)).toBe('manual');
+    expect(getCompletionPolicy('allApproved')).toBe('allApproved');
+  });
+
+  it('falls back to manual for an unknown policy', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(getCompletionPolicy('whenever')).toBe('manual');
+    vi.restoreAllMocks();
+  });
+});
+
+describe('applyCompletionPolicy', () => {
+  it('derives completion of changed requests from their tasks', () => {
+    const before = data(request([task(), task({ id: 'task-2', done: true })]));
+    const after = data(request([task({ done: true }), task({ id: 'task-2', done: true })]));
+
+    applyCompletionPolicy(before, after, 'allDone');
+    expect(after.requests[0].completed).toBe(true);
+
+    const reopened = structuredClone(after);
+    reopened.requests[0].tasks[0].done = false;
+    applyCompletionPolicy(after, reopened, 'allDone');
+    expect(reopened.requests[0].completed).toBe(false);
+  });
+
+  it('lets a request override the global policy', () => {
+    const after = data(request([task({ done: true })], { completionPolicy: 'allApproved' }));
+    applyCompletionPolicy(data(), after, 'allDone');
+    expect(after.requests[0].completed).toBe(false);
+
+    const manual = data(request([task({ done: true })], { completionPolicy: 'manual', completed: false }));
+    applyCompletionPolicy(data(), manual, 'allDone');
+    expect(manual.requests[0].completed).toBe(false);
+  });
+
+  it('leaves untouched requests and requests without tasks incomplete', () => {
+    const drifted = request([task()], { completed: true });
+    const after = data(drifted, request([], { requestId: 'req-2', completed: true, originalRequest: 'Changed' }));
+    applyCompletionPolicy(data(drifted, request([], { requestId: 'req-2' })), after, 'allDone');
+
+    expect(after.requests[0].completed).toBe(true);
+    expect(after.requests[1].completed).toBe(false);
+  });
+});
+
+describe('completionStatus', () => {
+  it('explains why a request is or isn\'t complete', () => {
+    const tasks = [task({ done: true, approved: true }), task({ id: 'task-2', done: true })];
+
+    expect(completionStatus(request(tasks), 'allDone')).toEqual({ policy: 'allDone', inherited: true, managed: true, reason: 'All 2 tasks done' });
+    expect(completionStatus(request(tasks, { completionPolicy: 'allApproved' }), 'manual'))
+      .toEqual({ policy: 'allApproved', inherited: false, managed: true, reason: '1 of 2 tasks approved' });
+    expect(completionStatus(request([]), 'allDone').reason).toBe('No tasks yet');
+    expect(completionStatus(request(tasks), 'manual').managed).toBe(false);
+  });
+});
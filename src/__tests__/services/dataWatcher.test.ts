@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots, snapshot } from '@/services/dataWatcher';
+import { TasksData } from '@/types';
+
+const task = (id: string, title = `Task ${id}`) => ({
+  id,
+  title,
+  description: '',
+  done: false,
+  approved: false,
+  completedDetails: ''
+});
+
+const base: TasksData = {
+  requests: [
+    { requestId: 'req-1', originalRequest: 'One', splitDetails: '', completed: false, tasks: [task('a'), task('b')] },
+    { requestId: 'req-2', originalRequest: 'Two', splitDetails: '', completed: false, tasks: [task('c')] }
+  ]
+};
+
+describe('diffSnapshots', () => {
+  it('reports nothing for identical data', () => {
+    expect(diffSnapshots(snapshot(base), snapshot(structuredClone(base)))).toEqual([]);
+  });
+
+  it('reports modified, added and removed tasks within a request', () => {
+    const next = structuredClone(base);
+    next.requests[0].tasks = [task('a', 'Renamed'), task('d')];
+
+    expect(diffSnapshots(snapshot(base), snapshot(next))).toEqual([
+      { requestId: 'req-1', change: 'modified', taskIds: ['a', 'd', 'b'] }
+    ]);
+  });
+
+  it('reports added and removed requests', () => {
+    const next = structuredClone(base);
+    next.requests = [
+      next.requests[0],
+      { requestId: 'req-3', originalRequest: 'Three', splitDetails: '', completed: false, tasks: [task('e')] }
+    ];
+
+    expect(diffSnapshots(snapshot(base), snapshot(next))).toEqual([
+      { requestId: 'req-3', change: 'added', taskIds: ['e'] },
+      { requestId: 'req-2', change: 'removed', taskIds: ['c'] }
+    ]);
+  });
+});
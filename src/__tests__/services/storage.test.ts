@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { StorageAdapter, TasksData } from '@/types';
+import { JsonFileStorage, MemoryStorage, SqliteStorage, getStorageBackend } from '@/services/storage';
+import { TasksDataService } from '@/services/tasksDataService';
+
+const seed: TasksData = {
+  requests: [
+    {
+      requestId: 'req-1',
+      originalRequest: 'Storage test request',
+      splitDetails: 'Split details',
+      completed: false,
+      tasks: [
+        { id: 'task-1', title: 'First', description: 'First task', done: false, approved: false, completedDetails: '' },
+        { id: 'task-2', title: 'Second', description: 'Second task', done: true, approved: false, completedDetails: 'Done' }
+      ]
+    }
+  ]
+};
+
+const backends: [string, (dir: string) => StorageAdapter][] = [
+  ['json', dir => new JsonFileStorage(dir)],
+  ['memory', () => new MemoryStorage()],
+  ['sqlite', dir => new SqliteStorage(path.join(dir, 'tasks.db'))]
+];
+
+describe.each(backends)('%s storage adapter', (_name, createAdapter) => {
+  let dir: string;
+  let storage: StorageAdapter;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'task-storage-'));
+    storage = createAdapter(dir);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  it('round-trips the document and its checksum exactly', async () => {
+    expect(await storage.exists()).toBe(false);
+
+    const content = JSON.stringify(seed, null, 2);
+    await storage.write(content, 'checksum-1');
+
+    expect(await storage.exists()).toBe(true);
+    expect(await storage.read()).toBe(content);
+    expect(await storage.readChecksum()).toBe('checksum-1');
+  });
+
+  it('reflects reordered, edited and removed records', async () => {
+    await storage.write(JSON.stringify(seed, null, 2), 'checksum-1');
+
+    const next = structuredClone(seed);
+    next.requests[0].tasks.reverse();
+    next.requests[0].tasks[0].title = 'Second (edited)';
+    next.requests.push({ ...structuredClone(seed.requests[0]), requestId: 'req-2', tasks: [] });
+    const content = JSON.stringify(next, null, 2);
+    await storage.write(content, 'checksum-2');
+    expect(await storage.read()).toBe(content);
+
+    next.requests.shift();
+    const trimmed = JSON.stringify(next, null, 2);
+    await storage.write(trimmed, 'checksum-3');
+    expect(await storage.read()).toBe(trimmed);
+  });
+
+  it('stores, lists and deletes backups', async () => {
+    await storage.writeBackup('tasks-2024-01-01.json', '{"a":1}');
+    await storage.writeBackup('tasks-2024-01-02.json', '{"b":2}');
+
+    expect((await storage.listBackups()).sort()).toEqual(['tasks-2024-01-01.json', 'tasks-2024-01-02.json']);
+    expect(await storage.readBackup('tasks-2024-01-02.json')).toBe('{"b":2}');
+
+    await storage.deleteBackup('tasks-2024-01-01.json');
+    expect(await storage.listBackups()).toEqual(['tasks-2024-01-02.json']);
+  });
+
+  it('keeps sidecar documents apart from the tasks document', async () => {
+    expect(await storage.readDocument('journal')).toBeNull();
+
+    await storage.writeDocument('journal', '{"entries":[]}');
+    await storage.writeDocument('journal', '{"entries":[1]}');
+
+    expect(await storage.readDocument('journal')).toBe('{"entries":[1]}');
+    expect(await storage.exists()).toBe(false);
+  });
+
+  it('holds the lock until it is released', async () => {
+    await storage.acquireLock();
+
+    let acquired = false;
+    const waiting = storage.acquireLock().then(() => {
+      acquired = true;
+    });
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(acquired).toBe(false);
+
+    await storage.releaseLock();
+    await waiting;
+    expect(acquired).toBe(true);
+    await storage.releaseLock();
+  });
+
+  it('backs the service CRUD API with the same results', async () => {
+    await storage.write(JSON.stringify(seed, null, 2), 'seed');
+    const service = TasksDataService.withStorage(storage);
+
+    const task = await service.createTask('req-1', {
+      title: 'Third',
+      description: 'Created through the service',
+      done: false,
+      approved: false,
+      completedDetails: ''
+    });
+    expect(task.id).toBe('task-3');
+
+    await service.updateTask('req-1', 'task-1', { done: true, completedDetails: 'Finished' });
+    await service.deleteTask('req-1', 'task-2');
+
+    const request = await service.getRequest('req-1');
+    expect(request?.tasks.map(t => t.id)).toEqual(['task-1', 'task-3']);
+    expect(request?.tasks[0]).toMatchObject({ done: true, completedDetails: 'Finished' });
+    expect(await service.verifyDataIntegrity()).toBe(true);
+    expect((await service.getBackupStatus()).totalBackups).toBeGreaterThan(0);
+  });
+});
+
+describe('getStorageBackend', () => {
+  it('defaults to the JSON file backend', () => {
+    expect(getStorageBackend(undefined)).toBe('json');
+    expect(getStorageBackend('SQLite')).toBe('sqlite');
+  });
+
+  it('rejects unknown backends', () => {
+    expect(() => getStorageBackend('postgres')).toThrow(/Unknown TASKS_STORAGE backend/);
+  });
+});
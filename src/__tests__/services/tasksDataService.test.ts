@@ -136,7 +136,8 @@ describe('TasksDataService Integration Tests', () => {
       
       expect(mockFs.pathExists).toHaveBeenCalledWith(testTasksPath);
       expect(mockFs.readFile).toHaveBeenCalledWith(testTasksPath, 'utf-8');
-      expect(result).toEqual(testData);
+      // Unversioned files are migrated to the current schema on load
+      expect(result).toEqual({ schemaVersion: 1, ...testData });
     });
 
     it('should create initial file when tasks.json does not exist', async () => {
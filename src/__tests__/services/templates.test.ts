@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fillPlaceholders, findPlaceholders, parseTemplates, requestFromTemplate } from '@/services/templates';
+import { RequestTemplate } from '@/types';
+
+const template: RequestTemplate = {
+  id: 'tpl-1',
+  name: 'API route',
+  originalRequest: 'Add the {{resource}} API',
+  splitDetails: 'Route, schema, tests and docs for {{ resource }}',
+  tasks: [
+    { title: 'Add {{resource}} route', description: 'GET and POST under /api/{{path}}' },
+    { title: 'Write tests', description: 'Cover {{resource}}' }
+  ],
+  placeholders: ['resource', 'path'],
+  createdAt: '2026-10-19T00:00:00.000Z'
+};
+
+describe('templates', () => {
+  it('finds each placeholder once, in order of first use', () => {
+    expect(findPlaceholders(template)).toEqual(['resource', 'path']);
+    expect(findPlaceholders({ originalRequest: 'Plain', splitDetails: '', tasks: [] })).toEqual([]);
+  });
+
+  it('fills known placeholders and leaves unknown ones alone', () => {
+    expect(fillPlaceholders('{{a}} and {{ b }} but not {{c}}', { a: '1', b: '2' })).toBe('1 and 2 but not {{c}}');
+  });
+
+  it('builds a request with fresh, not started tasks', () => {
+    const request = requestFromTemplate(template, { resource: 'invoices', path: 'invoices' });
+
+    expect(request).toMatchObject({
+      originalRequest: 'Add the invoices API',
+      splitDetails: 'Route, schema, tests and docs for invoices',
+      completed: false
+    });
+    expect(request.tasks).toEqual([
+      { id: 'task-1', title: 'Add invoices route', description: 'GET and POST under /api/invoices', done: false, approved: false, completedDetails: '' },
+      { id: 'task-2', title: 'Write tests', description: 'Cover invoices', done: false, approved: false, completedDetails: '' }
+    ]);
+  });
+
+  it('treats an unreadable library as empty', () => {
+    expect(parseTemplates(null)).toEqual([]);
+    expect(parseTemplates('not json')).toEqual([]);
+    expect(parseTemplates(JSON.stringify({ templates: [template] }))).toEqual([template]);
+  });
+
+  it('skips stored entries that are not valid templates', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = [{ ...template, id: 'tpl-2', tasks: 'none' }, { name: 'No id' }, 'junk'];
+    expect(parseTemplates(JSON.stringify({ templates: [...broken, template] }))).toEqual([template]);
+    vi.restoreAllMocks();
+  });
+});
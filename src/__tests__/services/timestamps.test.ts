@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { lastActivity, stampChanges } from '@/services/timestamps';
+import { task, request, data } from '../helpers/fixtures';
+
+const T1 = '2026-10-01T09:00:00.000Z';
+const T2 = '2026-10-02T09:00:00.000Z';
+
+describe('stampChanges', () => {
+  it('stamps new requests and tasks', () => {
+    const after = data(request([task()]));
+    stampChanges(data(), after, T1);
+
+    expect(after.requests[0]).toMatchObject({ createdAt: T1, updatedAt: T1 });
+    expect(after.requests[0].tasks[0]).toMatchObject({ createdAt: T1, updatedAt: T1 });
+    expect(after.requests[0].tasks[0]).not.toHaveProperty('completedAt');
+  });
+
+  it('stamps done and approval transitions and clears them when reverted', () => {
+    const before = data(request([task({ createdAt: T1, updatedAt: T1 })], { createdAt: T1, updatedAt: T1 }));
+    const done = structuredClone(before);
+    done.requests[0].tasks[0].done = true;
+    done.requests[0].tasks[0].approved = true;
+    stampChanges(before, done, T2);
+
+    expect(done.requests[0].tasks[0]).toEqual(expect.objectContaining({ createdAt: T1, updatedAt: T2, completedAt: T2, approvedAt: T2 }));
+    expect(done.requests[0].updatedAt).toBe(T2);
+
+    const reopened = structuredClone(done);
+    reopened.requests[0].tasks[0].done = false;
+    stampChanges(done, reopened, '2026-10-03T09:00:00.000Z');
+    expect(reopened.requests[0].tasks[0]).not.toHaveProperty('completedAt');
+    expect(reopened.requests[0].tasks[0].approvedAt).toBe(T2);
+  });
+
+  it('leaves untouched records alone and does not invent creation times for legacy records', () => {
+    const before = data(request([task(), task({ id: 'task-2' })]), request([], { requestId: 'req-2' }));
+    const after = structuredClone(before);
+    after.requests[0].tasks[1].title = 'Renamed';
+    stampChanges(before, after, T2);
+
+    expect(after.requests[0].tasks[0]).toEqual(task());
+    expect(after.requests[0].tasks[1]).toEqual(task({ id: 'task-2', title: 'Renamed', updatedAt: T2 }));
+    expect(after.requests[0]).not.toHaveProperty('createdAt');
+    expect(after.requests[0].updatedAt).toBe(T2);
+    expect(after.requests[1]).toEqual(before.requests[1]);
+  });
+
+  it('stamps request completion', () => {
+    const before = data(request([]));
+    const after = structuredClone(before);
+    after.requests[0].completed = true;
+    stampChanges(before, after, T2);
+
+    expect(after.requests[0].completedAt).toBe(T2);
+  });
+});
+
+describe('lastActivity', () => {
+  it('returns the latest stamp, or nothing for legacy records', () => {
+    expect(lastActivity(task({ createdAt: T1, completedAt: T2 }))).toBe(T2);
+    expect(lastActivity(task())).toBeUndefined();
+  });
+});
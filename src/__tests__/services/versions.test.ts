@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { Request } from '@/types';
+import { createRequestVersion, createTaskVersion, pruneVersions, requestFields, versionsFor } from '@/services/versions';
+import { task, request } from '../helpers/fixtures';
+
+describe('versions', () => {
+  it('keeps a request version without its tasks', () => {
+    const version = createRequestVersion(request([task()], { custom: 'kept' } as Partial<Request>), { type: 'ui' });
+
+    expect(version).toMatchObject({ type: 'request', requestId: 'req-1', actor: { type: 'ui' } });
+    expect(version.record).toEqual({ requestId: 'req-1', originalRequest: 'Request', splitDetails: '', completed: false, custom: 'kept' });
+    expect(requestFields(request([task()]))).not.toHaveProperty('tasks');
+  });
+
+  it('lists request and task versions separately, newest first', () => {
+    const versions = [
+      createRequestVersion(request([task()], { originalRequest: 'First' })),
+      createTaskVersion('req-1', task({ title: 'First' })),
+      createRequestVersion(request([task()], { originalRequest: 'Second' })),
+      createTaskVersion('req-1', task({ id: 'task-2' })),
+      createRequestVersion(request([task()], { requestId: 'req-2' }))
+    ];
+
+    expect(versionsFor(versions, 'req-1')).toEqual([versions[2], versions[0]]);
+    expect(versionsFor(versions, 'req-1', 'task-1')).toEqual([versions[1]]);
+  });
+
+  it('prunes the oldest versions of each record on its own', () => {
+    const versions = [
+      createTaskVersion('req-1', task({ title: 'One' })),
+      createRequestVersion(request([task()])),
+      createTaskVersion('req-1', task({ title: 'Two' })),
+      createTaskVersion('req-1', task({ title: 'Three' }))
+    ];
+
+    const kept = pruneVersions(versions, 2);
+    expect(kept).toEqual([versions[1], versions[2], versions[3]]);
+  });
+});
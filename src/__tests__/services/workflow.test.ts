@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ApiError } from '@/types';
+import { DEFAULT_WORKFLOW_RULES, enforceWorkflow, getWorkflowRules } from '@/services/workflow';
+import { task } from '../helpers/fixtures';
+
+describe('getWorkflowRules', () => {
+  it('uses the defaults when nothing is configured', () => {
+    expect(getWorkflowRules(undefined)).toEqual(DEFAULT_WORKFLOW_RULES);
+  });
+
+  it('switches individual rules with JSON', () => {
+    expect(getWorkflowRules('{"doneRequiresDetails": true, "approveRequiresDone": false}')).toEqual({
+      approveRequiresDone: false,
+      undoneClearsApproval: true,
+      doneRequiresDetails: true
+    });
+  });
+
+  it('falls back to the defaults for invalid configuration', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(getWorkflowRules('{"approveRequiresDone": "yes"}')).toEqual(DEFAULT_WORKFLOW_RULES);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('enforceWorkflow', () => {
+  it('rejects approving a task that is not done', () => {
+    expect(() => enforceWorkflow(task(), task({ approved: true }), DEFAULT_WORKFLOW_RULES)).toThrow(ApiError);
+
+    const error = (() => {
+      try {
+        enforceWorkflow(undefined, task({ approved: true }), DEFAULT_WORKFLOW_RULES);
+      } catch (e) {
+        return e as ApiError;
+      }
+    })();
+    expect(error?.status).toBe(422);
+    expect(error?.validation).toEqual([{ field: 'approved', message: 'A task must be done before it can be approved' }]);
+  });
+
+  it('withdraws approval when an approved task is reopened', () => {
+    const after = task({ approved: true });
+    enforceWorkflow(task({ done: true, approved: true }), after, DEFAULT_WORKFLOW_RULES);
+    expect(after.approved).toBe(false);
+  });
+
+  it('requires completed details before done only when that rule is on', () => {
+    const rules = { ...DEFAULT_WORKFLOW_RULES, doneRequiresDetails: true };
+    expect(() => enforceWorkflow(task(), task({ done: true }), DEFAULT_WORKFLOW_RULES)).not.toThrow();
+    expect(() => enforceWorkflow(task(), task({ done: true }), rules)).toThrow(/completed details/);
+    expect(() => enforceWorkflow(task(), task({ done: true, completedDetails: 'Shipped' }), rules)).not.toThrow();
+  });
+
+  it('lets contradictory legacy tasks be edited as long as the flags do not change', () => {
+    const legacy = task({ approved: true });
+    expect(() => enforceWorkflow(legacy, { ...legacy, title: 'Renamed' }, DEFAULT_WORKFLOW_RULES)).not.toThrow();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { diffTasksData } from '@/utils/diff';
+import { Request, Task, TasksData } from '@/types';
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return { id, title: `Task ${id}`, description: '', done: false, approved: false, completedDetails: '', ...overrides };
+}
+
+function request(requestId: string, tasks: Task[], overrides: Partial<Request> = {}): Request {
+  return { requestId, originalRequest: `Request ${requestId}`, splitDetails: '', completed: false, tasks, ...overrides };
+}
+
+describe('diffTasksData', () => {
+  it('reports nothing for identical data', () => {
+    const data: TasksData = { requests: [request('req-1', [task('task-1')])] };
+
+    const diff = diffTasksData(data, structuredClone(data));
+
+    expect(diff.requests).toEqual([]);
+    expect(diff.summary).toEqual({ requestsAdded: 0, requestsRemoved: 0, requestsModified: 0, tasksAdded: 0, tasksRemoved: 0, tasksModified: 0 });
+  });
+
+  it('reports field-level changes on modified requests and tasks', () => {
+    const from: TasksData = { requests: [request('req-1', [task('task-1'), task('task-2')])] };
+    const to: TasksData = {
+      requests: [request('req-1', [task('task-1', { done: true, completedDetails: 'Shipped' }), task('task-2')], { completed: true })]
+    };
+
+    const diff = diffTasksData(from, to);
+
+    expect(diff.requests).toHaveLength(1);
+    expect(diff.requests[0]).toMatchObject({ requestId: 'req-1', change: 'modified', fields: [{ field: 'completed', from: false, to: true }] });
+    expect(diff.requests[0].tasks).toEqual([
+      {
+        taskId: 'task-1',
+        change: 'modified',
+        title: 'Task task-1',
+        fields: [
+          { field: 'done', from: false, to: true },
+          { field: 'completedDetails', from: '', to: 'Shipped' }
+        ]
+      }
+    ]);
+    expect(diff.summary.tasksModified).toBe(1);
+  });
+
+  it('reports added and removed records, counting tasks of whole requests', () => {
+    const from: TasksData = { requests: [request('req-1', [task('task-1')]), request('req-2', [task('task-a'), task('task-b')])] };
+    const to: TasksData = { requests: [request('req-1', [task('task-2')]), request('req-3', [task('task-c')])] };
+
+    const diff = diffTasksData(from, to);
+
+    expect(diff.requests.map(r => [r.requestId, r.change])).toEqual([
+      ['req-1', 'modified'],
+      ['req-3', 'added'],
+      ['req-2', 'removed']
+    ]);
+    expect(diff.requests[0].tasks.map(t => [t.taskId, t.change])).toEqual([['task-2', 'added'], ['task-1', 'removed']]);
+    expect(diff.summary).toEqual({ requestsAdded: 1, requestsRemoved: 1, requestsModified: 1, tasksAdded: 2, tasksRemoved: 3, tasksModified: 0 });
+  });
+
+  it('reports a reorder of surviving tasks as a taskOrder change', () => {
+    const from: TasksData = { requests: [request('req-1', [task('task-1'), task('task-2'), task('task-3')])] };
+    const reordered: TasksData = { requests: [request('req-1', [task('task-3'), task('task-1'), task('task-2')])] };
+    const appended: TasksData = { requests: [request('req-1', [task('task-1'), task('task-3'), task('task-4')])] };
+
+    expect(diffTasksData(from, reordered).requests[0].fields).toEqual([
+      { field: 'taskOrder', from: ['task-1', 'task-2', 'task-3'], to: ['task-3', 'task-1', 'task-2'] }
+    ]);
+    expect(diffTasksData(from, appended).requests[0].fields).toEqual([]);
+  });
+});
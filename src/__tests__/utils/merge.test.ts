@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { threeWayMerge } from '@/utils/merge';
+
+describe('threeWayMerge', () => {
+  const base = { title: 'Base', description: 'Base description', done: false };
+  const fields = ['title', 'description', 'done'] as const;
+
+  it('takes changes made on only one side', () => {
+    const mine = { ...base, title: 'Mine' };
+    const theirs = { ...base, done: true };
+
+    const result = threeWayMerge(base, mine, theirs, [...fields]);
+
+    expect(result.merged).toEqual({ title: 'Mine', description: 'Base description', done: true });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('reports fields changed differently on both sides and defaults to mine', () => {
+    const mine = { ...base, description: 'Mine' };
+    const theirs = { ...base, description: 'Theirs' };
+
+    const result = threeWayMerge(base, mine, theirs, [...fields]);
+
+    expect(result.conflicts).toEqual(['description']);
+    expect(result.merged.description).toBe('Mine');
+  });
+
+  it('does not treat identical edits as a conflict', () => {
+    const mine = { ...base, done: true };
+    const theirs = { ...base, done: true };
+
+    expect(threeWayMerge(base, mine, theirs, [...fields]).conflicts).toEqual([]);
+  });
+});
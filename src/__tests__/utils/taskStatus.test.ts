@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { applyStatus, reconcileStatus, taskStatus } from '@/utils/taskStatus';
+import { task } from '../helpers/fixtures';
+
+describe('taskStatus', () => {
+  it('derives a status from the flags of tasks without one', () => {
+    expect(taskStatus(task())).toBe('pending');
+    expect(taskStatus(task({ done: true }))).toBe('needs-review');
+    expect(taskStatus(task({ done: true, approved: true }))).toBe('approved');
+  });
+
+  it('uses the stored status while it matches the flags', () => {
+    expect(taskStatus(task({ status: 'blocked' }))).toBe('blocked');
+    // The MCP server marked the task done without knowing about statuses
+    expect(taskStatus(task({ status: 'in-progress', done: true }))).toBe('needs-review');
+  });
+});
+
+describe('applyStatus', () => {
+  it('sets the flags from a new status', () => {
+    const after = task({ status: 'approved' });
+    applyStatus(task(), after);
+    expect(after).toMatchObject({ done: true, approved: true });
+
+    const rejected = task({ done: true, status: 'rejected' });
+    applyStatus(task({ done: true }), rejected);
+    expect(rejected).toMatchObject({ done: false, approved: false });
+  });
+
+  it('keeps the blocked reason only while blocked', () => {
+    const blocked = task({ status: 'blocked', blockedReason: 'Waiting for access' });
+    applyStatus(task(), blocked);
+    expect(blocked.blockedReason).toBe('Waiting for access');
+
+    const unblocked = { ...blocked, status: 'in-progress' as const };
+    applyStatus(blocked, unblocked);
+    expect(unblocked).not.toHaveProperty('blockedReason');
+  });
+});
+
+describe('reconcileStatus', () => {
+  it('moves a stale status to match the flags and leaves tasks without one alone', () => {
+    const stale = task({ status: 'blocked', done: true });
+    reconcileStatus(stale);
+    expect(stale.status).toBe('needs-review');
+
+    const legacy = task({ done: true });
+    reconcileStatus(legacy);
+    expect(legacy).not.toHaveProperty('status');
+
+    const foreign = task({ done: true, status: 'in_progress' });
+    reconcileStatus(foreign);
+    expect(foreign.status).toBe('in_progress');
+    expect(taskStatus(foreign)).toBe('needs-review');
+  });
+});
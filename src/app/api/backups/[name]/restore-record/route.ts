@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { RestoreRecordSchema } from '@/schemas/validation';
+
+/**
+ * POST /api/backups/[name]/restore-record - Restore one request or task from a backup into the live data
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { name } = await extractParams(params);
+
+    if (!name) {
+      return createErrorResponse('Backup name is required', 400);
+    }
+
+    const body = await extractRequestBody<{ requestId: string; taskId?: string }>(request);
+    const { requestId, taskId } = RestoreRecordSchema.parse(body);
+
+    const result = await dataService.restoreRecord(name, requestId, taskId, { actor: getActor(request) });
+    const record = taskId ? `Task ${taskId}` : `Request ${requestId}`;
+    return createSuccessResponse(result, `${record} ${result.action} from ${name}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * POST /api/backups/[name]/restore - Restore a backup, taking a safety backup of the current data first
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { name } = await extractParams(params);
+
+    if (!name) {
+      return createErrorResponse('Backup name is required', 400);
+    }
+
+    const result = await dataService.restoreBackup(name, { actor: getActor(request) });
+    return createSuccessResponse(result, `Restored ${name}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
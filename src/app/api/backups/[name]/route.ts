@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * GET /api/backups/[name] - Preview a backup's metadata and contents
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { name } = await extractParams(params);
+
+    if (!name) {
+      return createErrorResponse('Backup name is required', 400);
+    }
+
+    const backup = await dataService.getBackup(name);
+    return createSuccessResponse(backup);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
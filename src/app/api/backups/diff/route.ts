@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { diffTasksData } from '@/utils/diff';
+import { LIVE_SNAPSHOT } from '@/constants';
+
+/**
+ * GET /api/backups/diff?from=&to= - Structural diff between two backups, or a backup and the live data.
+ * `to` defaults to the live data; either side may be "live".
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to') || LIVE_SNAPSHOT;
+
+    if (!from) {
+      return createErrorResponse('The "from" backup is required', 400);
+    }
+
+    const [fromData, toData] = await Promise.all([
+      dataService.getSnapshot(from),
+      dataService.getSnapshot(to)
+    ]);
+
+    return createSuccessResponse({ from, to, diff: diffTasksData(fromData, toData) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import path from 'path';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { CreateBackupSchema } from '@/schemas/validation';
+
+/**
+ * GET /api/backups - List backups with metadata and checksum validity
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const [backups, status] = await Promise.all([
+      dataService.listBackups(),
+      dataService.getBackupStatus()
+    ]);
+
+    return createSuccessResponse({ backups, status });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/backups - Create a manual backup with an optional label
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const body = await extractRequestBody<{ label?: string }>(request);
+    const { label } = CreateBackupSchema.parse(body);
+
+    const location = await dataService.createManualBackup(label || undefined);
+    if (!location) {
+      return createErrorResponse('Failed to create backup', 500);
+    }
+
+    const backup = await dataService.getBackup(path.basename(location));
+    return createSuccessResponse(backup, 'Backup created successfully');
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
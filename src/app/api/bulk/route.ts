@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, extractRequestBody, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { BulkSchema } from '@/schemas/validation';
+
+/**
+ * POST /api/bulk - Run a batch of request and task operations in one
+ * transaction (one lock, one backup, one undo step), with a result per operation
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const body = await extractRequestBody<{ operations: unknown[] }>(request);
+    const { operations } = BulkSchema.parse(body);
+
+    const result = await dataService.runBulk(operations, { actor: getActor(request) });
+    return createSuccessResponse(result, `${result.succeeded} of ${result.results.length} operations applied`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
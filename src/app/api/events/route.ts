@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { TasksFileWatcher } from '@/services/dataWatcher';
+import { getWorkspaceService } from '@/services/workspaces';
+import { getWorkspaceName, handleApiError } from '@/utils/api';
+import { DEFAULT_VALUES } from '@/constants';
+import { DataChangeEvent } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/events - Server-Sent Events stream of changes to the selected workspace
+ */
+export async function GET(request: NextRequest) {
+  let watcher: TasksFileWatcher;
+  try {
+    watcher = TasksFileWatcher.getInstance(await getWorkspaceService(getWorkspaceName(request)));
+  } catch (error) {
+    return handleApiError(error);
+  }
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = watcher.subscribe((event: DataChangeEvent) => {
+        send(`event: change\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => send(': ping\n\n'), DEFAULT_VALUES.EVENT_HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = () => {};
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(`event: ready\ndata: ${JSON.stringify({ timestamp: new Date().toISOString() })}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, extractRequestBody, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { UndoSchema } from '@/schemas/validation';
+
+/**
+ * POST /api/redo - Re-apply the most recently undone mutation, or the last `steps` of them
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const body = request.headers.get('content-type')?.includes('application/json')
+      ? await extractRequestBody<{ steps?: number }>(request)
+      : {};
+    const { steps } = UndoSchema.parse(body);
+
+    const result = await dataService.redo(steps, { actor: getActor(request) });
+    return createSuccessResponse(result, `Redone: ${result.applied.join(', ')}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * POST /api/requests/[id]/duplicate - Copy a request as a new one, with its
+ * tasks under fresh ids and not yet done
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id: requestId } = await extractParams(params);
+
+    if (!requestId) {
+      return createErrorResponse('Request ID is required', 400);
+    }
+
+    const created = await dataService.duplicateRequest(requestId, { actor: getActor(request) });
+    return createSuccessResponse(created, `Duplicated ${requestId} as ${created.requestId}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
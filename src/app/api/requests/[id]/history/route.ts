@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * GET /api/requests/[id]/history - Audit trail of a request and its tasks, newest first.
+ * `?taskId=` narrows it to one task. History outlives the records, so deleted
+ * requests and tasks can still be looked up.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id } = await extractParams(params);
+
+    if (!id) {
+      return createErrorResponse('Request ID is required', 400);
+    }
+
+    const taskId = request.nextUrl.searchParams.get('taskId') || undefined;
+    const entries = await dataService.getHistory(id, taskId);
+    if (entries.length === 0 && !await dataService.getRequest(id)) {
+      return createErrorResponse('Request not found', 404);
+    }
+
+    return createSuccessResponse(entries);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
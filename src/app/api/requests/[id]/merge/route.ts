@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, extractIfMatch, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { RequestMergeSchema } from '@/schemas/validation';
+import { RequestMerge } from '@/types';
+
+/**
+ * POST /api/requests/[id]/merge - Merge other requests (`requestIds`) into
+ * this one (If-Match against this request and `sourceEtags` against the
+ * merged ones supported, 412 when stale)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id: requestId } = await extractParams(params);
+
+    if (!requestId) {
+      return createErrorResponse('Request ID is required', 400);
+    }
+
+    const body = await extractRequestBody<RequestMerge>(request);
+    const merge = RequestMergeSchema.parse(body);
+
+    const result = await dataService.mergeRequests(requestId, merge, {
+      ifMatch: extractIfMatch(request),
+      actor: getActor(request)
+    });
+    return createSuccessResponse(result, `Merged ${merge.requestIds.join(', ')} into ${requestId}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { RevertSchema } from '@/schemas/validation';
+
+/**
+ * POST /api/requests/[id]/revert - Revert the request, or one of its tasks, to
+ * an earlier version. The version says which record it belongs to.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id } = await extractParams(params);
+
+    if (!id) {
+      return createErrorResponse('Request ID is required', 400);
+    }
+
+    const body = await extractRequestBody<{ versionId: string }>(request);
+    const { versionId } = RevertSchema.parse(body);
+
+    const result = await dataService.revertToVersion(id, versionId, { actor: getActor(request) });
+    const record = result.taskId ? `Task ${result.taskId}` : `Request ${id}`;
+    return createSuccessResponse(result, `${record} reverted`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
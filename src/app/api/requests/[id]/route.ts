@@ -1,10 +1,10 @@
 import { NextRequest } from 'next/server';
-import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody, extractParams } from '@/utils/api';
-import { TasksDataService } from '@/services/tasksDataService';
-import { RequestSchema } from '@/schemas/validation';
-import { RequestFormData, Task } from '@/types';
-
-const dataService = TasksDataService.getInstance();
+import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody, extractParams, extractIfMatch, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { computeEtag } from '@/utils/etag';
+import { CompletionPolicySchema, RequestSchema } from '@/schemas/validation';
+import { completionStatus } from '@/services/completion';
+import { Request, RequestFormData, Task } from '@/types';
 
 /**
  * GET /api/requests/[id] - Get a single request by ID
@@ -14,6 +14,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const { id } = await extractParams(params);
     
     if (!id) {
@@ -37,23 +38,25 @@ export async function GET(
       completedTasks,
       approvedTasks,
       completionPercentage: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
-      approvalPercentage: totalTasks > 0 ? Math.round((approvedTasks / totalTasks) * 100) : 0
+      approvalPercentage: totalTasks > 0 ? Math.round((approvedTasks / totalTasks) * 100) : 0,
+      completion: completionStatus(requestData, dataService.getCompletionPolicy())
     };
     
-    return createSuccessResponse(requestWithStats);
+    return createSuccessResponse(requestWithStats, undefined, { ETag: computeEtag(requestData) });
   } catch (error) {
     return handleApiError(error);
   }
 }
 
 /**
- * PUT /api/requests/[id] - Update a request
+ * PUT /api/requests/[id] - Update a request (If-Match supported, 412 when stale)
  */
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const { id } = await extractParams(params);
     
     if (!id) {
@@ -66,25 +69,40 @@ export async function PUT(
     const validatedData = RequestSchema.omit({ 
       requestId: true, 
       tasks: true 
+    }).extend({
+      completionPolicy: CompletionPolicySchema.nullable()
     }).partial().parse(body);
     
-    // Update the request
-    const updatedRequest = await dataService.updateRequest(id, validatedData);
+    // A null completion policy clears the request's own, so the global one applies
+    const { completionPolicy, ...fields } = validatedData;
+    const updates: Partial<Request> = {
+      ...fields,
+      ...(completionPolicy !== undefined && { completionPolicy: completionPolicy ?? undefined })
+    };
+    
+    // Update the request, honouring an optional If-Match version
+    const updatedRequest = await dataService.updateRequest(id, updates, {
+      ifMatch: extractIfMatch(request),
+      actor: getActor(request)
+    });
     
-    return createSuccessResponse(updatedRequest, 'Request updated successfully');
+    return createSuccessResponse(updatedRequest, 'Request updated successfully', {
+      ETag: computeEtag(updatedRequest)
+    });
   } catch (error) {
     return handleApiError(error);
   }
 }
 
 /**
- * DELETE /api/requests/[id] - Delete a request
+ * DELETE /api/requests/[id] - Delete a request (If-Match supported, 412 when stale)
  */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const { id } = await extractParams(params);
     
     if (!id) {
@@ -97,8 +115,8 @@ export async function DELETE(
       return createErrorResponse('Request not found', 404);
     }
     
-    // Delete the request
-    await dataService.deleteRequest(id);
+    // Delete the request, honouring an optional If-Match version
+    await dataService.deleteRequest(id, { ifMatch: extractIfMatch(request), actor: getActor(request) });
     
     return createSuccessResponse(
       { requestId: id }, 
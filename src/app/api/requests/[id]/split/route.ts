@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, extractIfMatch, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { RequestSplitSchema } from '@/schemas/validation';
+import { RequestSplit } from '@/types';
+
+/**
+ * POST /api/requests/[id]/split - Move some of a request's tasks into a new
+ * request (If-Match supported, 412 when stale)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id: requestId } = await extractParams(params);
+
+    if (!requestId) {
+      return createErrorResponse('Request ID is required', 400);
+    }
+
+    const body = await extractRequestBody<RequestSplit>(request);
+    const split = RequestSplitSchema.parse(body);
+
+    const result = await dataService.splitRequest(requestId, split, {
+      ifMatch: extractIfMatch(request),
+      actor: getActor(request)
+    });
+    return createSuccessResponse(result, `Split ${split.taskIds.length} tasks into ${result.request.requestId}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
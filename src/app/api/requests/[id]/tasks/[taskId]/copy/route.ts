@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { TaskTransferSchema } from '@/schemas/validation';
+
+/**
+ * POST /api/requests/[id]/tasks/[taskId]/copy - Copy a task into a request as a new task
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id: requestId, taskId } = await extractParams(params);
+
+    if (!requestId || !taskId) {
+      return createErrorResponse('Request ID and Task ID are required', 400);
+    }
+
+    const body = await extractRequestBody<{ toRequestId: string }>(request);
+    const { toRequestId } = TaskTransferSchema.parse(body);
+
+    const result = await dataService.copyTask(requestId, taskId, toRequestId, { actor: getActor(request) });
+    return createSuccessResponse(result, `Task copied to ${toRequestId} as ${result.task.id}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
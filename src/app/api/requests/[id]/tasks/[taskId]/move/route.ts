@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, extractIfMatch, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { TaskTransferSchema } from '@/schemas/validation';
+
+/**
+ * POST /api/requests/[id]/tasks/[taskId]/move - Move a task to another request,
+ * where it gets a new id (If-Match supported, 412 when stale)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id: requestId, taskId } = await extractParams(params);
+
+    if (!requestId || !taskId) {
+      return createErrorResponse('Request ID and Task ID are required', 400);
+    }
+
+    const body = await extractRequestBody<{ toRequestId: string; tombstone?: boolean }>(request);
+    const { toRequestId, tombstone } = TaskTransferSchema.parse(body);
+
+    const result = await dataService.moveTask(requestId, taskId, toRequestId, tombstone, {
+      ifMatch: extractIfMatch(request),
+      actor: getActor(request)
+    });
+    return createSuccessResponse(result, `Task moved to ${toRequestId} as ${result.task.id}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
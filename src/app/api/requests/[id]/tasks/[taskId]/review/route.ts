@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { ReviewSchema } from '@/schemas/validation';
+
+/**
+ * POST /api/requests/[id]/tasks/[taskId]/review - Approve a task awaiting
+ * review, or reject it with feedback, which reopens it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id: requestId, taskId } = await extractParams(params);
+
+    if (!requestId || !taskId) {
+      return createErrorResponse('Request ID and Task ID are required', 400);
+    }
+
+    const body = await extractRequestBody<{ decision: string; feedback?: string }>(request);
+    const review = ReviewSchema.parse(body);
+
+    const task = await dataService.reviewTask(requestId, taskId, review, { actor: getActor(request) });
+    return createSuccessResponse(task, review.decision === 'approve' ? `Task ${taskId} approved` : `Task ${taskId} rejected`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
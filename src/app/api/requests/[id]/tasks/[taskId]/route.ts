@@ -1,11 +1,10 @@
 import { NextRequest } from 'next/server';
-import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody, extractParams } from '@/utils/api';
-import { TasksDataService } from '@/services/tasksDataService';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody, extractParams, extractIfMatch, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { computeEtag } from '@/utils/etag';
 import { TaskSchema } from '@/schemas/validation';
 import { TaskFormData } from '@/types';
 
-const dataService = TasksDataService.getInstance();
-
 /**
  * GET /api/requests/[id]/tasks/[taskId] - Get a single task
  */
@@ -14,6 +13,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string; taskId: string }> }
 ) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const { id: requestId, taskId } = await extractParams(params);
     
     if (!requestId || !taskId) {
@@ -32,20 +32,21 @@ export async function GET(
       hasDetails: task.completedDetails.trim().length > 0
     };
     
-    return createSuccessResponse(taskWithSummary);
+    return createSuccessResponse(taskWithSummary, undefined, { ETag: computeEtag(task) });
   } catch (error) {
     return handleApiError(error);
   }
 }
 
 /**
- * PUT /api/requests/[id]/tasks/[taskId] - Update a task
+ * PUT /api/requests/[id]/tasks/[taskId] - Update a task (If-Match supported, 412 when stale)
  */
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; taskId: string }> }
 ) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const { id: requestId, taskId } = await extractParams(params);
     
     if (!requestId || !taskId) {
@@ -57,23 +58,29 @@ export async function PUT(
     // Validate the update data (allow partial updates)
     const validatedData = TaskSchema.omit({ id: true }).partial().parse(body);
     
-    // Update the task
-    const updatedTask = await dataService.updateTask(requestId, taskId, validatedData);
+    // Update the task, honouring an optional If-Match version
+    const updatedTask = await dataService.updateTask(requestId, taskId, validatedData, {
+      ifMatch: extractIfMatch(request),
+      actor: getActor(request)
+    });
     
-    return createSuccessResponse(updatedTask, 'Task updated successfully');
+    return createSuccessResponse(updatedTask, 'Task updated successfully', {
+      ETag: computeEtag(updatedTask)
+    });
   } catch (error) {
     return handleApiError(error);
   }
 }
 
 /**
- * DELETE /api/requests/[id]/tasks/[taskId] - Delete a task
+ * DELETE /api/requests/[id]/tasks/[taskId] - Delete a task (If-Match supported, 412 when stale)
  */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; taskId: string }> }
 ) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const { id: requestId, taskId } = await extractParams(params);
     
     if (!requestId || !taskId) {
@@ -86,8 +93,8 @@ export async function DELETE(
       return createErrorResponse('Task not found', 404);
     }
     
-    // Delete the task
-    await dataService.deleteTask(requestId, taskId);
+    // Delete the task, honouring an optional If-Match version
+    await dataService.deleteTask(requestId, taskId, { ifMatch: extractIfMatch(request), actor: getActor(request) });
     
     return createSuccessResponse(
       { requestId, taskId }, 
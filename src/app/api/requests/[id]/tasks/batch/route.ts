@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { taskBatchOperations } from '@/services/bulk';
+import { TaskBatchSchema } from '@/schemas/validation';
+import { TaskBatch } from '@/types';
+
+/**
+ * POST /api/requests/[id]/tasks/batch - Mark done/undone, approve/unapprove,
+ * delete or move several of a request's tasks in a single save
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id: requestId } = await extractParams(params);
+
+    if (!requestId) {
+      return createErrorResponse('Request ID is required', 400);
+    }
+
+    const body = await extractRequestBody<Partial<TaskBatch>>(request);
+    const batch = TaskBatchSchema.parse(body);
+
+    if (!await dataService.getRequest(requestId)) {
+      return createErrorResponse('Request not found', 404);
+    }
+
+    const result = await dataService.runBulk(taskBatchOperations(requestId, batch), { actor: getActor(request) });
+    return createSuccessResponse(result, `${result.succeeded} of ${result.results.length} tasks updated`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
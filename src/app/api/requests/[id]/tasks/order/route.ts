@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, extractIfMatch, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { TaskOrderSchema } from '@/schemas/validation';
+import { computeEtag } from '@/utils/etag';
+
+/**
+ * PUT /api/requests/[id]/tasks/order - Reorder a request's tasks. The body
+ * lists every task id once in the new order; 409 when it doesn't match the
+ * request's tasks (If-Match against the request supported, 412 when stale).
+ * The request's new version comes back in the ETag header
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id: requestId } = await extractParams(params);
+
+    if (!requestId) {
+      return createErrorResponse('Request ID is required', 400);
+    }
+
+    const body = await extractRequestBody<{ taskIds: string[] }>(request);
+    const { taskIds } = TaskOrderSchema.parse(body);
+
+    const updatedRequest = await dataService.reorderTasks(requestId, taskIds, {
+      ifMatch: extractIfMatch(request),
+      actor: getActor(request)
+    });
+    return createSuccessResponse(
+      { requestId, taskIds: updatedRequest.tasks.map(task => task.id) },
+      'Tasks reordered',
+      { ETag: computeEtag(updatedRequest) }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
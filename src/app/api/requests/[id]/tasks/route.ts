@@ -1,11 +1,8 @@
 import { NextRequest } from 'next/server';
-import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody, extractParams } from '@/utils/api';
-import { TasksDataService } from '@/services/tasksDataService';
-import { TaskSchema } from '@/schemas/validation';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody, extractParams, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { TaskCreateSchema } from '@/schemas/validation';
 import { TaskFormData, Task } from '@/types';
-import { generateId } from '@/utils/api';
-
-const dataService = TasksDataService.getInstance();
 
 /**
  * GET /api/requests/[id]/tasks - Get all tasks for a request
@@ -15,6 +12,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const { id: requestId } = await extractParams(params);
     
     if (!requestId) {
@@ -46,42 +44,28 @@ export async function GET(
 }
 
 /**
- * POST /api/requests/[id]/tasks - Create a new task for a request
+ * POST /api/requests/[id]/tasks - Create a new task for a request, appended or
+ * inserted at `position`
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const { id: requestId } = await extractParams(params);
     
     if (!requestId) {
       return createErrorResponse('Request ID is required', 400);
     }
     
-    const body = await extractRequestBody<TaskFormData>(request);
+    const body = await extractRequestBody<TaskFormData & { position?: number }>(request);
     
     // Validate the task data
-    const validatedData = TaskSchema.omit({ id: true }).parse(body);
-    
-    // Check if request exists
-    const requestData = await dataService.getRequest(requestId);
-    if (!requestData) {
-      return createErrorResponse('Request not found', 404);
-    }
-    
-    // Generate a unique task ID
-    const existingTaskIds = requestData.tasks.map((t: Task) => t.id);
-    const newTaskId = generateId('task', existingTaskIds);
-    
-    // Create the new task
-    const newTask = {
-      id: newTaskId,
-      ...validatedData
-    };
+    const { position, ...validatedData } = TaskCreateSchema.parse(body);
     
-    // Add task to request
-    const updatedTask = await dataService.createTask(requestId, newTask);
+    // Add task to request (the service assigns the ID inside its transaction)
+    const updatedTask = await dataService.createTask(requestId, validatedData, { actor: getActor(request), position });
     
     return createSuccessResponse(updatedTask, 'Task created successfully');
   } catch (error) {
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * GET /api/requests/[id]/versions - Earlier versions of a request's own fields,
+ * newest first. `?taskId=` lists the versions of one of its tasks instead.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id } = await extractParams(params);
+
+    if (!id) {
+      return createErrorResponse('Request ID is required', 400);
+    }
+
+    const taskId = request.nextUrl.searchParams.get('taskId') || undefined;
+    const versions = await dataService.listVersions(id, taskId);
+    if (versions.length === 0 && !await dataService.getRequest(id)) {
+      return createErrorResponse('Request not found', 404);
+    }
+
+    return createSuccessResponse(versions);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
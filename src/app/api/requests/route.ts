@@ -1,17 +1,17 @@
 import { NextRequest } from 'next/server';
-import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody } from '@/utils/api';
-import { TasksDataService } from '@/services/tasksDataService';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody, extractDateRanges, extractStatusFilter, getWorkspaceName, getActor } from '@/utils/api';
+import { matchesDateRanges } from '@/utils/data';
+import { taskStatus } from '@/utils/taskStatus';
+import { getWorkspaceService } from '@/services/workspaces';
 import { RequestSchema } from '@/schemas/validation';
 import { RequestFormData, Request } from '@/types';
-import { generateId } from '@/utils/api';
-
-const dataService = TasksDataService.getInstance();
 
 /**
  * GET /api/requests - List all requests with optional search and filtering
  */
 export async function GET(request: NextRequest) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const url = new URL(request.url);
     const searchParams = url.searchParams;
     
@@ -20,8 +20,10 @@ export async function GET(request: NextRequest) {
     const completed = searchParams.get('completed') ? searchParams.get('completed') === 'true' : undefined;
     const taskDone = searchParams.get('taskDone'); // 'true' | 'false' | null
     const taskApproved = searchParams.get('taskApproved'); // 'true' | 'false' | null
+    const statuses = extractStatusFilter(searchParams); // requests with a task in any of these
     const sortBy = searchParams.get('sortBy') || 'requestId';
     const sortOrder = searchParams.get('sortOrder') || 'asc';
+    const dateRanges = extractDateRanges(searchParams);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '20');
 
@@ -60,12 +62,29 @@ export async function GET(request: NextRequest) {
     } else if (taskApproved === 'false') {
       filteredRequests = filteredRequests.filter((req: Request) => req.tasks.some((t: any) => !t.approved));
     }
+
+    if (statuses) {
+      filteredRequests = filteredRequests.filter((req: Request) => req.tasks.some(t => statuses.includes(taskStatus(t))));
+    }
+    
+    if (dateRanges.created || dateRanges.updated) {
+      filteredRequests = filteredRequests.filter((req: Request) => matchesDateRanges(req, dateRanges));
+    }
     
     // Apply sorting
     filteredRequests.sort((a: Request, b: Request) => {
       let aValue: any, bValue: any;
       
       switch (sortBy) {
+        case 'created':
+          // Records from before timestamps were recorded sort as oldest
+          aValue = a.createdAt ?? '';
+          bValue = b.createdAt ?? '';
+          break;
+        case 'updated':
+          aValue = a.updatedAt ?? a.createdAt ?? '';
+          bValue = b.updatedAt ?? b.createdAt ?? '';
+          break;
         case 'completion':
           aValue = a.tasks.filter((t: any) => t.done).length / Math.max(a.tasks.length, 1);
           bValue = b.tasks.filter((t: any) => t.done).length / Math.max(b.tasks.length, 1);
@@ -133,6 +152,7 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const body = await extractRequestBody<RequestFormData>(request);
     
     // Validate the request data
@@ -141,14 +161,8 @@ export async function POST(request: NextRequest) {
       tasks: true 
     }).parse(body);
     
-    // Get existing requests to generate a unique ID
-    const existingRequests = await dataService.getAllRequests();
-    const existingIds = existingRequests.map(r => r.requestId);
-    const newRequestId = generateId('req', existingIds);
-    
-    // Create the new request
+    // Create the new request (the service assigns the ID inside its transaction)
     const newRequest = {
-      requestId: newRequestId,
       originalRequest: validatedData.originalRequest,
       splitDetails: validatedData.splitDetails,
       completed: validatedData.completed || false,
@@ -156,7 +170,7 @@ export async function POST(request: NextRequest) {
     };
     
     // Save the request
-    const createdRequest = await dataService.createRequest(newRequest);
+    const createdRequest = await dataService.createRequest(newRequest, { actor: getActor(request) });
     
     return createSuccessResponse(createdRequest, 'Request created successfully');
   } catch (error) {
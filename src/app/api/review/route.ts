@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * GET /api/review - Tasks awaiting approval across all requests, longest waiting first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    return createSuccessResponse(await dataService.getReviewQueue());
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
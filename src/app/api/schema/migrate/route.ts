@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, extractRequestBody, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { MigrateSchemaSchema } from '@/schemas/validation';
+
+/**
+ * POST /api/schema/migrate - Migrate the stored file to `targetVersion` (the latest by default).
+ * With `dryRun: true` nothing is written and the response shows what would change.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const body = request.headers.get('content-type')?.includes('application/json')
+      ? await extractRequestBody<{ targetVersion?: number; dryRun?: boolean }>(request)
+      : {};
+    const { targetVersion, dryRun } = MigrateSchemaSchema.parse(body);
+
+    const plan = await dataService.migrateSchema(targetVersion, dryRun);
+    const message = plan.steps.length === 0
+      ? `Already at schema v${plan.toVersion}`
+      : `${plan.dryRun ? 'Would migrate' : 'Migrated'} schema v${plan.fromVersion} to v${plan.toVersion}`;
+    return createSuccessResponse(plan, message);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * GET /api/schema - Schema version of the stored file and the registered migrations
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    return createSuccessResponse(await dataService.getSchemaStatus());
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
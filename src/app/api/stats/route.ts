@@ -1,15 +1,15 @@
 import { NextRequest } from 'next/server';
-import { createSuccessResponse, createErrorResponse, handleApiError } from '@/utils/api';
-import { TasksDataService } from '@/services/tasksDataService';
+import { createSuccessResponse, createErrorResponse, handleApiError, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
 import { Request, Task } from '@/types';
-
-const dataService = TasksDataService.getInstance();
+import { lastActivity } from '@/services/timestamps';
 
 /**
  * GET /api/stats - Get overall statistics about requests and tasks
  */
 export async function GET(request: NextRequest) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const allRequests = await dataService.getAllFullRequests();
     
     // Calculate overall statistics
@@ -52,21 +52,25 @@ export async function GET(request: NextRequest) {
     // Top performers (requests with high completion rates)
     const topPerformers = requestsByCompletion.slice(0, 10);
     
-    // Recent activity (tasks with completion details)
-    const recentActivity = allTasks
-      .filter((t: Task) => t.done && t.completedDetails.trim().length > 0)
-      .map((t: Task) => {
-        const parentRequest = allRequests.find((r: Request) => r.tasks.some((task: Task) => task.id === t.id));
-        return {
-          taskId: t.id,
-          taskTitle: t.title,
-          requestId: parentRequest?.requestId || '',
-          requestTitle: parentRequest?.originalRequest.substring(0, 50) + '...' || '',
-          approved: t.approved,
-          completedDetails: t.completedDetails.substring(0, 200) + (t.completedDetails.length > 200 ? '...' : '')
-        };
-      })
-      .slice(0, 20);
+    // Recent activity: tasks ordered by their latest timestamp, newest first.
+    // Legacy tasks without stamps are listed after them if they have completion details.
+    const recentActivity = allRequests
+      .flatMap((r: Request) => r.tasks.map((t: Task) => ({ task: t, parentRequest: r, activityAt: lastActivity(t) })))
+      .filter(({ task, activityAt }) => activityAt || (task.done && task.completedDetails.trim().length > 0))
+      .sort((a, b) => (b.activityAt ?? '').localeCompare(a.activityAt ?? ''))
+      .slice(0, 20)
+      .map(({ task: t, parentRequest, activityAt }) => ({
+        taskId: t.id,
+        taskTitle: t.title,
+        requestId: parentRequest.requestId,
+        requestTitle: parentRequest.originalRequest.substring(0, 50) + '...',
+        done: t.done,
+        approved: t.approved,
+        completedDetails: t.completedDetails.substring(0, 200) + (t.completedDetails.length > 200 ? '...' : ''),
+        activityAt: activityAt ?? null,
+        completedAt: t.completedAt ?? null,
+        approvedAt: t.approvedAt ?? null
+      }));
 
     return createSuccessResponse({
       overview: {
@@ -1,17 +1,17 @@
 import { NextRequest } from 'next/server';
-import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody } from '@/utils/api';
-import { TasksDataService } from '@/services/tasksDataService';
-import { TaskSchema } from '@/schemas/validation';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractRequestBody, extractDateRanges, extractStatusFilter, getWorkspaceName, getActor } from '@/utils/api';
+import { matchesDateRanges } from '@/utils/data';
+import { taskStatus } from '@/utils/taskStatus';
+import { getWorkspaceService } from '@/services/workspaces';
+import { TaskCreateSchema } from '@/schemas/validation';
 import { TaskFormData, Task, Request } from '@/types';
-import { generateId } from '@/utils/api';
-
-const dataService = TasksDataService.getInstance();
 
 /**
  * GET /api/tasks - Get all tasks across all requests with optional filtering
  */
 export async function GET(request: NextRequest) {
   try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
     const url = new URL(request.url);
     const searchParams = url.searchParams;
     
@@ -20,8 +20,10 @@ export async function GET(request: NextRequest) {
     const done = searchParams.get('done') ? searchParams.get('done') === 'true' : undefined;
     const approved = searchParams.get('approved') ? searchParams.get('approved') === 'true' : undefined;
     const requestId = searchParams.get('requestId') || undefined;
+    const statuses = extractStatusFilter(searchParams);
     const sortBy = searchParams.get('sortBy') || 'id';
     const sortOrder = searchParams.get('sortOrder') || 'asc';
+    const dateRanges = extractDateRanges(searchParams);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '50');
 
@@ -61,11 +63,28 @@ export async function GET(request: NextRequest) {
       allTasks = allTasks.filter((task: any) => task.requestId === requestId);
     }
     
+    if (statuses) {
+      allTasks = allTasks.filter(task => statuses.includes(taskStatus(task)));
+    }
+    
+    if (dateRanges.created || dateRanges.updated) {
+      allTasks = allTasks.filter(task => matchesDateRanges(task, dateRanges));
+    }
+    
     // Apply sorting
     allTasks.sort((a: any, b: any) => {
       let aValue: any, bValue: any;
       
       switch (sortBy) {
+        case 'created':
+          // Records from before timestamps were recorded sort as oldest
+          aValue = a.createdAt ?? '';
+          bValue = b.createdAt ?? '';
+          break;
+        case 'updated':
+          aValue = a.updatedAt ?? a.createdAt ?? '';
+          bValue = b.updatedAt ?? b.createdAt ?? '';
+          break;
         case 'title':
           aValue = a.title.toLowerCase();
           bValue = b.title.toLowerCase();
@@ -123,37 +142,22 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/tasks - Create a new task (requires requestId in body)
+ * POST /api/tasks - Create a new task (requires requestId in body; optional position)
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await extractRequestBody<TaskFormData & { requestId: string }>(request);
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const body = await extractRequestBody<TaskFormData & { requestId: string; position?: number }>(request);
     
     if (!body.requestId) {
       return createErrorResponse('Request ID is required', 400);
     }
     
     // Validate the task data
-    const validatedData = TaskSchema.omit({ id: true }).parse(body);
-    
-    // Check if request exists
-    const requestData = await dataService.getRequest(body.requestId);
-    if (!requestData) {
-      return createErrorResponse('Request not found', 404);
-    }
-    
-    // Generate a unique task ID
-    const existingTaskIds = requestData.tasks.map((t: Task) => t.id);
-    const newTaskId = generateId('task', existingTaskIds);
-    
-    // Create the new task
-    const newTask = {
-      id: newTaskId,
-      ...validatedData
-    };
+    const { position, ...validatedData } = TaskCreateSchema.parse(body);
     
-    // Add task to request
-    const updatedTask = await dataService.createTask(body.requestId, newTask);
+    // Add task to request (the service assigns the ID inside its transaction)
+    const updatedTask = await dataService.createTask(body.requestId, validatedData, { actor: getActor(request), position });
     
     return createSuccessResponse(
       { ...updatedTask, requestId: body.requestId }, 
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { TemplateInstantiateSchema } from '@/schemas/validation';
+
+/**
+ * POST /api/templates/[id]/instantiate - Create a request from a template,
+ * with a value for each placeholder in `values`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id } = await extractParams(params);
+
+    if (!id) {
+      return createErrorResponse('Template ID is required', 400);
+    }
+
+    const body = await extractRequestBody<{ values?: Record<string, string> }>(request);
+    const { values = {} } = TemplateInstantiateSchema.parse(body);
+
+    const created = await dataService.instantiateTemplate(id, values, { actor: getActor(request) });
+    return createSuccessResponse(created, `Created request ${created.requestId}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
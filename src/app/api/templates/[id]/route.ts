@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, extractRequestBody, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { TemplateUpdateSchema } from '@/schemas/validation';
+import { TemplateUpdate } from '@/types';
+
+/**
+ * GET /api/templates/[id] - Get a template
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id } = await extractParams(params);
+
+    const template = id ? await dataService.getTemplate(id) : null;
+    if (!template) {
+      return createErrorResponse('Template not found', 404);
+    }
+    return createSuccessResponse(template);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/templates/[id] - Edit a template's name, text or tasks
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id } = await extractParams(params);
+
+    if (!id) {
+      return createErrorResponse('Template ID is required', 400);
+    }
+
+    const body = await extractRequestBody<TemplateUpdate>(request);
+    const updates = TemplateUpdateSchema.parse(body);
+
+    const template = await dataService.updateTemplate(id, updates);
+    return createSuccessResponse(template, 'Template saved');
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/templates/[id] - Delete a template
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id } = await extractParams(params);
+
+    if (!id) {
+      return createErrorResponse('Template ID is required', 400);
+    }
+
+    await dataService.deleteTemplate(id);
+    return createSuccessResponse(null, 'Template deleted');
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
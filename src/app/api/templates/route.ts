@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, extractRequestBody, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { TemplateCreateSchema } from '@/schemas/validation';
+
+/**
+ * GET /api/templates - List the workspace's request templates
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    return createSuccessResponse(await dataService.getTemplates());
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/templates - Save a request (`requestId`) as a template called `name`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const body = await extractRequestBody<{ requestId: string; name: string }>(request);
+    const { requestId, name } = TemplateCreateSchema.parse(body);
+
+    const template = await dataService.saveTemplate(requestId, name);
+    return createSuccessResponse(template, `Saved template "${template.name}"`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
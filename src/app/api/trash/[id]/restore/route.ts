@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * POST /api/trash/[id]/restore - Restore a trashed request or task
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id } = await extractParams(params);
+
+    if (!id) {
+      return createErrorResponse('Trash item ID is required', 400);
+    }
+
+    const result = await dataService.restoreFromTrash(id, { actor: getActor(request) });
+    return createSuccessResponse(result, result.createdRequest
+      ? `Restored into new request ${result.requestId}`
+      : `Restored into ${result.requestId}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * DELETE /api/trash/[id] - Permanently delete a trashed record
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const { id } = await extractParams(params);
+
+    if (!id) {
+      return createErrorResponse('Trash item ID is required', 400);
+    }
+
+    await dataService.purgeTrash(id);
+    return createSuccessResponse(null, 'Permanently deleted');
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
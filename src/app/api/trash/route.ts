@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * GET /api/trash - List deleted requests and tasks that can still be restored
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    return createSuccessResponse(await dataService.listTrash());
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/trash - Empty the trash
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const purged = await dataService.purgeTrash();
+    return createSuccessResponse({ purged }, `Permanently deleted ${purged} items`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, extractRequestBody, getWorkspaceName, getActor } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+import { UndoSchema } from '@/schemas/validation';
+
+/**
+ * GET /api/undo - Describe what undo and redo would currently do
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    return createSuccessResponse(await dataService.getJournalStatus());
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/undo - Revert the most recent mutation, or the last `steps` mutations
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    const body = request.headers.get('content-type')?.includes('application/json')
+      ? await extractRequestBody<{ steps?: number }>(request)
+      : {};
+    const { steps } = UndoSchema.parse(body);
+
+    const result = await dataService.undo(steps, { actor: getActor(request) });
+    return createSuccessResponse(result, `Undone: ${result.applied.join(', ')}`);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
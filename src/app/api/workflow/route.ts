@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, getWorkspaceName } from '@/utils/api';
+import { getWorkspaceService } from '@/services/workspaces';
+
+/**
+ * GET /api/workflow - Rules enforced on task done/approved transitions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const dataService = await getWorkspaceService(getWorkspaceName(request));
+    return createSuccessResponse(dataService.getWorkflowRules());
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
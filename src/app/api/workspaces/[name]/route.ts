@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, createErrorResponse, handleApiError, extractParams } from '@/utils/api';
+import { removeWorkspace } from '@/services/workspaces';
+
+/**
+ * DELETE /api/workspaces/[name] - Unregister a workspace (its tasks file is kept)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await extractParams(params);
+
+    if (!name) {
+      return createErrorResponse('Workspace name is required', 400);
+    }
+
+    await removeWorkspace(name);
+
+    return createSuccessResponse({ name }, 'Workspace removed successfully');
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
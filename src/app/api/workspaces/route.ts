@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { createSuccessResponse, handleApiError, extractRequestBody, getWorkspaceName } from '@/utils/api';
+import { addWorkspace, listWorkspaces } from '@/services/workspaces';
+import { WorkspaceSchema } from '@/schemas/validation';
+import { Workspace, WorkspaceInfo } from '@/types';
+import { WORKSPACE_CONFIG } from '@/constants';
+
+/**
+ * GET /api/workspaces - List workspaces and which one the caller has selected
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const workspaces = await listWorkspaces();
+    const selected = getWorkspaceName(request) || WORKSPACE_CONFIG.DEFAULT_NAME;
+    // Fall back to the default when the selected workspace was removed
+    const active = workspaces.some(w => w.name === selected) ? selected : WORKSPACE_CONFIG.DEFAULT_NAME;
+
+    const data: WorkspaceInfo[] = workspaces.map(workspace => ({
+      ...workspace,
+      isDefault: workspace.name === WORKSPACE_CONFIG.DEFAULT_NAME,
+      active: workspace.name === active
+    }));
+
+    return createSuccessResponse(data);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/workspaces - Register a tasks file as a workspace
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await extractRequestBody<Workspace>(request);
+    const validatedData = WorkspaceSchema.parse(body);
+
+    const workspace = await addWorkspace(validatedData);
+
+    return createSuccessResponse(workspace, 'Workspace added successfully');
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,215 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import Spinner from '@/components/common/Spinner';
+import { CHANGE_STYLES, FieldTable } from '@/components/common/FieldTable';
+import { API_ENDPOINTS, LIVE_SNAPSHOT } from '@/constants';
+import type { BackupInfo, ChangeKind, RecordRestoreResult, TasksDataDiff } from '@/types';
+
+export default function BackupDiffPage({
+  searchParams
+}: {
+  searchParams: Promise<{ from?: string; to?: string }>
+}) {
+  const router = useRouter();
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string>(LIVE_SNAPSHOT);
+  const [diff, setDiff] = useState<TasksDataDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  useEffect(() => {
+    searchParams.then(params => {
+      setFrom(params.from ?? null);
+      setTo(params.to ?? LIVE_SNAPSHOT);
+    });
+    fetch(API_ENDPOINTS.BACKUPS, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(json => {
+        if (json.success) setBackups((json.data.backups as BackupInfo[]).filter(b => b.valid));
+      })
+      .catch((e: unknown) => console.error('Failed to load backups:', e));
+  }, [searchParams]);
+
+  const loadDiff = async (fromName: string, toName: string) => {
+    try {
+      setLoading(true);
+      const query = new URLSearchParams({ from: fromName, to: toName });
+      const res = await fetch(`${API_ENDPOINTS.BACKUPS}/diff?${query}`, { cache: 'no-store' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to compare backups');
+      setDiff(json.data.diff as TasksDataDiff);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to compare backups');
+      setDiff(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (from) {
+      loadDiff(from, to);
+    } else {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  const select = (nextFrom: string | null, nextTo: string) => {
+    setNotice(null);
+    setFrom(nextFrom);
+    setTo(nextTo);
+    const query = new URLSearchParams({ to: nextTo });
+    if (nextFrom) query.set('from', nextFrom);
+    router.replace(`/backups/diff?${query}`);
+  };
+
+  // Individual records can only be put back into the live data from a backup
+  const canRestore = !!from && from !== LIVE_SNAPSHOT && to === LIVE_SNAPSHOT;
+
+  const restoreRecord = async (requestId: string, taskId?: string) => {
+    if (!from) return;
+    const key = taskId ? `${requestId}/${taskId}` : requestId;
+    try {
+      setRestoring(key);
+      const res = await fetch(`${API_ENDPOINTS.BACKUPS}/${encodeURIComponent(from)}/restore-record`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId, taskId })
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to restore record');
+      const result = json.data as RecordRestoreResult;
+      setNotice(`${result.taskId ? `Task ${result.taskId}` : `Request ${result.requestId}`} ${result.action}.`);
+      await loadDiff(from, to);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to restore record');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const restoreButton = (change: ChangeKind, requestId: string, taskId?: string) => {
+    if (!canRestore) return null;
+    const key = taskId ? `${requestId}/${taskId}` : requestId;
+    return (
+      <button
+        onClick={() => restoreRecord(requestId, taskId)}
+        disabled={restoring !== null}
+        title={change === 'added' ? 'Not in the backup; remove it from the live data' : 'Put back the version from the backup'}
+        className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 text-sm disabled:opacity-50 shrink-0"
+      >
+        {restoring === key ? 'Restoring...' : change === 'added' ? 'Remove' : 'Restore'}
+      </button>
+    );
+  };
+
+  const sourceLabel = (name: string) => {
+    if (name === LIVE_SNAPSHOT) return 'Live data';
+    const backup = backups.find(b => b.name === name);
+    return backup ? `${new Date(backup.timestamp).toLocaleString()}${backup.label ? ` — ${backup.label}` : ''}` : name;
+  };
+
+  const sourceSelect = (id: string, label: string, value: string | null, onChange: (value: string) => void) => (
+    <label htmlFor={id} className="flex flex-col gap-1 text-sm">
+      <span className="font-medium">{label}</span>
+      <select
+        id={id}
+        className="h-9 px-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {value === null && <option value="">Select a backup…</option>}
+        <option value={LIVE_SNAPSHOT}>Live data</option>
+        {value && value !== LIVE_SNAPSHOT && !backups.some(b => b.name === value) && <option value={value}>{value}</option>}
+        {backups.map(backup => (
+          <option key={backup.name} value={backup.name}>{sourceLabel(backup.name)}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/backups" className="text-sm text-blue-600 hover:underline">← Backups</Link>
+        <h1 className="text-2xl font-bold mt-1">Compare</h1>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {sourceSelect('diff-from', 'From (older)', from, value => select(value, to))}
+        {sourceSelect('diff-to', 'To (newer)', to, value => select(from, value))}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-3 rounded-md bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-200">
+          {notice}
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex items-center gap-2">
+          <Spinner /> Comparing...
+        </div>
+      )}
+
+      {!loading && !from && <div className="text-sm text-neutral-500">Choose a backup to compare.</div>}
+
+      {!loading && diff && (
+        <div className="space-y-4">
+          <div className="text-sm text-neutral-600 dark:text-neutral-400">
+            Requests: {diff.summary.requestsAdded} added • {diff.summary.requestsRemoved} removed • {diff.summary.requestsModified} modified.
+            Tasks: {diff.summary.tasksAdded} added • {diff.summary.tasksRemoved} removed • {diff.summary.tasksModified} modified.
+          </div>
+
+          {diff.requests.length === 0 && <div className="text-sm text-neutral-500">No differences.</div>}
+
+          {diff.requests.map(request => (
+            <div key={request.requestId} className="rounded-lg border border-neutral-200 dark:border-neutral-800 p-3 bg-white dark:bg-neutral-900">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{request.requestId}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${CHANGE_STYLES[request.change]}`}>{request.change}</span>
+                  </div>
+                  <div className="text-sm text-neutral-700 dark:text-neutral-300 line-clamp-2">{request.title}</div>
+                </div>
+                {restoreButton(request.change, request.requestId)}
+              </div>
+
+              <FieldTable fields={request.fields} />
+
+              {request.tasks.length > 0 && (
+                <ul className="mt-3 space-y-2">
+                  {request.tasks.map(task => (
+                    <li key={task.taskId} className="rounded-md border border-neutral-200 dark:border-neutral-800 p-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0 text-sm">
+                          <span className="font-mono text-xs">{task.taskId}</span>
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${CHANGE_STYLES[task.change]}`}>{task.change}</span>
+                          <span className="truncate">{task.title}</span>
+                        </div>
+                        {request.change === 'modified' && restoreButton(task.change, request.requestId, task.taskId)}
+                      </div>
+                      <FieldTable fields={task.fields} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
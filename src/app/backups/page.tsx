@@ -0,0 +1,273 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Spinner from '@/components/common/Spinner';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { TextInput } from '@/components/form/inputs';
+import { API_ENDPOINTS } from '@/constants';
+import type { BackupDetail, BackupInfo, BackupType, RestoreResult } from '@/types';
+
+interface BackupStatus {
+  totalBackups: number;
+  latestBackup: string | null;
+  backupDirectory: string;
+  integrityCheck: boolean;
+}
+
+const TYPE_STYLES: Record<BackupType, string> = {
+  auto: 'bg-neutral-100 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300',
+  manual: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  safety: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function BackupsPage() {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [status, setStatus] = useState<BackupStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [preview, setPreview] = useState<BackupDetail | null>(null);
+  const [previewLoading, setPreviewLoading] = useState<string | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState<BackupInfo | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const load = async () => {
+    try {
+      const res = await fetch(API_ENDPOINTS.BACKUPS, { cache: 'no-store' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load backups');
+      setBackups(json.data.backups);
+      setStatus(json.data.status);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Error loading backups');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const create = async () => {
+    try {
+      setCreating(true);
+      setNotice(null);
+      const res = await fetch(API_ENDPOINTS.BACKUPS, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: label.trim() || undefined })
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to create backup');
+      setLabel('');
+      setNotice(`Created ${json.data.name}`);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to create backup');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const showPreview = async (name: string) => {
+    try {
+      setPreviewLoading(name);
+      const res = await fetch(`${API_ENDPOINTS.BACKUPS}/${encodeURIComponent(name)}`, { cache: 'no-store' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load backup');
+      setPreview(json.data as BackupDetail);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load backup');
+    } finally {
+      setPreviewLoading(null);
+    }
+  };
+
+  const restore = async () => {
+    if (!confirmRestore) return;
+    try {
+      setRestoring(true);
+      const res = await fetch(`${API_ENDPOINTS.BACKUPS}/${encodeURIComponent(confirmRestore.name)}/restore`, { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to restore backup');
+      const result = json.data as RestoreResult;
+      setNotice(
+        result.safetyBackup
+          ? `Restored ${result.restored.name}. The previous data was saved as ${result.safetyBackup}.`
+          : `Restored ${result.restored.name}.`
+      );
+      setConfirmRestore(null);
+      setPreview(null);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to restore backup');
+      setConfirmRestore(null);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2">
+        <Spinner /> Loading backups...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Backups</h1>
+        {status && (
+          <div className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+            {status.totalBackups} backups in {status.backupDirectory} • integrity check{' '}
+            <span className={status.integrityCheck ? 'text-green-600' : 'text-red-600'}>
+              {status.integrityCheck ? 'passed' : 'failed'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-3 rounded-md bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-200">
+          {notice}
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <TextInput
+          id="backup-label"
+          label="Create a manual backup"
+          className="flex-1"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Optional label, e.g. Before sprint planning"
+        />
+        <button
+          onClick={create}
+          disabled={creating}
+          className="px-4 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {creating ? 'Creating...' : 'Create Backup'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">History</h2>
+          {backups.length === 0 && (
+            <div className="text-sm text-neutral-500">No backups yet. One is taken automatically before every save.</div>
+          )}
+          {backups.map(backup => (
+            <div
+              key={backup.name}
+              className={`rounded-lg border p-3 bg-white dark:bg-neutral-900 ${preview?.name === backup.name ? 'border-blue-500' : 'border-neutral-200 dark:border-neutral-800'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{new Date(backup.timestamp).toLocaleString()}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${TYPE_STYLES[backup.type]}`}>{backup.type}</span>
+                    {!backup.valid && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">invalid</span>
+                    )}
+                  </div>
+                  {backup.label && <div className="text-sm text-neutral-700 dark:text-neutral-300 truncate">{backup.label}</div>}
+                  <div className="text-xs text-neutral-500 mt-1">
+                    {backup.requestCount} requests • {backup.taskCount} tasks • {formatSize(backup.size)}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => showPreview(backup.name)}
+                    disabled={previewLoading === backup.name}
+                    className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 text-sm disabled:opacity-50"
+                  >
+                    Preview
+                  </button>
+                  {backup.valid && (
+                    <Link
+                      href={`/backups/diff?from=${encodeURIComponent(backup.name)}`}
+                      className="px-3 h-8 inline-flex items-center rounded-md border border-neutral-300 dark:border-neutral-700 text-sm"
+                    >
+                      Compare with live
+                    </Link>
+                  )}
+                  <button
+                    onClick={() => setConfirmRestore(backup)}
+                    disabled={!backup.valid}
+                    title={backup.valid ? undefined : 'This backup failed checksum or schema validation'}
+                    className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Restore
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">Preview</h2>
+          {!preview && <div className="text-sm text-neutral-500">Select a backup to see what it contains.</div>}
+          {preview && (
+            <div className="space-y-3">
+              <div className="text-sm text-neutral-600 dark:text-neutral-400 break-all">{preview.name}</div>
+              {preview.data ? (
+                <ul className="space-y-2">
+                  {preview.data.requests.map(request => (
+                    <li key={request.requestId} className="rounded-md border border-neutral-200 dark:border-neutral-800 p-2 text-sm">
+                      <div className="font-medium">{request.requestId}</div>
+                      <div className="text-neutral-700 dark:text-neutral-300 line-clamp-2">{request.originalRequest}</div>
+                      <div className="text-xs text-neutral-500 mt-1">
+                        {request.tasks.length} tasks • {request.tasks.filter(t => t.done).length} done • {request.tasks.filter(t => t.approved).length} approved
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-sm text-red-600">This backup failed checksum or schema validation.</div>
+              )}
+              {preview.data && (
+                <details className="text-sm">
+                  <summary className="cursor-pointer text-neutral-600 dark:text-neutral-400">Raw JSON</summary>
+                  <pre className="mt-2 p-2 rounded-md bg-neutral-100 dark:bg-neutral-800 overflow-auto max-h-96 text-xs">
+                    {JSON.stringify(preview.data, null, 2)}
+                  </pre>
+                </details>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={!!confirmRestore}
+        title="Restore backup"
+        description={confirmRestore
+          ? `Replace the current data with the backup from ${new Date(confirmRestore.timestamp).toLocaleString()}? A safety backup of the current data is taken first.`
+          : ''}
+        confirmText="Restore"
+        confirmLoading={restoring}
+        onConfirm={restore}
+        onCancel={() => setConfirmRestore(null)}
+      />
+    </div>
+  );
+}
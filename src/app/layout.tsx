@@ -4,6 +4,7 @@ import "./globals.css";
 import SiteHeader from "@/components/layout/SiteHeader";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ClientErrorSetup } from "@/components/ClientErrorSetup";
+import { UndoToastProvider } from "@/components/common/UndoToast";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -32,10 +33,12 @@ export default function RootLayout({
       >
         <ClientErrorSetup />
         <ErrorBoundary>
-          <SiteHeader />
-          <main className="max-w-6xl mx-auto px-4 py-6">
-            {children}
-          </main>
+          <UndoToastProvider>
+            <SiteHeader />
+            <main className="max-w-6xl mx-auto px-4 py-6">
+              {children}
+            </main>
+          </UndoToastProvider>
         </ErrorBoundary>
       </body>
     </html>
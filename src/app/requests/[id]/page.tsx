@@ -4,16 +4,48 @@ import { useRouter } from 'next/navigation';
 import { TextInput, TextArea, Checkbox } from '@/components/form/inputs';
 import TaskCard from '@/components/cards/TaskCard';
 import Spinner from '@/components/common/Spinner';
-import type { Request, Task } from '@/types';
+import { ConflictDialog } from '@/components/common/ConflictDialog';
+import { ExtraFields } from '@/components/common/ExtraFields';
+import { Timestamps } from '@/components/common/Timestamps';
+import { Tabs } from '@/components/common/Tabs';
+import { HistoryList } from '@/components/common/HistoryList';
+import { VersionList } from '@/components/common/VersionList';
+import { TaskBatchActions } from '@/components/common/TaskBatchActions';
+import { SortableTaskList } from '@/components/common/SortableTaskList';
+import { SplitRequestDialog } from '@/components/common/SplitRequestDialog';
+import { MergeRequestsDialog } from '@/components/common/MergeRequestsDialog';
+import { SaveTemplateDialog } from '@/components/common/SaveTemplateDialog';
+import { useDataEvents } from '@/hooks/useDataEvents';
+import { useUndoToast } from '@/components/common/UndoToast';
+import { KNOWN_FIELDS } from '@/constants';
+import type { BulkItemResult, CompletionPolicy, CompletionStatus, MergeResult, Request, RequestFormData, RequestTemplate, SplitResult, Task } from '@/types';
+
+const POLICY_LABELS: Record<CompletionPolicy, string> = {
+  manual: 'Set by hand',
+  allDone: 'When all tasks are done',
+  allApproved: 'When all tasks are approved'
+};
+
+const CONFLICT_FIELDS = [
+  { key: 'originalRequest', label: 'Original Request' },
+  { key: 'splitDetails', label: 'Split Details' },
+  { key: 'completed', label: 'Completed' }
+];
 
 export default function RequestDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const router = useRouter();
+  const { showUndo } = useUndoToast();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [request, setRequest] = useState<Request | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [requestId, setRequestId] = useState<string>('');
+  const [etag, setEtag] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<{ theirs: Request; etag: string | null } | null>(null);
+  const [externalNotice, setExternalNotice] = useState<string | null>(null);
+  const [tab, setTab] = useState<'details' | 'versions' | 'history'>('details');
+  const [completion, setCompletion] = useState<CompletionStatus | null>(null);
   
   // Form state
   const [originalRequest, setOriginalRequest] = useState('');
@@ -24,7 +56,31 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
   const [showAddTaskModal, setShowAddTaskModal] = useState(false);
   const [taskTitle, setTaskTitle] = useState('');
   const [taskDescription, setTaskDescription] = useState('');
+  const [taskPosition, setTaskPosition] = useState('');
   const [addingTask, setAddingTask] = useState(false);
+  const [reordering, setReordering] = useState(false);
+
+  // Task selection for batch actions
+  const [selectingTasks, setSelectingTasks] = useState(false);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
+  const [taskFailures, setTaskFailures] = useState<BulkItemResult[]>([]);
+
+  // Split and merge dialogs
+  const [showSplit, setShowSplit] = useState(false);
+  const [showMerge, setShowMerge] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [duplicating, setDuplicating] = useState(false);
+
+  const applyRequest = (data: Request & { completion?: CompletionStatus }, version: string | null) => {
+    setEtag(version);
+    setRequest(data);
+    setCompletion(data.completion ?? null);
+    setTasks(data.tasks || []);
+    setOriginalRequest(data.originalRequest);
+    setSplitDetails(data.splitDetails);
+    setCompleted(data.completed);
+    setExternalNotice(null);
+  };
 
   const load = async (id: string) => {
     try {
@@ -38,12 +94,7 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
         throw new Error('Failed to load request');
       }
       const json = await res.json();
-      const data = json.data as Request;
-      setRequest(data);
-      setTasks(data.tasks || []);
-      setOriginalRequest(data.originalRequest);
-      setSplitDetails(data.splitDetails);
-      setCompleted(data.completed);
+      applyRequest(json.data as Request, res.headers.get('ETag'));
       setError(null);
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : 'Error loading request');
@@ -52,19 +103,32 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
     }
   };
 
-  const save = async () => {
+  const save = async (
+    values: RequestFormData = { originalRequest, splitDetails, completed },
+    ifMatch: string | null = etag
+  ) => {
     try {
       setSaving(true);
       const res = await fetch(`/api/requests/${requestId}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          originalRequest,
-          splitDetails,
-          completed
-        })
+        headers: {
+          'Content-Type': 'application/json',
+          ...(ifMatch ? { 'If-Match': ifMatch } : {})
+        },
+        // Completion follows the tasks when a policy manages it, so only send it when set by hand
+        body: JSON.stringify(completion?.managed
+          ? { originalRequest: values.originalRequest, splitDetails: values.splitDetails }
+          : values)
       });
+      if (res.status === 412) {
+        // Someone else saved first: keep the form as-is and let the user resolve it
+        const json = await res.json();
+        setConflict({ theirs: json.data as Request, etag: res.headers.get('ETag') });
+        return;
+      }
       if (!res.ok) throw new Error('Failed to save request');
+      setConflict(null);
+      showUndo('Request saved');
       await load(requestId); // Reload to get updated data
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : 'Failed to save');
@@ -91,7 +155,8 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
           description: taskDescription.trim(),
           done: false,
           approved: false,
-          completedDetails: ''
+          completedDetails: '',
+          ...(taskPosition && { position: Number(taskPosition) })
         })
       });
 
@@ -103,6 +168,7 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
       // Reset form and close modal
       setTaskTitle('');
       setTaskDescription('');
+      setTaskPosition('');
       setShowAddTaskModal(false);
       
       // Reload to get updated data
@@ -114,6 +180,108 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
     }
   };
 
+  // Show the new order straight away and keep the saved version for the next
+  // save; a failed save puts the old order back, and a stale one reloads
+  const reorderTasks = async (taskIds: string[]) => {
+    const previous = tasks;
+    setTasks(taskIds.map(id => tasks.find(task => task.id === id) as Task));
+    try {
+      setReordering(true);
+      const res = await fetch(`/api/requests/${requestId}/tasks/order`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(etag ? { 'If-Match': etag } : {})
+        },
+        body: JSON.stringify({ taskIds })
+      });
+      const json = await res.json();
+      if (res.status === 412) {
+        await load(requestId);
+        setExternalNotice('This request was changed elsewhere, so the new order wasn\'t saved. The latest version is shown.');
+        return;
+      }
+      if (!res.ok) throw new Error(json.error || 'Failed to reorder tasks');
+      setEtag(res.headers.get('ETag'));
+      showUndo('Tasks reordered');
+    } catch (e: unknown) {
+      setTasks(previous);
+      setExternalNotice(e instanceof Error ? e.message : 'Failed to reorder tasks');
+    } finally {
+      setReordering(false);
+    }
+  };
+
+  // Drop selections for tasks that have gone (deleted, moved or removed elsewhere)
+  useEffect(() => {
+    setSelectedTaskIds(prev => new Set([...prev].filter(id => tasks.some(task => task.id === id))));
+  }, [tasks]);
+
+  const toggleTask = (taskId: string, selected: boolean) => {
+    const next = new Set(selectedTaskIds);
+    if (selected) {
+      next.add(taskId);
+    } else {
+      next.delete(taskId);
+    }
+    setSelectedTaskIds(next);
+  };
+
+  const toggleTaskSelection = () => {
+    setSelectingTasks(!selectingTasks);
+    setSelectedTaskIds(new Set());
+    setTaskFailures([]);
+  };
+
+  // Reload to show the saved tasks; keep failed tasks selected to retry
+  const taskBatchComplete = async (failures: BulkItemResult[]) => {
+    await load(requestId);
+    setTaskFailures(failures);
+    setSelectedTaskIds(new Set(failures.flatMap(item => ('taskId' in item.operation ? [item.operation.taskId] : []))));
+  };
+
+  const splitDone = (result: SplitResult) => {
+    setShowSplit(false);
+    setSelectingTasks(false);
+    setSelectedTaskIds(new Set());
+    router.push(`/requests/${result.request.requestId}`);
+  };
+
+  // This request is gone when it was merged into another, so follow it there
+  const mergeDone = (result: MergeResult) => {
+    setShowMerge(false);
+    if (result.request.requestId !== requestId) {
+      router.push(`/requests/${result.request.requestId}`);
+    }
+  };
+
+  const duplicate = async () => {
+    try {
+      setDuplicating(true);
+      const res = await fetch(`/api/requests/${requestId}/duplicate`, { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to duplicate request');
+      const created = json.data as Request;
+      showUndo(`Duplicated as ${created.requestId}`);
+      router.push(`/requests/${created.requestId}`);
+    } catch (e: unknown) {
+      setExternalNotice(e instanceof Error ? e.message : 'Failed to duplicate request');
+    } finally {
+      setDuplicating(false);
+    }
+  };
+
+  // Straight on to the template, where placeholders can be added
+  const templateSaved = (template: RequestTemplate) => {
+    setShowSaveTemplate(false);
+    router.push(`/templates/${template.id}`);
+  };
+
+  const takeTheirs = async () => {
+    setConflict(null);
+    await load(requestId);
+  };
+
   const cancel = () => {
     if (request) {
       setOriginalRequest(request.originalRequest);
@@ -127,8 +295,68 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
       setRequestId(id);
       load(id);
     });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [params]);
 
+  // An empty value clears the request's own policy so the global one applies
+  const changePolicy = async (policy: CompletionPolicy | '') => {
+    try {
+      setSaving(true);
+      const res = await fetch(`/api/requests/${requestId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(etag ? { 'If-Match': etag } : {})
+        },
+        body: JSON.stringify({ completionPolicy: policy || null })
+      });
+      if (res.status === 412) {
+        throw new Error('This request changed since you opened it. Reload it before changing its completion policy.');
+      }
+      if (!res.ok) throw new Error('Failed to change completion policy');
+      showUndo('Completion policy changed');
+      await load(requestId);
+    } catch (e: unknown) {
+      setExternalNotice(e instanceof Error ? e.message : 'Failed to change completion policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasChanges = !!request && (
+    originalRequest !== request.originalRequest ||
+    splitDetails !== request.splitDetails ||
+    completed !== request.completed
+  );
+
+  // Pick up changes made elsewhere (MCP agent, other tabs) without losing unsaved input
+  useDataEvents(async (event) => {
+    const change = event.requests.find(r => r.requestId === requestId);
+    if (!change || !request) return;
+
+    if (change.change === 'removed') {
+      setExternalNotice('This request was deleted elsewhere.');
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/requests/${requestId}`, { cache: 'no-store' });
+      if (!res.ok) return;
+      const json = await res.json();
+      const data = json.data as Request;
+
+      if (hasChanges) {
+        // Keep the form and its original version so saving goes through the conflict dialog
+        setTasks(data.tasks || []);
+        setExternalNotice('This request was changed elsewhere. Your unsaved edits are kept; saving will let you merge them.');
+      } else {
+        applyRequest(data, res.headers.get('ETag'));
+      }
+    } catch (e: unknown) {
+      console.error('Failed to refresh request after change:', e);
+    }
+  });
+
   if (loading) {
     return (
       <div className="flex items-center gap-2">
@@ -153,11 +381,6 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
 
   if (!request) return null;
 
-  const hasChanges = 
-    originalRequest !== request.originalRequest ||
-    splitDetails !== request.splitDetails ||
-    completed !== request.completed;
-
   const completedTasks = tasks.filter(t => t.done).length;
   const approvedTasks = tasks.filter(t => t.approved).length;
   const completionPct = tasks.length > 0 ? Math.round((completedTasks / tasks.length) * 100) : 0;
@@ -171,16 +394,56 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
           <div className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
             {tasks.length} tasks • {completionPct}% complete • {approvalPct}% approved
           </div>
+          <Timestamps record={request} />
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={duplicate}
+            disabled={duplicating}
+            title="Copy this request with its tasks not started"
+            className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700 disabled:opacity-50"
+          >
+            {duplicating ? 'Duplicating...' : 'Duplicate'}
+          </button>
+          <button
+            onClick={() => setShowSaveTemplate(true)}
+            className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700"
+          >
+            Save as Template
+          </button>
+          <button
+            onClick={() => setShowMerge(true)}
+            disabled={hasChanges}
+            title={hasChanges ? 'Save or cancel your edits first' : 'Merge other requests into this one, or this one into another'}
+            className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700 disabled:opacity-50"
+          >
+            Merge...
+          </button>
+          <button 
+            onClick={() => router.push('/requests')}
+            className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700"
+          >
+            Back to Requests
+          </button>
         </div>
-        <button 
-          onClick={() => router.push('/requests')}
-          className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700"
-        >
-          Back to Requests
-        </button>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {externalNotice && (
+        <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-200">
+          {externalNotice}
+        </div>
+      )}
+
+      <Tabs
+        tabs={[{ id: 'details', label: 'Details' }, { id: 'versions', label: 'Versions' }, { id: 'history', label: 'History' }]}
+        active={tab}
+        onChange={setTab}
+      />
+
+      {tab === 'versions' && <VersionList requestId={request.requestId} />}
+      {tab === 'history' && <HistoryList requestId={request.requestId} />}
+
+      {tab === 'details' && <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="space-y-4">
           <h2 className="text-lg font-semibold">Request Details</h2>
           
@@ -199,16 +462,44 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
             rows={6}
           />
           
-          <Checkbox
-            label="Mark as completed"
-            checked={completed}
-            onChange={(e) => setCompleted(e.target.checked)}
-          />
+          <div className="space-y-2">
+            <label className="block text-sm" htmlFor="completion-policy">
+              <div className="mb-1 text-neutral-700 dark:text-neutral-300">Completion</div>
+              <select
+                id="completion-policy"
+                value={request.completionPolicy ?? ''}
+                onChange={(e) => changePolicy(e.target.value as CompletionPolicy | '')}
+                disabled={saving || hasChanges}
+                title={hasChanges ? 'Save or cancel your edits first' : undefined}
+                className="h-8 px-2 rounded border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-sm disabled:opacity-50"
+              >
+                <option value="">
+                  Default{completion?.inherited ? ` (${POLICY_LABELS[completion.policy].toLowerCase()})` : ''}
+                </option>
+                {(Object.keys(POLICY_LABELS) as CompletionPolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+            </label>
+            <Checkbox
+              label="Mark as completed"
+              checked={completed}
+              disabled={completion?.managed}
+              onChange={(e) => setCompleted(e.target.checked)}
+            />
+            {completion?.managed && (
+              <div className="text-xs text-neutral-500">
+                Completed automatically {POLICY_LABELS[completion.policy].toLowerCase()}: {completion.reason}.
+              </div>
+            )}
+          </div>
+
+          {request && <ExtraFields record={request} knownFields={KNOWN_FIELDS.REQUEST} />}
 
           {hasChanges && (
             <div className="flex gap-2">
               <button
-                onClick={save}
+                onClick={() => save()}
                 disabled={saving}
                 className="px-4 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
               >
@@ -228,31 +519,125 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-lg font-semibold">Tasks ({tasks.length})</h2>
-            <button
-              onClick={() => setShowAddTaskModal(true)}
-              className="px-3 h-8 rounded-md bg-green-600 text-white hover:bg-green-700 text-sm"
-            >
-              Add Task
-            </button>
+            <div className="flex items-center gap-2">
+              {tasks.length > 0 && (
+                <button
+                  onClick={toggleTaskSelection}
+                  className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 text-sm"
+                >
+                  {selectingTasks ? 'Hide Selection' : 'Multi-Select'}
+                </button>
+              )}
+              <button
+                onClick={() => setShowAddTaskModal(true)}
+                className="px-3 h-8 rounded-md bg-green-600 text-white hover:bg-green-700 text-sm"
+              >
+                Add Task
+              </button>
+            </div>
           </div>
+
+          {selectingTasks && tasks.length > 0 && (
+            <div className="flex flex-wrap items-start gap-2">
+              <button
+                onClick={() => setSelectedTaskIds(selectedTaskIds.size === tasks.length ? new Set() : new Set(tasks.map(task => task.id)))}
+                className="text-sm px-3 py-1 rounded border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800"
+              >
+                {selectedTaskIds.size === tasks.length ? 'Deselect All' : 'Select All'}
+              </button>
+              <button
+                onClick={() => setShowSplit(true)}
+                disabled={selectedTaskIds.size === 0 || selectedTaskIds.size === tasks.length || hasChanges}
+                title="Move the selected tasks into a new request"
+                className="text-sm px-3 py-1 rounded border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 disabled:opacity-50"
+              >
+                Split Off
+              </button>
+              <TaskBatchActions
+                requestId={request.requestId}
+                selectedIds={Array.from(selectedTaskIds)}
+                onComplete={taskBatchComplete}
+              />
+            </div>
+          )}
+
+          {taskFailures.length > 0 && (
+            <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-200">
+              <div className="flex items-start justify-between gap-2">
+                <div>{taskFailures.length} selected task{taskFailures.length > 1 ? 's were' : ' was'} left unchanged:</div>
+                <button onClick={() => setTaskFailures([])} aria-label="Dismiss" className="shrink-0">×</button>
+              </div>
+              <ul className="mt-1 list-disc pl-5">
+                {taskFailures.map((item, index) => (
+                  <li key={index}>{'taskId' in item.operation ? item.operation.taskId : item.operation.requestId}: {item.error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
           
           {tasks.length === 0 ? (
             <div className="text-center py-8 text-neutral-500">
               No tasks yet. Click &quot;Add Task&quot; to create one.
             </div>
           ) : (
-            <div className="space-y-3">
-              {tasks.map((task) => (
+            <SortableTaskList
+              tasks={tasks}
+              onReorder={reorderTasks}
+              disabled={reordering || hasChanges}
+              renderTask={(task) => (
                 <TaskCard
-                  key={task.id}
                   task={task}
                   requestId={request.requestId}
+                  showCheckbox={selectingTasks}
+                  isSelected={selectedTaskIds.has(task.id)}
+                  onSelectToggleAction={toggleTask}
                 />
-              ))}
-            </div>
+              )}
+            />
           )}
         </div>
-      </div>
+      </div>}
+
+      {conflict && (
+        <ConflictDialog
+          open
+          fields={CONFLICT_FIELDS}
+          base={{ ...request }}
+          mine={{ originalRequest, splitDetails, completed }}
+          theirs={{ ...conflict.theirs }}
+          resolving={saving}
+          onKeepMine={() => save({ originalRequest, splitDetails, completed }, conflict.etag)}
+          onTakeTheirs={takeTheirs}
+          onMerge={(merged) => save({
+            originalRequest: merged.originalRequest as string,
+            splitDetails: merged.splitDetails as string,
+            completed: merged.completed as boolean
+          }, conflict.etag)}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
+      <SplitRequestDialog
+        open={showSplit}
+        request={request}
+        taskIds={tasks.filter(task => selectedTaskIds.has(task.id)).map(task => task.id)}
+        onSplit={splitDone}
+        onCancel={() => setShowSplit(false)}
+      />
+
+      <MergeRequestsDialog
+        open={showMerge}
+        requestIds={[request.requestId]}
+        onMerged={mergeDone}
+        onCancel={() => setShowMerge(false)}
+      />
+
+      <SaveTemplateDialog
+        open={showSaveTemplate}
+        request={request}
+        onSaved={templateSaved}
+        onCancel={() => setShowSaveTemplate(false)}
+      />
 
       {/* Add Task Modal */}
       {showAddTaskModal && (
@@ -288,6 +673,25 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
                 rows={4}
                 disabled={addingTask}
               />
+
+              {tasks.length > 0 && (
+                <label className="block text-sm" htmlFor="task-position">
+                  <div className="mb-1 text-neutral-700 dark:text-neutral-300">Position</div>
+                  <select
+                    id="task-position"
+                    value={taskPosition}
+                    onChange={(e) => setTaskPosition(e.target.value)}
+                    disabled={addingTask}
+                    className="w-full h-9 px-2 rounded border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900"
+                  >
+                    <option value="">At the end</option>
+                    <option value="0">At the top</option>
+                    {tasks.slice(0, -1).map((task, index) => (
+                      <option key={task.id} value={index + 1}>After {task.id}: {task.title}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
             </div>
             
             <div className="p-4 border-t border-neutral-200 dark:border-neutral-800 flex justify-end gap-2">
@@ -296,6 +700,7 @@ export default function RequestDetailPage({ params }: { params: Promise<{ id: st
                   setShowAddTaskModal(false);
                   setTaskTitle('');
                   setTaskDescription('');
+                  setTaskPosition('');
                   setError(null);
                 }}
                 disabled={addingTask}
@@ -4,7 +4,35 @@ import { useRouter } from 'next/navigation';
 import { TextInput, TextArea, Checkbox } from '@/components/form/inputs';
 import Spinner from '@/components/common/Spinner';
 import { ConfirmDialog } from '@/components/common/ConfirmDialog';
-import type { Task } from '@/types';
+import { ConflictDialog } from '@/components/common/ConflictDialog';
+import { ExtraFields } from '@/components/common/ExtraFields';
+import { Timestamps } from '@/components/common/Timestamps';
+import { Tabs } from '@/components/common/Tabs';
+import { HistoryList } from '@/components/common/HistoryList';
+import { VersionList } from '@/components/common/VersionList';
+import { ReviewFeedbackList } from '@/components/common/ReviewFeedbackList';
+import { RequestPicker } from '@/components/common/RequestPicker';
+import { useDataEvents } from '@/hooks/useDataEvents';
+import { useUndoToast } from '@/components/common/UndoToast';
+import { API_ENDPOINTS, KNOWN_FIELDS } from '@/constants';
+import { STATUS_LABELS } from '@/components/common/StatusChip';
+import { STATUS_FLAGS, TASK_STATUSES, statusFromFlags, taskStatus } from '@/utils/taskStatus';
+import type { Task, TaskFormData, TaskStatus, TaskTransferResult, WorkflowRules } from '@/types';
+
+const CONFLICT_FIELDS = [
+  { key: 'title', label: 'Title' },
+  { key: 'description', label: 'Description' },
+  { key: 'done', label: 'Done' },
+  { key: 'approved', label: 'Approved' },
+  { key: 'completedDetails', label: 'Completed Details' },
+  { key: 'status', label: 'Status' },
+  { key: 'blockedReason', label: 'Blocked Reason' }
+];
+
+// A task as the form sees it, with its status derived for tasks that don't store one
+function conflictValues(task: Task): Record<string, unknown> {
+  return { ...task, status: taskStatus(task), blockedReason: task.blockedReason ?? '' };
+}
 
 export default function TaskEditPage({ 
   params 
@@ -12,6 +40,7 @@ export default function TaskEditPage({
   params: Promise<{ id: string; taskId: string }> 
 }) {
   const router = useRouter();
+  const { showUndo } = useUndoToast();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -19,6 +48,12 @@ export default function TaskEditPage({
   const [requestId, setRequestId] = useState<string>('');
   const [taskId, setTaskId] = useState<string>('');
   const [confirmDelete, setConfirmDelete] = useState(false);
+  const [etag, setEtag] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<{ theirs: Task; etag: string | null } | null>(null);
+  const [externalNotice, setExternalNotice] = useState<string | null>(null);
+  const [tab, setTab] = useState<'details' | 'versions' | 'history'>('details');
+  const [rules, setRules] = useState<WorkflowRules | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
   
   // Form state
   const [title, setTitle] = useState('');
@@ -26,6 +61,23 @@ export default function TaskEditPage({
   const [done, setDone] = useState(false);
   const [approved, setApproved] = useState(false);
   const [completedDetails, setCompletedDetails] = useState('');
+  const [status, setStatus] = useState<TaskStatus>('pending');
+  const [blockedReason, setBlockedReason] = useState('');
+  const [transferTarget, setTransferTarget] = useState('');
+  const [tombstone, setTombstone] = useState(true);
+
+  const applyTask = (data: Task, version: string | null) => {
+    setEtag(version);
+    setTask(data);
+    setTitle(data.title);
+    setDescription(data.description);
+    setDone(data.done);
+    setApproved(data.approved);
+    setCompletedDetails(data.completedDetails);
+    setStatus(taskStatus(data));
+    setBlockedReason(data.blockedReason ?? '');
+    setExternalNotice(null);
+  };
 
   const load = async (requestId: string, taskId: string) => {
     try {
@@ -39,13 +91,7 @@ export default function TaskEditPage({
         throw new Error('Failed to load task');
       }
       const json = await res.json();
-      const data = json.data as Task;
-      setTask(data);
-      setTitle(data.title);
-      setDescription(data.description);
-      setDone(data.done);
-      setApproved(data.approved);
-      setCompletedDetails(data.completedDetails);
+      applyTask(json.data as Task, res.headers.get('ETag'));
       setError(null);
     } catch (e: any) {
       setError(e.message || 'Error loading task');
@@ -54,21 +100,43 @@ export default function TaskEditPage({
     }
   };
 
-  const save = async () => {
+  const formValues = (): TaskFormData => ({
+    title,
+    description,
+    done,
+    approved,
+    completedDetails,
+    status,
+    ...(status === 'blocked' && { blockedReason: blockedReason.trim() })
+  });
+
+  const save = async (values: TaskFormData = formValues(), ifMatch: string | null = etag) => {
     try {
       setSaving(true);
       const res = await fetch(`/api/requests/${requestId}/tasks/${taskId}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          title,
-          description,
-          done,
-          approved,
-          completedDetails
-        })
+        headers: {
+          'Content-Type': 'application/json',
+          ...(ifMatch ? { 'If-Match': ifMatch } : {})
+        },
+        body: JSON.stringify(values)
       });
+      if (res.status === 412) {
+        // Someone else saved first: keep the form as-is and let the user resolve it
+        const json = await res.json();
+        setConflict({ theirs: json.data as Task, etag: res.headers.get('ETag') });
+        return;
+      }
+      if (res.status === 422) {
+        // A workflow rule blocked the change: keep the form so it can be fixed
+        const json = await res.json();
+        setSaveError(json.error || 'This change breaks a workflow rule');
+        return;
+      }
       if (!res.ok) throw new Error('Failed to save task');
+      setConflict(null);
+      setSaveError(null);
+      showUndo('Task saved');
       await load(requestId, taskId); // Reload to get updated data
     } catch (e: any) {
       setError(e.message || 'Failed to save');
@@ -81,9 +149,14 @@ export default function TaskEditPage({
     try {
       setSaving(true);
       const res = await fetch(`/api/requests/${requestId}/tasks/${taskId}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: etag ? { 'If-Match': etag } : undefined
       });
+      if (res.status === 412) {
+        throw new Error('This task changed since you opened it. Reload it before deleting.');
+      }
       if (!res.ok) throw new Error('Failed to delete task');
+      showUndo(`Deleted task ${taskId}`);
       router.push(`/requests/${requestId}`);
     } catch (e: any) {
       setError(e.message || 'Failed to delete');
@@ -93,6 +166,37 @@ export default function TaskEditPage({
     }
   };
 
+  const transfer = async (mode: 'move' | 'copy') => {
+    try {
+      setSaving(true);
+      setSaveError(null);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (mode === 'move' && etag) headers['If-Match'] = etag;
+      const res = await fetch(`/api/requests/${requestId}/tasks/${taskId}/${mode}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(mode === 'move' ? { toRequestId: transferTarget, tombstone } : { toRequestId: transferTarget })
+      });
+      const json = await res.json();
+      if (res.status === 412) {
+        throw new Error('This task changed since you opened it. Reload it before moving.');
+      }
+      if (!res.ok) throw new Error(json.error || `Failed to ${mode} task`);
+      const result = json.data as TaskTransferResult;
+      showUndo(json.message || (mode === 'move' ? 'Task moved' : 'Task copied'));
+      router.push(`/requests/${result.requestId}/tasks/${result.task.id}`);
+    } catch (e: unknown) {
+      setSaveError(e instanceof Error ? e.message : `Failed to ${mode} task`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const takeTheirs = async () => {
+    setConflict(null);
+    await load(requestId, taskId);
+  };
+
   const cancel = () => {
     if (task) {
       setTitle(task.title);
@@ -100,6 +204,8 @@ export default function TaskEditPage({
       setDone(task.done);
       setApproved(task.approved);
       setCompletedDetails(task.completedDetails);
+      setStatus(taskStatus(task));
+      setBlockedReason(task.blockedReason ?? '');
     }
   };
 
@@ -108,7 +214,9 @@ export default function TaskEditPage({
     description !== task.description ||
     done !== task.done ||
     approved !== task.approved ||
-    completedDetails !== task.completedDetails
+    completedDetails !== task.completedDetails ||
+    status !== taskStatus(task) ||
+    (status === 'blocked' && blockedReason !== (task.blockedReason ?? ''))
   );
 
   useEffect(() => {
@@ -117,8 +225,70 @@ export default function TaskEditPage({
       setTaskId(taskId);
       load(id, taskId);
     });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [params]);
 
+  useEffect(() => {
+    fetch(API_ENDPOINTS.WORKFLOW, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(json => setRules(json.data as WorkflowRules))
+      .catch((e: unknown) => console.error('Failed to load workflow rules:', e));
+  }, []);
+
+  // Checkboxes that would break a workflow rule are disabled, with the reason
+  const doneBlocked = !!rules?.doneRequiresDetails && !done && !completedDetails.trim()
+    ? 'Add completed details before marking the task done'
+    : null;
+  const approveBlocked = !!rules?.approveRequiresDone && !approved && !done
+    ? 'A task must be done before it can be approved'
+    : null;
+
+  // Status and the done/approved checkboxes stay in step: each status stands for a pair of flags
+  const changeStatus = (next: TaskStatus) => {
+    setStatus(next);
+    setDone(STATUS_FLAGS[next].done);
+    setApproved(STATUS_FLAGS[next].approved);
+  };
+
+  const changeDone = (checked: boolean) => {
+    const clearApproval = !checked && !!rules?.undoneClearsApproval;
+    setDone(checked);
+    if (clearApproval) {
+      setApproved(false);
+    }
+    setStatus(statusFromFlags({ done: checked, approved: clearApproval ? false : approved }));
+  };
+
+  const changeApproved = (checked: boolean) => {
+    setApproved(checked);
+    setStatus(statusFromFlags({ done, approved: checked }));
+  };
+
+  // Pick up changes made elsewhere (MCP agent, other tabs) without losing unsaved input
+  useDataEvents(async (event) => {
+    const change = event.requests.find(r => r.requestId === requestId);
+    if (!change || !task || !change.taskIds.includes(taskId)) return;
+
+    try {
+      const res = await fetch(`/api/requests/${requestId}/tasks/${taskId}`, { cache: 'no-store' });
+      if (res.status === 404) {
+        setExternalNotice('This task was deleted elsewhere.');
+        return;
+      }
+      if (!res.ok) return;
+      const json = await res.json();
+
+      if (hasChanges) {
+        // Keep the form and its original version so saving goes through the conflict dialog
+        setExternalNotice('This task was changed elsewhere. Your unsaved edits are kept; saving will let you merge them.');
+      } else {
+        applyTask(json.data as Task, res.headers.get('ETag'));
+      }
+    } catch (e: unknown) {
+      console.error('Failed to refresh task after change:', e);
+    }
+  });
+
   if (loading) {
     return (
       <div className="flex items-center gap-2">
@@ -154,6 +324,7 @@ export default function TaskEditPage({
           <div className="text-sm text-neutral-600 dark:text-neutral-400">
             Request {requestId}
           </div>
+          {task && <Timestamps record={task} />}
         </div>
         <button 
           onClick={() => router.push(`/requests/${requestId}`)}
@@ -163,8 +334,23 @@ export default function TaskEditPage({
         </button>
       </div>
 
+      {externalNotice && (
+        <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-200">
+          {externalNotice}
+        </div>
+      )}
+
+      <Tabs
+        tabs={[{ id: 'details', label: 'Details' }, { id: 'versions', label: 'Versions' }, { id: 'history', label: 'History' }]}
+        active={tab}
+        onChange={setTab}
+      />
+
+      {tab === 'versions' && <VersionList requestId={requestId} taskId={taskId} />}
+      {tab === 'history' && <HistoryList requestId={requestId} taskId={taskId} />}
+
       {/* Task Details Form */}
-      <div className="space-y-6">
+      {tab === 'details' && <div className="space-y-6">
         <div>
           <h2 className="text-lg font-semibold mb-4">Task Details</h2>
           
@@ -183,20 +369,55 @@ export default function TaskEditPage({
               rows={4}
               required
             />
+
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="block text-sm" htmlFor="task-status">
+                <div className="mb-1 text-neutral-700 dark:text-neutral-300">Status</div>
+                <select
+                  id="task-status"
+                  value={status}
+                  onChange={(e) => changeStatus(e.target.value as TaskStatus)}
+                  className="h-9 px-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900"
+                >
+                  {TASK_STATUSES.map(option => (
+                    <option key={option} value={option}>{STATUS_LABELS[option]}</option>
+                  ))}
+                </select>
+              </label>
+              {status === 'blocked' && (
+                <TextInput
+                  id="blocked-reason"
+                  label="Blocked because"
+                  className="flex-1"
+                  value={blockedReason}
+                  onChange={(e) => setBlockedReason(e.target.value)}
+                  placeholder="e.g. Waiting for the API key"
+                />
+              )}
+            </div>
             
             <div className="flex gap-4">
               <Checkbox
                 label="Mark as done"
                 checked={done}
-                onChange={(e) => setDone(e.target.checked)}
+                disabled={!!doneBlocked}
+                title={doneBlocked ?? undefined}
+                onChange={(e) => changeDone(e.target.checked)}
               />
               
               <Checkbox
                 label="Mark as approved"
                 checked={approved}
-                onChange={(e) => setApproved(e.target.checked)}
+                disabled={!!approveBlocked}
+                title={approveBlocked ?? undefined}
+                onChange={(e) => changeApproved(e.target.checked)}
               />
             </div>
+            {(doneBlocked || approveBlocked) && (
+              <div className="text-xs text-neutral-500">
+                {[doneBlocked, approveBlocked].filter(Boolean).join('. ')}.
+              </div>
+            )}
             
             <TextArea
               label="Completed Details"
@@ -205,13 +426,23 @@ export default function TaskEditPage({
               rows={6}
               placeholder="Add details about task completion..."
             />
+
+            {task && <ReviewFeedbackList feedback={task.reviewFeedback} />}
+
+            {task && <ExtraFields record={task} knownFields={KNOWN_FIELDS.TASK} />}
           </div>
         </div>
 
+        {saveError && (
+          <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+            {saveError}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center gap-3">
           <button
-            onClick={save}
+            onClick={() => save()}
             disabled={saving || !hasChanges}
             className="px-4 h-10 bg-blue-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -234,13 +465,72 @@ export default function TaskEditPage({
             Delete Task
           </button>
         </div>
-      </div>
+
+        <div className="space-y-2 border-t border-neutral-200 dark:border-neutral-800 pt-4">
+          <h2 className="text-lg font-semibold">Move or Copy</h2>
+          <div className="flex flex-wrap items-center gap-3">
+            <RequestPicker
+              value={transferTarget}
+              onChange={setTransferTarget}
+              placeholder="Move to…"
+              className="text-sm max-w-72"
+            />
+            <Checkbox
+              label="Leave a note in this request"
+              checked={tombstone}
+              onChange={(e) => setTombstone(e.target.checked)}
+            />
+            <button
+              onClick={() => transfer('move')}
+              disabled={saving || hasChanges || !transferTarget || transferTarget === requestId}
+              className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 text-sm disabled:opacity-50"
+            >
+              Move
+            </button>
+            <button
+              onClick={() => transfer('copy')}
+              disabled={saving || hasChanges || !transferTarget}
+              className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 text-sm disabled:opacity-50"
+            >
+              Copy
+            </button>
+          </div>
+          <div className="text-xs text-neutral-500">
+            {hasChanges
+              ? 'Save or cancel your changes first.'
+              : 'The task gets the next free id in the target request; copies start out with fresh timestamps.'}
+          </div>
+        </div>
+      </div>}
+
+      {conflict && (
+        <ConflictDialog
+          open
+          fields={CONFLICT_FIELDS}
+          base={conflictValues(task)}
+          mine={{ ...formValues(), blockedReason: blockedReason.trim() }}
+          theirs={conflictValues(conflict.theirs)}
+          resolving={saving}
+          onKeepMine={() => save(formValues(), conflict.etag)}
+          onTakeTheirs={takeTheirs}
+          onMerge={(merged) => save({
+            title: merged.title as string,
+            description: merged.description as string,
+            done: merged.done as boolean,
+            approved: merged.approved as boolean,
+            completedDetails: merged.completedDetails as string,
+            status: merged.status as TaskStatus,
+            ...(merged.status === 'blocked' && { blockedReason: merged.blockedReason as string })
+          }, conflict.etag)}
+          onCancel={() => setConflict(null)}
+        />
+      )}
 
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         open={confirmDelete}
         title="Delete task?"
-        description="This will permanently remove the task. This action cannot be undone."
+        description="The task will be moved to the trash, where it can be restored."
         confirmText="Delete"
         onConfirm={deleteTask}
         onCancel={() => setConfirmDelete(false)}
@@ -1,11 +1,15 @@
 'use client';
 import RequestCard from '@/components/cards/RequestCard';
 import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { MergeRequestsDialog } from '@/components/common/MergeRequestsDialog';
+import { useUndoToast } from '@/components/common/UndoToast';
 import { ErrorDisplay, getErrorMessage } from '@/components/ErrorDisplay';
 import { FallbackUI } from '@/components/FallbackUI';
 import { useAsyncOperation } from '@/hooks/useErrorHandler';
+import { useDataEvents } from '@/hooks/useDataEvents';
 import { useEffect, useMemo, useState } from 'react';
-import type { RequestSummary } from '@/types';
+import { API_ENDPOINTS } from '@/constants';
+import type { BulkItemResult, BulkOperation, BulkResult, RequestSummary } from '@/types';
 
 export const dynamic = 'force-dynamic';
 
@@ -40,6 +44,9 @@ export default function RequestsPage() {
   const [selectedRequestIds, setSelectedRequestIds] = useState<Set<string>>(new Set());
   const [showBulkActions, setShowBulkActions] = useState(false);
   const [confirmBulkDelete, setConfirmBulkDelete] = useState(false);
+  const [bulkFailures, setBulkFailures] = useState<BulkItemResult[]>([]);
+  const [showMerge, setShowMerge] = useState(false);
+  const { showUndo } = useUndoToast();
   
   // Use the error handling hook for the main data loading
   const { 
@@ -57,20 +64,31 @@ export default function RequestsPage() {
     clearError: clearDeleteError
   } = useAsyncOperation<void>();
 
+  // Use the error handling hook for bulk actions
+  const {
+    isLoading: bulkRunning,
+    error: bulkError,
+    execute: executeBulk,
+    clearError: clearBulkError
+  } = useAsyncOperation<BulkResult>();
+
+  const buildParams = () => {
+    const params: Record<string, string | number | boolean> = { 
+      page,
+      limit: pageSize,
+      sortBy, 
+      sortOrder 
+    };
+    
+    if (query) params.query = query;
+    if (completed !== 'all') params.completed = completed === 'true';
+    return params;
+  };
+
   const load = async () => {
     clearError();
     try {
-      const params: Record<string, string | number | boolean> = { 
-        page,
-        limit: pageSize,
-        sortBy, 
-        sortOrder 
-      };
-      
-      if (query) params.query = query;
-      if (completed !== 'all') params.completed = completed === 'true';
-      
-      const data = await loadRequests(() => fetchRequests(params));
+      const data = await loadRequests(() => fetchRequests(buildParams()));
       setRequests(data.requests);
       setPagination(data.pagination);
     } catch (error) {
@@ -84,6 +102,23 @@ export default function RequestsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [page, pageSize, sortBy, sortOrder, completed]);
 
+  // Refresh quietly (no loading state) when tasks.json changes underneath us
+  useDataEvents(async (event) => {
+    try {
+      const data = await fetchRequests(buildParams());
+      setRequests(data.requests);
+      setPagination(data.pagination);
+
+      // Drop selections for requests that no longer exist
+      const removed = new Set(event.requests.filter(r => r.change === 'removed').map(r => r.requestId));
+      if (removed.size > 0) {
+        setSelectedRequestIds(prev => new Set([...prev].filter(id => !removed.has(id))));
+      }
+    } catch (error) {
+      console.error('Failed to refresh requests after change:', error);
+    }
+  });
+
   useEffect(() => {
     // Reset to page 1 when search query changes
     if (page !== 1) {
@@ -111,6 +146,7 @@ export default function RequestsPage() {
           throw new Error(`Failed to delete request: ${errorText}`);
         }
       });
+      showUndo(`Deleted request ${confirmId}`);
       
       // If successful, reload the data
       await load();
@@ -142,99 +178,61 @@ export default function RequestsPage() {
     }
   };
 
-  const handleBulkDelete = async () => {
-    if (selectedRequestIds.size === 0) return;
-    
-    console.log('🗑️ BULK DELETE START', {
-      selectedCount: selectedRequestIds.size,
-      selectedIds: Array.from(selectedRequestIds),
-      currentRequestCount: requests.length
-    });
-    
-    clearDeleteError();
-    
+  // Bulk actions run server-side as one transaction, so a single undo reverts them
+  const runBulk = async (operations: BulkOperation[], pastTense: string) => {
+    clearBulkError();
+    setBulkFailures([]);
     try {
-      await executeDelete(async () => {
-        console.log('🔄 Starting sequential deletion requests...');
-        
-        // Delete all selected requests sequentially to avoid race conditions
-        const selectedIds = Array.from(selectedRequestIds);
-        const results: Array<{status: 'fulfilled', value: {id: string, response: Response}} | {status: 'rejected', reason: any}> = [];
-        
-        for (let index = 0; index < selectedIds.length; index++) {
-          const id = selectedIds[index];
-          console.log(`🎯 [${index + 1}/${selectedIds.length}] Deleting ${id} sequentially...`);
-          
-          try {
-            const response = await fetch(`/api/requests/${id}`, { method: 'DELETE' });
-            console.log(`📡 [${index + 1}/${selectedIds.length}] Response for ${id}:`, {
-              status: response.status,
-              statusText: response.statusText,
-              ok: response.ok
-            });
-            
-            results.push({
-              status: 'fulfilled',
-              value: { id, response }
-            });
-          } catch (error) {
-            console.log(`❌ [${index + 1}/${selectedIds.length}] Error deleting ${id}:`, error);
-            results.push({
-              status: 'rejected',
-              reason: error
-            });
-          }
-        }
-        
-        console.log('✅ Sequential deletion completed');
-        
-        console.log('📊 Sequential deletion results:', results.map((result, index) => ({
-          index: index + 1,
-          status: result.status,
-          id: selectedIds[index],
-          value: result.status === 'fulfilled' ? {
-            id: result.value.id,
-            responseOk: result.value.response.ok,
-            responseStatus: result.value.response.status
-          } : undefined,
-          reason: result.status === 'rejected' ? result.reason : undefined
-        })));
-        
-        // Check if any requests failed to delete
-        const failures = results.filter(result => result.status === 'rejected');
-        const httpFailures = results.filter(result => 
-          result.status === 'fulfilled' && !result.value.response.ok
-        );
-        
-        console.log('❌ Failures summary:', {
-          rejectedPromises: failures.length,
-          httpFailures: httpFailures.length,
-          totalFailures: failures.length + httpFailures.length
+      const result = await executeBulk(async () => {
+        const res = await fetch(API_ENDPOINTS.BULK, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ operations })
         });
-        
-        if (failures.length > 0 || httpFailures.length > 0) {
-          throw new Error(`Failed to delete ${failures.length + httpFailures.length} request(s)`);
-        }
-        
-        console.log('✅ All sequential deletions completed successfully');
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Bulk action failed');
+        return json.data as BulkResult;
       });
-      
-      console.log('🔄 Clearing selection and reloading data...');
-      
-      // If successful, clear selection and reload data
-      setSelectedRequestIds(new Set());
-      setShowBulkActions(false);
+
+      if (result.succeeded > 0) {
+        showUndo(`${pastTense} ${result.succeeded} request${result.succeeded > 1 ? 's' : ''}`);
+      }
+
+      // Keep the requests that couldn't be changed selected, so they can be retried
+      const failures = result.results.filter(item => !item.ok);
+      setBulkFailures(failures);
+      setSelectedRequestIds(new Set(failures.map(item => item.operation.requestId)));
+      if (failures.length === 0) {
+        setShowBulkActions(false);
+      }
       await load();
-      
-      console.log('🎉 Bulk delete operation completed successfully');
     } catch (error) {
       // Error is handled by the hook
-      console.error('Failed to delete requests:', error);
-    } finally {
-      setConfirmBulkDelete(false);
+      console.error('Bulk action failed:', error);
     }
   };
 
+  const handleBulkDelete = async () => {
+    if (selectedRequestIds.size === 0) return;
+    await runBulk(Array.from(selectedRequestIds, requestId => ({ type: 'deleteRequest', requestId })), 'Deleted');
+    setConfirmBulkDelete(false);
+  };
+
+  const handleBulkComplete = async () => {
+    if (selectedRequestIds.size === 0) return;
+    await runBulk(
+      Array.from(selectedRequestIds, requestId => ({ type: 'completeRequest', requestId, completed: true })),
+      'Completed'
+    );
+  };
+
+  const handleMerged = async () => {
+    setShowMerge(false);
+    setSelectedRequestIds(new Set());
+    setShowBulkActions(false);
+    await load();
+  };
+
   const filtered = useMemo(() => {
     // Since we're now using server-side filtering, just return the requests as-is
     return requests;
@@ -289,6 +287,8 @@ export default function RequestsPage() {
               <option value="originalRequest">Title</option>
               <option value="completion">Completion %</option>
               <option value="tasks">Task Count</option>
+              <option value="created">Created</option>
+              <option value="updated">Last Updated</option>
             </select>
           </div>
 
@@ -373,12 +373,28 @@ export default function RequestsPage() {
                   <span className="text-sm text-neutral-600 dark:text-neutral-400">
                     {selectedRequestIds.size} selected
                   </span>
+                  <button
+                    onClick={handleBulkComplete}
+                    disabled={bulkRunning}
+                    className="text-sm px-3 py-1 rounded border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 disabled:opacity-50"
+                  >
+                    Mark Complete
+                  </button>
+                  {selectedRequestIds.size > 1 && (
+                    <button
+                      onClick={() => setShowMerge(true)}
+                      disabled={bulkRunning}
+                      className="text-sm px-3 py-1 rounded border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 disabled:opacity-50"
+                    >
+                      Merge
+                    </button>
+                  )}
                   <button
                     onClick={() => setConfirmBulkDelete(true)}
-                    disabled={deleting}
+                    disabled={bulkRunning}
                     className="text-sm px-3 py-1 rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
                   >
-                    {deleting ? 'Deleting...' : 'Delete Selected'}
+                    {bulkRunning && confirmBulkDelete ? 'Deleting...' : 'Delete Selected'}
                   </button>
                 </div>
               )}
@@ -397,6 +413,29 @@ export default function RequestsPage() {
         />
       )}
 
+      {bulkError && (
+        <ErrorDisplay
+          error={bulkError}
+          title="Bulk action failed"
+          onDismiss={clearBulkError}
+          variant="error"
+        />
+      )}
+
+      {bulkFailures.length > 0 && (
+        <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-200">
+          <div className="flex items-start justify-between gap-2">
+            <div>{bulkFailures.length} selected request{bulkFailures.length > 1 ? 's were' : ' was'} left unchanged:</div>
+            <button onClick={() => setBulkFailures([])} aria-label="Dismiss" className="shrink-0">×</button>
+          </div>
+          <ul className="mt-1 list-disc pl-5">
+            {bulkFailures.map(item => (
+              <li key={item.operation.requestId}>{item.operation.requestId}: {item.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Main content with fallback UI */}
       <FallbackUI
         isLoading={loadingRequests}
@@ -424,7 +463,7 @@ export default function RequestsPage() {
       <ConfirmDialog
         open={!!confirmId}
         title="Delete request?"
-        description="This will permanently remove the request and all its tasks."
+        description="The request and all its tasks will be moved to the trash, where they can be restored."
         confirmText="Delete"
         confirmLoading={deleting}
         onConfirm={confirmDelete}
@@ -434,12 +473,19 @@ export default function RequestsPage() {
       <ConfirmDialog
         open={confirmBulkDelete}
         title={`Delete ${selectedRequestIds.size} request${selectedRequestIds.size > 1 ? 's' : ''}?`}
-        description="This will permanently remove the selected requests and all their tasks."
+        description="The selected requests and all their tasks will be moved to the trash, where they can be restored."
         confirmText="Delete All"
-        confirmLoading={deleting}
+        confirmLoading={bulkRunning}
         onConfirm={handleBulkDelete}
         onCancel={() => setConfirmBulkDelete(false)}
       />
+
+      <MergeRequestsDialog
+        open={showMerge}
+        requestIds={Array.from(selectedRequestIds)}
+        onMerged={handleMerged}
+        onCancel={() => setShowMerge(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,266 @@
+'use client';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import Spinner from '@/components/common/Spinner';
+import { TextArea } from '@/components/form/inputs';
+import { ReviewFeedbackList } from '@/components/common/ReviewFeedbackList';
+import { Timestamps } from '@/components/common/Timestamps';
+import { useDataEvents } from '@/hooks/useDataEvents';
+import { useUndoToast } from '@/components/common/UndoToast';
+import { API_ENDPOINTS } from '@/constants';
+import type { ReviewDecision, ReviewQueueItem } from '@/types';
+
+const SHORTCUTS = [
+  ['j / ↓', 'Next task'],
+  ['k / ↑', 'Previous task'],
+  ['a', 'Approve'],
+  ['r', 'Write feedback to reject'],
+  ['Ctrl+Enter', 'Reject with the feedback']
+] as const;
+
+function itemKey(item: ReviewQueueItem): string {
+  return `${item.requestId}/${item.task.id}`;
+}
+
+const FEEDBACK_ID = 'review-feedback';
+
+function feedbackInput(): HTMLTextAreaElement | null {
+  return document.getElementById(FEEDBACK_ID) as HTMLTextAreaElement | null;
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export default function ReviewPage() {
+  const { showUndo } = useUndoToast();
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [index, setIndex] = useState(0);
+  const [feedback, setFeedback] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = items.length > 0 ? items[Math.min(index, items.length - 1)] : null;
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(API_ENDPOINTS.REVIEW, { cache: 'no-store' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load the review queue');
+      setItems(json.data as ReviewQueueItem[]);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Error loading the review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useDataEvents(() => {
+    load();
+  });
+
+  const select = (next: number) => {
+    setIndex(Math.max(0, Math.min(next, items.length - 1)));
+    setFeedback('');
+  };
+
+  const review = async (decision: ReviewDecision) => {
+    if (!selected || busy) return;
+    if (decision === 'reject' && !feedback.trim()) {
+      setError('Write some feedback so the agent knows why the task was rejected');
+      feedbackInput()?.focus();
+      return;
+    }
+
+    try {
+      setBusy(true);
+      const { requestId, task } = selected;
+      const res = await fetch(`${API_ENDPOINTS.REQUESTS}/${encodeURIComponent(requestId)}/tasks/${encodeURIComponent(task.id)}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision === 'approve' ? { decision } : { decision, feedback: feedback.trim() })
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `Failed to ${decision} task`);
+      showUndo(json.message || (decision === 'approve' ? 'Task approved' : 'Task rejected'));
+      // The next task moves up into the same position
+      setFeedback('');
+      feedbackInput()?.blur();
+      setError(null);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : `Failed to ${decision} task`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reviewRef = useRef(review);
+  reviewRef.current = review;
+  const selectRef = useRef(select);
+  selectRef.current = select;
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey || isTyping(event.target)) return;
+      switch (event.key) {
+        case 'j':
+        case 'ArrowDown':
+          selectRef.current(index + 1);
+          break;
+        case 'k':
+        case 'ArrowUp':
+          selectRef.current(index - 1);
+          break;
+        case 'a':
+          reviewRef.current('approve');
+          break;
+        case 'r':
+          feedbackInput()?.focus();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [index]);
+
+  const onFeedbackKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      review('reject');
+    } else if (event.key === 'Escape') {
+      event.currentTarget.blur();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2">
+        <Spinner /> Loading review queue...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Review</h1>
+        <div className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+          {items.length} {items.length === 1 ? 'task' : 'tasks'} awaiting approval
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="text-sm text-neutral-500">Nothing to review. Tasks show up here once they are done and not yet approved.</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <ul className="space-y-2">
+            {items.map((item, position) => (
+              <li key={itemKey(item)}>
+                <button
+                  onClick={() => select(position)}
+                  className={`w-full text-left rounded-lg border p-3 bg-white dark:bg-neutral-900 text-sm ${selected && itemKey(selected) === itemKey(item) ? 'border-blue-500' : 'border-neutral-200 dark:border-neutral-800'}`}
+                >
+                  <div className="font-medium truncate">{item.task.title}</div>
+                  <div className="text-xs text-neutral-500 mt-1 truncate">
+                    {item.requestId} • {item.originalRequest}
+                  </div>
+                  {item.task.reviewFeedback && item.task.reviewFeedback.length > 0 && (
+                    <div className="text-xs text-red-600 mt-1">
+                      Rejected {item.task.reviewFeedback.length} {item.task.reviewFeedback.length === 1 ? 'time' : 'times'} before
+                    </div>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="lg:col-span-2 space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold">{selected.task.title}</h2>
+                <div className="text-sm text-neutral-600 dark:text-neutral-400">
+                  <Link href={`/requests/${selected.requestId}/tasks/${selected.task.id}`} className="hover:underline underline-offset-4">
+                    Task {selected.task.id}
+                  </Link>{' '}
+                  in{' '}
+                  <Link href={`/requests/${selected.requestId}`} className="hover:underline underline-offset-4">
+                    request {selected.requestId}
+                  </Link>
+                </div>
+                <Timestamps record={selected.task} />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <div className="text-sm text-neutral-700 dark:text-neutral-300">Description</div>
+                  <div className="rounded-md border border-neutral-200 dark:border-neutral-800 p-3 text-sm whitespace-pre-wrap min-h-24">
+                    {selected.task.description}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <div className="text-sm text-neutral-700 dark:text-neutral-300">Completed Details</div>
+                  <div className="rounded-md border border-neutral-200 dark:border-neutral-800 p-3 text-sm whitespace-pre-wrap min-h-24">
+                    {selected.task.completedDetails.trim() || <span className="text-neutral-500">No details were given.</span>}
+                  </div>
+                </div>
+              </div>
+
+              <ReviewFeedbackList feedback={selected.task.reviewFeedback} />
+
+              <TextArea
+                id={FEEDBACK_ID}
+                label="Feedback"
+                value={feedback}
+                onChange={(e) => setFeedback(e.target.value)}
+                onKeyDown={onFeedbackKeyDown}
+                rows={3}
+                placeholder="What needs to change? Required to reject."
+              />
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => review('approve')}
+                  disabled={busy}
+                  className="px-4 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => review('reject')}
+                  disabled={busy}
+                  className="px-4 h-9 rounded-md border border-red-300 text-red-700 dark:border-red-800 dark:text-red-300 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </div>
+
+              <div className="text-xs text-neutral-500 flex flex-wrap gap-x-4 gap-y-1">
+                {SHORTCUTS.map(([keys, action]) => (
+                  <span key={keys}>
+                    <kbd className="px-1 rounded border border-neutral-300 dark:border-neutral-700">{keys}</kbd> {action}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
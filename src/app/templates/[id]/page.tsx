@@ -0,0 +1,169 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Spinner from '@/components/common/Spinner';
+import { TextInput, TextArea } from '@/components/form/inputs';
+import { API_ENDPOINTS } from '@/constants';
+import type { RequestTemplate, TemplateTask, TemplateUpdate } from '@/types';
+
+export default function TemplateEditPage({ params }: { params: Promise<{ id: string }> }) {
+  const router = useRouter();
+  const [template, setTemplate] = useState<RequestTemplate | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [originalRequest, setOriginalRequest] = useState('');
+  const [splitDetails, setSplitDetails] = useState('');
+  const [tasks, setTasks] = useState<TemplateTask[]>([]);
+
+  const applyTemplate = (data: RequestTemplate) => {
+    setTemplate(data);
+    setName(data.name);
+    setOriginalRequest(data.originalRequest);
+    setSplitDetails(data.splitDetails);
+    setTasks(data.tasks);
+  };
+
+  useEffect(() => {
+    params.then(async ({ id }) => {
+      try {
+        const res = await fetch(`${API_ENDPOINTS.TEMPLATES}/${id}`, { cache: 'no-store' });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load template');
+        applyTemplate(json.data as RequestTemplate);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : 'Error loading template');
+      } finally {
+        setLoading(false);
+      }
+    });
+  }, [params]);
+
+  const updateTask = (index: number, changes: Partial<TemplateTask>) => {
+    setTasks(tasks.map((task, i) => (i === index ? { ...task, ...changes } : task)));
+  };
+
+  const save = async () => {
+    if (!template) return;
+    const updates: TemplateUpdate = { name: name.trim(), originalRequest, splitDetails, tasks };
+    try {
+      setSaving(true);
+      setError(null);
+      setNotice(null);
+      const res = await fetch(`${API_ENDPOINTS.TEMPLATES}/${template.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to save template');
+      applyTemplate(json.data as RequestTemplate);
+      setNotice('Template saved');
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2">
+        <Spinner /> Loading template...
+      </div>
+    );
+  }
+
+  if (!template) {
+    return (
+      <div className="space-y-4">
+        <div className="text-red-600">{error ?? 'Template not found'}</div>
+        <button
+          onClick={() => router.push('/templates')}
+          className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700"
+        >
+          Back to Templates
+        </button>
+      </div>
+    );
+  }
+
+  const incomplete = !name.trim() || !originalRequest.trim() || tasks.some(task => !task.title.trim() || !task.description.trim());
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Edit Template</h1>
+          <div className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+            Write {'{{name}}'} wherever a value should be asked for when the template is used.
+            {template.placeholders.length > 0 && ` Placeholders: ${template.placeholders.map(p => `{{${p}}}`).join(', ')}.`}
+          </div>
+        </div>
+        <button
+          onClick={() => router.push('/templates')}
+          className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700"
+        >
+          Back to Templates
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-3 rounded-md bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-200">
+          {notice}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <TextInput label="Template Name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+        <TextInput label="Original Request" value={originalRequest} onChange={(e) => setOriginalRequest(e.target.value)} />
+        <TextArea label="Split Details" value={splitDetails} onChange={(e) => setSplitDetails(e.target.value)} rows={4} />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Tasks ({tasks.length})</h2>
+          <button
+            onClick={() => setTasks([...tasks, { title: '', description: '' }])}
+            className="px-3 h-8 rounded-md bg-green-600 text-white hover:bg-green-700 text-sm"
+          >
+            Add Task
+          </button>
+        </div>
+        {tasks.map((task, index) => (
+          <div key={index} className="rounded-lg border border-neutral-200 dark:border-neutral-800 p-3 bg-white dark:bg-neutral-900 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-neutral-500">Task {index + 1}</span>
+              <button
+                onClick={() => setTasks(tasks.filter((_, i) => i !== index))}
+                aria-label={`Remove task ${index + 1}`}
+                className="text-sm text-red-700 dark:text-red-300"
+              >
+                Remove
+              </button>
+            </div>
+            <TextInput label="Title" value={task.title} onChange={(e) => updateTask(index, { title: e.target.value })} maxLength={200} />
+            <TextArea label="Description" value={task.description} onChange={(e) => updateTask(index, { description: e.target.value })} rows={3} />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={save}
+        disabled={saving || incomplete}
+        className="px-4 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save Template'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import Spinner from '@/components/common/Spinner';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { TextInput } from '@/components/form/inputs';
+import { useUndoToast } from '@/components/common/UndoToast';
+import { API_ENDPOINTS } from '@/constants';
+import type { Request, RequestTemplate } from '@/types';
+
+export default function TemplatesPage() {
+  const router = useRouter();
+  const { showUndo } = useUndoToast();
+  const [templates, setTemplates] = useState<RequestTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [using, setUsing] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState<RequestTemplate | null>(null);
+
+  const load = async () => {
+    try {
+      const res = await fetch(API_ENDPOINTS.TEMPLATES, { cache: 'no-store' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load templates');
+      setTemplates(json.data as RequestTemplate[]);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Error loading templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const startUsing = (template: RequestTemplate) => {
+    setUsing(using === template.id ? null : template.id);
+    setValues({});
+  };
+
+  const instantiate = async (template: RequestTemplate) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const res = await fetch(`${API_ENDPOINTS.TEMPLATES}/${template.id}/instantiate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ values })
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to create request');
+      const created = json.data as Request;
+      showUndo(`Created ${created.requestId} from "${template.name}"`);
+      router.push(`/requests/${created.requestId}`);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to create request');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!confirmDelete) return;
+    try {
+      setBusy(true);
+      const res = await fetch(`${API_ENDPOINTS.TEMPLATES}/${confirmDelete.id}`, { method: 'DELETE' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to delete template');
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to delete template');
+    } finally {
+      setBusy(false);
+      setConfirmDelete(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2">
+        <Spinner /> Loading templates...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Templates</h1>
+        <div className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+          Reusable task breakdowns. Save one from any request with &quot;Save as Template&quot;, then mark the parts that change with {'{{placeholders}}'}.
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {templates.length === 0 && <div className="text-sm text-neutral-500">No templates yet.</div>}
+
+      <div className="space-y-2">
+        {templates.map(template => (
+          <div key={template.id} className="rounded-lg border border-neutral-200 dark:border-neutral-800 p-3 bg-white dark:bg-neutral-900 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">{template.name}</div>
+                <div className="text-xs text-neutral-500 mt-1">
+                  {template.tasks.length} tasks
+                  {template.placeholders.length > 0 && ` • ${template.placeholders.map(name => `{{${name}}}`).join(', ')}`}
+                  {template.sourceRequestId && ` • saved from ${template.sourceRequestId}`}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => startUsing(template)}
+                  disabled={busy}
+                  className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 text-sm disabled:opacity-50"
+                >
+                  {using === template.id ? 'Close' : 'Use'}
+                </button>
+                <Link
+                  href={`/templates/${template.id}`}
+                  className="px-3 h-8 grid place-items-center rounded-md border border-neutral-300 dark:border-neutral-700 text-sm"
+                >
+                  Edit
+                </Link>
+                <button
+                  onClick={() => setConfirmDelete(template)}
+                  disabled={busy}
+                  className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 text-sm text-red-700 dark:text-red-300 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {using === template.id && (
+              <div className="space-y-3 border-t border-neutral-200 dark:border-neutral-800 pt-3">
+                {template.placeholders.map(name => (
+                  <TextInput
+                    key={name}
+                    label={name}
+                    value={values[name] ?? ''}
+                    onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                    disabled={busy}
+                  />
+                ))}
+                <button
+                  onClick={() => instantiate(template)}
+                  disabled={busy || template.placeholders.some(name => !values[name]?.trim())}
+                  className="px-4 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {busy ? 'Creating...' : 'Create Request'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <ConfirmDialog
+        open={!!confirmDelete}
+        title="Delete template"
+        description={`Delete "${confirmDelete?.name ?? ''}"? Requests created from it are not affected.`}
+        confirmText="Delete"
+        confirmLoading={busy}
+        onConfirm={remove}
+        onCancel={() => setConfirmDelete(null)}
+      />
+    </div>
+  );
+}
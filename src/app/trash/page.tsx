@@ -0,0 +1,179 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Spinner from '@/components/common/Spinner';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { API_ENDPOINTS } from '@/constants';
+import type { TrashItem, TrashRestoreResult } from '@/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function itemTitle(item: TrashItem): string {
+  return item.type === 'request' ? item.record.originalRequest : item.record.title;
+}
+
+export default function TrashPage() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ text: string; href?: string } | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [confirmPurge, setConfirmPurge] = useState<TrashItem | null>(null);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const load = async () => {
+    try {
+      const res = await fetch(API_ENDPOINTS.TRASH, { cache: 'no-store' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load trash');
+      setItems(json.data.items);
+      setRetentionDays(json.data.retentionDays);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Error loading trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const restore = async (item: TrashItem) => {
+    try {
+      setBusy(item.id);
+      setNotice(null);
+      const res = await fetch(`${API_ENDPOINTS.TRASH}/${item.id}/restore`, { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to restore');
+      const result = json.data as TrashRestoreResult;
+      setNotice({
+        text: result.createdRequest
+          ? `${json.message}: the original request ${item.origin.requestId} no longer exists.`
+          : `${json.message}.`,
+        href: result.taskId ? `/requests/${result.requestId}/tasks/${result.taskId}` : `/requests/${result.requestId}`
+      });
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to restore');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const purge = async () => {
+    try {
+      setBusy(confirmPurge ? confirmPurge.id : 'all');
+      const res = await fetch(confirmPurge ? `${API_ENDPOINTS.TRASH}/${confirmPurge.id}` : API_ENDPOINTS.TRASH, { method: 'DELETE' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to delete');
+      setNotice({ text: json.message });
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to delete');
+    } finally {
+      setBusy(null);
+      setConfirmPurge(null);
+      setConfirmEmpty(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2">
+        <Spinner /> Loading trash...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Trash</h1>
+          <div className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+            Deleted requests and tasks are kept here, out of tasks.json, for {retentionDays} days.
+          </div>
+        </div>
+        <button
+          onClick={() => setConfirmEmpty(true)}
+          disabled={items.length === 0 || busy !== null}
+          className="px-4 h-9 rounded-md border border-red-300 text-red-700 dark:border-red-800 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+        >
+          Empty Trash
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-3 rounded-md bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-200">
+          {notice.text}{' '}
+          {notice.href && <Link href={notice.href} className="underline">Open</Link>}
+        </div>
+      )}
+
+      {items.length === 0 && <div className="text-sm text-neutral-500">The trash is empty.</div>}
+
+      <div className="space-y-2">
+        {items.map(item => {
+          const daysLeft = retentionDays === null
+            ? null
+            : Math.max(0, Math.ceil((Date.parse(item.deletedAt) + retentionDays * DAY - Date.now()) / DAY));
+          return (
+            <div key={item.id} className="rounded-lg border border-neutral-200 dark:border-neutral-800 p-3 bg-white dark:bg-neutral-900">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-neutral-100 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300">{item.type}</span>
+                    <span className="text-sm font-medium truncate">{itemTitle(item)}</span>
+                  </div>
+                  <div className="text-xs text-neutral-500 mt-1">
+                    {item.type === 'request'
+                      ? `${item.record.requestId} • ${item.record.tasks.length} tasks`
+                      : `${item.record.id} from ${item.origin.requestId} • ${item.origin.requestTitle}`}
+                    {' '}• deleted {new Date(item.deletedAt).toLocaleString()}
+                    {daysLeft !== null && ` • expires in ${daysLeft} days`}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => restore(item)}
+                    disabled={busy !== null}
+                    className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 text-sm disabled:opacity-50"
+                  >
+                    {busy === item.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                  <button
+                    onClick={() => setConfirmPurge(item)}
+                    disabled={busy !== null}
+                    className="px-3 h-8 rounded-md border border-neutral-300 dark:border-neutral-700 text-sm text-red-700 dark:text-red-300 disabled:opacity-50"
+                  >
+                    Delete Forever
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <ConfirmDialog
+        open={!!confirmPurge || confirmEmpty}
+        title={confirmEmpty ? 'Empty trash' : 'Delete forever'}
+        description={confirmEmpty
+          ? `Permanently delete all ${items.length} items in the trash? This cannot be undone.`
+          : `Permanently delete "${confirmPurge ? itemTitle(confirmPurge) : ''}"? This cannot be undone.`}
+        confirmText="Delete"
+        confirmLoading={busy !== null}
+        onConfirm={purge}
+        onCancel={() => { setConfirmPurge(null); setConfirmEmpty(false); }}
+      />
+    </div>
+  );
+}
@@ -1,31 +1,58 @@
 'use client';
 import Link from 'next/link';
+import { StatusChip } from '@/components/common/StatusChip';
 import type { Task } from '@/types';
 
-export default function TaskCard({ task, requestId, href }: { task: Task; requestId: string; href?: string }) {
+type Props = {
+  task: Task;
+  requestId: string;
+  href?: string;
+  onSelectToggleAction?: (id: string, selected: boolean) => void;
+  isSelected?: boolean;
+  showCheckbox?: boolean;
+};
+
+export default function TaskCard({
+  task,
+  requestId,
+  href,
+  onSelectToggleAction,
+  isSelected = false,
+  showCheckbox = false
+}: Props) {
   const url = href ?? `/requests/${requestId}/tasks/${task.id}`;
-  return (
+  const card = (
     <Link href={url} className="block rounded-lg border border-neutral-200 dark:border-neutral-800 p-3 bg-white dark:bg-neutral-900 hover:bg-neutral-50 dark:hover:bg-neutral-800">
       <div className="flex items-center justify-between gap-3">
         <div className="font-medium">
           {task.title}
         </div>
         <div className="flex items-center gap-2 text-xs">
-          {task.done ? (
-            <span className="px-2 py-0.5 rounded bg-blue-600 text-white">Done</span>
-          ) : (
-            <span className="px-2 py-0.5 rounded bg-neutral-200 dark:bg-neutral-700">Pending</span>
-          )}
-          {task.approved ? (
-            <span className="px-2 py-0.5 rounded bg-emerald-600 text-white">Approved</span>
-          ) : (
-            <span className="px-2 py-0.5 rounded bg-neutral-200 dark:bg-neutral-700">Unapproved</span>
-          )}
+          <StatusChip task={task} />
         </div>
       </div>
       {task.description && (
         <p className="text-sm text-neutral-700 dark:text-neutral-300 mt-1 line-clamp-2">{task.description}</p>
       )}
+      {task.status === 'blocked' && task.blockedReason && (
+        <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">Blocked: {task.blockedReason}</p>
+      )}
     </Link>
   );
+
+  if (!showCheckbox) return card;
+
+  // The checkbox sits outside the link so ticking it doesn't open the task
+  return (
+    <div className="flex items-start gap-3">
+      <input
+        type="checkbox"
+        checked={isSelected}
+        onChange={(e) => onSelectToggleAction?.(task.id, e.target.checked)}
+        aria-label={`Select ${task.title}`}
+        className="mt-4 h-4 w-4 rounded border-neutral-300 dark:border-neutral-700"
+      />
+      <div className="flex-1 min-w-0">{card}</div>
+    </div>
+  );
 }
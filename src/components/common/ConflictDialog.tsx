@@ -0,0 +1,150 @@
+"use client";
+import React, { useEffect, useMemo, useState } from 'react';
+import { threeWayMerge } from '@/utils/merge';
+
+export interface ConflictField {
+  key: string;
+  label: string;
+}
+
+interface ConflictDialogProps {
+  open: boolean;
+  fields: ConflictField[];
+  base: Record<string, unknown>;
+  mine: Record<string, unknown>;
+  theirs: Record<string, unknown>;
+  resolving?: boolean;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onMerge: (merged: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value === undefined || value === null || value === '') return '—';
+  return String(value);
+}
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  open,
+  fields,
+  base,
+  mine,
+  theirs,
+  resolving = false,
+  onKeepMine,
+  onTakeTheirs,
+  onMerge,
+  onCancel,
+}) => {
+  const { merged, conflicts } = useMemo(
+    () => threeWayMerge(base, mine, theirs, fields.map(f => f.key)),
+    [base, mine, theirs, fields]
+  );
+  // For fields edited on both sides, let the user pick which value wins
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+  const conflictKey = conflicts.join('|');
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflictKey.split('|').filter(Boolean).map(key => [key, 'mine' as const])));
+  }, [conflictKey]);
+
+  if (!open) return null;
+
+  const changedFields = fields.filter(f => formatValue(mine[f.key]) !== formatValue(theirs[f.key]));
+
+  const handleMerge = () => {
+    const result = { ...merged };
+    for (const key of conflicts) {
+      result[key] = choices[key] === 'theirs' ? theirs[key] : mine[key];
+    }
+    onMerge(result);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-xl">
+        <div className="p-4 border-b border-neutral-200 dark:border-neutral-800">
+          <h2 className="text-base font-semibold">This changed since you opened it</h2>
+          <p className="text-sm text-neutral-600 dark:text-neutral-300 mt-1">
+            Someone else saved a newer version. Keep your changes, take theirs, or merge both.
+          </p>
+        </div>
+        <div className="p-4 space-y-3 max-h-[60vh] overflow-y-auto">
+          {changedFields.length === 0 ? (
+            <p className="text-sm text-neutral-600 dark:text-neutral-300">
+              Your values match the latest version; only other parts of the record changed.
+            </p>
+          ) : (
+            changedFields.map(field => {
+              const isConflict = conflicts.includes(field.key);
+              return (
+                <div key={field.key} className="rounded-md border border-neutral-200 dark:border-neutral-800 p-3">
+                  <div className="flex items-center justify-between text-sm font-medium">
+                    <span>{field.label}</span>
+                    <span className={`text-xs ${isConflict ? 'text-red-600' : 'text-neutral-500'}`}>
+                      {isConflict
+                        ? 'Changed on both sides'
+                        : merged[field.key] === mine[field.key] ? 'Merge keeps yours' : 'Merge takes theirs'}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 mt-2 text-sm">
+                    {(['mine', 'theirs'] as const).map(side => (
+                      <label key={side} className="block">
+                        <div className="flex items-center gap-2 text-xs text-neutral-600 dark:text-neutral-400 mb-1">
+                          {isConflict && (
+                            <input
+                              type="radio"
+                              name={`conflict-${field.key}`}
+                              checked={choices[field.key] === side}
+                              onChange={() => setChoices(prev => ({ ...prev, [field.key]: side }))}
+                            />
+                          )}
+                          {side === 'mine' ? 'Yours' : 'Theirs'}
+                        </div>
+                        <div className="whitespace-pre-wrap break-words rounded bg-neutral-50 dark:bg-neutral-800 p-2 max-h-32 overflow-y-auto">
+                          {formatValue(side === 'mine' ? mine[field.key] : theirs[field.key])}
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+        <div className="p-4 border-t border-neutral-200 dark:border-neutral-800 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            disabled={resolving}
+            className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 text-sm disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onTakeTheirs}
+            disabled={resolving}
+            className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 text-sm disabled:opacity-50"
+          >
+            Take theirs
+          </button>
+          <button
+            onClick={onKeepMine}
+            disabled={resolving}
+            className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 text-sm disabled:opacity-50"
+          >
+            Keep mine
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={resolving}
+            className="px-3 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
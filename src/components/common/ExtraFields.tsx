@@ -0,0 +1,36 @@
+"use client";
+import React from 'react';
+import { getExtraFields } from '@/utils/data';
+
+interface ExtraFieldsProps {
+  record: object;
+  knownFields: readonly string[];
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Read-only list of fields the editor doesn't manage. They are kept as-is
+ * when the record is saved.
+ */
+export const ExtraFields: React.FC<ExtraFieldsProps> = ({ record, knownFields }) => {
+  const fields = getExtraFields(record, knownFields);
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-neutral-200 dark:border-neutral-800 p-3">
+      <h3 className="text-sm font-medium">Additional fields</h3>
+      <p className="text-xs text-neutral-500 mt-0.5">Set by other tools such as the MCP server. They are kept unchanged when you save.</p>
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {fields.map(([field, value]) => (
+          <React.Fragment key={field}>
+            <dt className="font-mono text-xs text-neutral-600 dark:text-neutral-400 pt-0.5">{field}</dt>
+            <dd className="whitespace-pre-wrap break-words">{formatValue(value)}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
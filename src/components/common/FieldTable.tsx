@@ -0,0 +1,42 @@
+"use client";
+import React from 'react';
+import type { ChangeKind, FieldChange } from '@/types';
+
+export const CHANGE_STYLES: Record<ChangeKind, string> = {
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  removed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  modified: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Field-level before/after values, as shown in backup diffs and change history
+ */
+export function FieldTable({ fields }: { fields: FieldChange[] }) {
+  if (fields.length === 0) return null;
+  return (
+    <table className="w-full text-sm mt-2 table-fixed">
+      <thead>
+        <tr className="text-left text-xs text-neutral-500">
+          <th className="w-40 py-1 pr-2 font-medium">Field</th>
+          <th className="py-1 pr-2 font-medium">From</th>
+          <th className="py-1 font-medium">To</th>
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map(change => (
+          <tr key={change.field} className="align-top border-t border-neutral-200 dark:border-neutral-800">
+            <td className="py-1 pr-2 font-mono text-xs">{change.field}</td>
+            <td className="py-1 pr-2 whitespace-pre-wrap break-words text-red-700 dark:text-red-300">{formatValue(change.from)}</td>
+            <td className="py-1 whitespace-pre-wrap break-words text-green-700 dark:text-green-300">{formatValue(change.to)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
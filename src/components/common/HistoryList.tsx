@@ -0,0 +1,92 @@
+"use client";
+import React, { useCallback, useEffect, useState } from 'react';
+import Spinner from '@/components/common/Spinner';
+import { CHANGE_STYLES, FieldTable } from '@/components/common/FieldTable';
+import { useDataEvents } from '@/hooks/useDataEvents';
+import { API_ENDPOINTS } from '@/constants';
+import type { AuditActor, AuditEntry } from '@/types';
+
+interface HistoryListProps {
+  requestId: string;
+  /** Only show the history of this task */
+  taskId?: string;
+}
+
+export function describeActor(actor: AuditActor): string {
+  switch (actor.type) {
+    case 'ui':
+      return actor.name ? `Editor (${actor.name})` : 'Editor';
+    case 'external':
+      return 'External file edit';
+    default:
+      return actor.name ? `API: ${actor.name}` : 'API';
+  }
+}
+
+/**
+ * Audit trail of a request and its tasks, or of a single task, newest first
+ */
+export const HistoryList: React.FC<HistoryListProps> = ({ requestId, taskId }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const query = taskId ? `?taskId=${encodeURIComponent(taskId)}` : '';
+      const res = await fetch(`${API_ENDPOINTS.REQUESTS}/${encodeURIComponent(requestId)}/history${query}`, { cache: 'no-store' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load history');
+      setEntries(json.data as AuditEntry[]);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestId, taskId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useDataEvents(() => {
+    load();
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <Spinner /> Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-sm text-red-600">{error}</div>;
+  }
+
+  if (entries.length === 0) {
+    return <div className="text-sm text-neutral-500">No changes recorded yet.</div>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {entries.map(entry => (
+        <li key={entry.id} className="rounded-lg border border-neutral-200 dark:border-neutral-800 p-3 bg-white dark:bg-neutral-900">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{new Date(entry.timestamp).toLocaleString()}</span>
+            <span className={`text-xs px-2 py-0.5 rounded-full ${CHANGE_STYLES[entry.change]}`}>{entry.change}</span>
+            <span className="text-neutral-700 dark:text-neutral-300">
+              {entry.taskId ? `Task ${entry.taskId}` : `Request ${entry.requestId}`}
+              {!taskId && entry.taskId && <span className="text-neutral-500"> • {entry.title}</span>}
+            </span>
+            <span className="ml-auto text-xs text-neutral-500">{describeActor(entry.actor)}</span>
+          </div>
+          {entry.operation && <div className="text-xs text-neutral-500 mt-1">{entry.operation}</div>}
+          <FieldTable fields={entry.fields} />
+        </li>
+      ))}
+    </ul>
+  );
+};
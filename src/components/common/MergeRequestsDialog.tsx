@@ -0,0 +1,188 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import { TextArea } from '@/components/form/inputs';
+import { RequestPicker } from '@/components/common/RequestPicker';
+import { useUndoToast } from '@/components/common/UndoToast';
+import { API_ENDPOINTS } from '@/constants';
+import type { MergeResult, RequestMerge } from '@/types';
+
+interface MergeRequestsDialogProps {
+  open: boolean;
+  /** Requests to start with; the first is the default target */
+  requestIds: string[];
+  onMerged: (result: MergeResult) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Merge requests into one of them. More requests can be added with the
+ * picker, so this also works when opened from a single request.
+ */
+export const MergeRequestsDialog: React.FC<MergeRequestsDialogProps> = ({ open, requestIds, onMerged, onCancel }) => {
+  const { showUndo } = useUndoToast();
+  const [ids, setIds] = useState<string[]>(requestIds);
+  const [targetId, setTargetId] = useState(requestIds[0] ?? '');
+  const [originalRequest, setOriginalRequest] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // ETags of the requests as they were when added, so the merge fails if any changes meanwhile
+  const [etags, setEtags] = useState<Record<string, string>>({});
+
+  const loadEtags = async (idsToLoad: string[]) => {
+    const loaded = await Promise.all(idsToLoad.map(async id => {
+      try {
+        const res = await fetch(`${API_ENDPOINTS.REQUESTS}/${encodeURIComponent(id)}`, { cache: 'no-store' });
+        return [id, res.ok ? res.headers.get('ETag') : null] as const;
+      } catch {
+        // The merge itself reports a missing request
+        return [id, null] as const;
+      }
+    }));
+    setEtags(previous => ({
+      ...previous,
+      ...Object.fromEntries(loaded.filter((entry): entry is readonly [string, string] => entry[1] !== null))
+    }));
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setIds(requestIds);
+    setTargetId(requestIds[0] ?? '');
+    setOriginalRequest('');
+    setError(null);
+    setEtags({});
+    loadEtags(requestIds);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  if (!open) return null;
+
+  const others = ids.filter(id => id !== targetId);
+
+  const merge = async () => {
+    const body: RequestMerge = {
+      requestIds: others,
+      ...(originalRequest.trim() && { originalRequest: originalRequest.trim() }),
+      sourceEtags: Object.fromEntries(others.filter(id => etags[id]).map(id => [id, etags[id]]))
+    };
+    try {
+      setBusy(true);
+      setError(null);
+      const res = await fetch(`${API_ENDPOINTS.REQUESTS}/${encodeURIComponent(targetId)}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(etags[targetId] && { 'If-Match': etags[targetId] }) },
+        body: JSON.stringify(body)
+      });
+      const json = await res.json();
+      if (res.status === 412) {
+        // Pick up the current versions, so merging again goes ahead with them
+        await loadEtags(ids);
+        throw new Error('One of these requests was changed by someone else since you opened this dialog. Check it, then merge again.');
+      }
+      if (!res.ok) throw new Error(json.error || 'Failed to merge requests');
+      const result = json.data as MergeResult;
+      showUndo(`Merged ${others.join(', ')} into ${targetId}`);
+      onMerged(result);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to merge requests');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/50 p-4">
+      <div className="w-full max-w-lg rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-xl">
+        <div className="p-4 border-b border-neutral-200 dark:border-neutral-800">
+          <h2 className="text-lg font-semibold">Merge requests</h2>
+          <p className="text-sm text-neutral-600 dark:text-neutral-300 mt-1">
+            Tasks are added to the target in this order, renumbering any whose id is taken. Split details are joined and the other requests moved to the trash.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {error && (
+            <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-sm text-neutral-700 dark:text-neutral-300">Requests</div>
+            <div className="flex flex-wrap gap-2">
+              {ids.map(id => (
+                <span key={id} className="inline-flex items-center gap-1 text-sm px-2 py-0.5 rounded border border-neutral-300 dark:border-neutral-700">
+                  {id}
+                  {ids.length > 1 && (
+                    <button
+                      onClick={() => {
+                        const remaining = ids.filter(other => other !== id);
+                        setIds(remaining);
+                        if (id === targetId) setTargetId(remaining[0]);
+                      }}
+                      disabled={busy}
+                      aria-label={`Remove ${id}`}
+                      className="text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200"
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+            <RequestPicker
+              value=""
+              onChange={(id) => {
+                if (!id) return;
+                setIds([...ids, id]);
+                loadEtags([id]);
+              }}
+              excludeRequestIds={ids}
+              placeholder="Add a request..."
+              className="text-sm w-full"
+            />
+          </div>
+
+          <label className="block text-sm" htmlFor="merge-target">
+            <div className="mb-1 text-neutral-700 dark:text-neutral-300">Merge into</div>
+            <select
+              id="merge-target"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              disabled={busy}
+              className="w-full h-9 px-2 rounded border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900"
+            >
+              {ids.map(id => <option key={id} value={id}>{id}</option>)}
+            </select>
+          </label>
+
+          <TextArea
+            label="Original Request"
+            value={originalRequest}
+            onChange={(e) => setOriginalRequest(e.target.value)}
+            placeholder={`Leave empty to keep ${targetId || 'the target'}'s`}
+            rows={3}
+            disabled={busy}
+          />
+        </div>
+
+        <div className="p-4 border-t border-neutral-200 dark:border-neutral-800 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            disabled={busy}
+            className="px-4 h-9 rounded-md border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 text-sm disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={merge}
+            disabled={busy || others.length === 0}
+            className="px-4 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            {busy ? 'Merging...' : `Merge ${ids.length} requests`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import { API_ENDPOINTS } from '@/constants';
+import type { RequestSummary } from '@/types';
+
+interface RequestPickerProps {
+  value: string;
+  onChange: (requestId: string) => void;
+  /** Leave these requests out, e.g. the one the tasks are already in */
+  excludeRequestIds?: string[];
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Select another request, as the target of a move or copy or to merge in
+ */
+export const RequestPicker: React.FC<RequestPickerProps> = ({
+  value,
+  onChange,
+  excludeRequestIds = [],
+  placeholder = 'Choose a request...',
+  className = ''
+}) => {
+  const [requests, setRequests] = useState<RequestSummary[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch(`${API_ENDPOINTS.REQUESTS}?limit=1000&sortBy=requestId`, { cache: 'no-store' });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load requests');
+        setRequests(json.data.requests as RequestSummary[]);
+      } catch (e: unknown) {
+        console.error('Failed to load requests to pick from:', e);
+      }
+    };
+    load();
+  }, []);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={placeholder}
+      className={`h-8 px-2 rounded border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 ${className}`}
+    >
+      <option value="">{placeholder}</option>
+      {requests
+        .filter(request => !excludeRequestIds.includes(request.requestId))
+        .map(request => (
+          <option key={request.requestId} value={request.requestId}>
+            {request.requestId}: {request.originalRequest.slice(0, 60)}
+          </option>
+        ))}
+    </select>
+  );
+};
@@ -0,0 +1,30 @@
+"use client";
+import React from 'react';
+import { formatDate } from '@/utils/data';
+import type { ReviewFeedback } from '@/types';
+
+/**
+ * Feedback from earlier rejections, newest first. Tasks never rejected render nothing.
+ */
+export const ReviewFeedbackList: React.FC<{ feedback?: ReviewFeedback[] }> = ({ feedback }) => {
+  if (!feedback || feedback.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm text-neutral-700 dark:text-neutral-300">Review feedback</div>
+      <ul className="space-y-2">
+        {[...feedback].reverse().map(entry => (
+          <li
+            key={entry.rejectedAt}
+            className="rounded-md border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-900/20 p-2 text-sm"
+          >
+            <div className="whitespace-pre-wrap">{entry.feedback}</div>
+            <div className="text-xs text-neutral-500 mt-1">
+              Rejected {formatDate(new Date(entry.rejectedAt))}{entry.reviewer && ` by ${entry.reviewer}`}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
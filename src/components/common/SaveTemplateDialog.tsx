@@ -0,0 +1,94 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import { TextInput } from '@/components/form/inputs';
+import { API_ENDPOINTS } from '@/constants';
+import type { Request, RequestTemplate } from '@/types';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  request: Request;
+  onSaved: (template: RequestTemplate) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Name a template and save the request's text and task breakdown to it
+ */
+export const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({ open, request, onSaved, onCancel }) => {
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(request.originalRequest.slice(0, 100));
+    setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  if (!open) return null;
+
+  const save = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      const res = await fetch(API_ENDPOINTS.TEMPLATES, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: request.requestId, name: name.trim() })
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to save template');
+      onSaved(json.data as RequestTemplate);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to save template');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/50 p-4">
+      <div className="w-full max-w-md rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-xl">
+        <div className="p-4 border-b border-neutral-200 dark:border-neutral-800">
+          <h2 className="text-lg font-semibold">Save as template</h2>
+          <p className="text-sm text-neutral-600 dark:text-neutral-300 mt-1">
+            Saves the request text and its {request.tasks.length} task titles and descriptions. You can add {'{{placeholders}}'} next.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {error && (
+            <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+            </div>
+          )}
+          <TextInput
+            label="Template Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            disabled={busy}
+          />
+        </div>
+
+        <div className="p-4 border-t border-neutral-200 dark:border-neutral-800 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            disabled={busy}
+            className="px-4 h-9 rounded-md border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 text-sm disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={busy || !name.trim()}
+            className="px-4 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            {busy ? 'Saving...' : 'Save Template'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import type { Task } from '@/types';
+
+interface SortableTaskListProps {
+  tasks: Task[];
+  /** Called with every task id in the new order */
+  onReorder: (taskIds: string[]) => void;
+  renderTask: (task: Task) => React.ReactNode;
+  disabled?: boolean;
+}
+
+const MOVE_BUTTON = 'h-6 w-6 grid place-items-center rounded text-xs text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-30';
+
+function moveTo(ids: string[], id: string, index: number): string[] {
+  const rest = ids.filter(other => other !== id);
+  rest.splice(index, 0, id);
+  return rest;
+}
+
+/**
+ * Task list that can be reordered by dragging a task's handle, or from the
+ * keyboard with each task's move up and move down buttons
+ */
+export const SortableTaskList: React.FC<SortableTaskListProps> = ({ tasks, onReorder, renderTask, disabled = false }) => {
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [over, setOver] = useState<number | null>(null);
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  // Keep focus on the button that was pressed as its task moves
+  useEffect(() => {
+    if (!focusId) return;
+    document.getElementById(focusId)?.focus();
+    setFocusId(null);
+  }, [tasks, focusId]);
+
+  const ids = tasks.map(task => task.id);
+
+  const move = (taskId: string, index: number, direction: 'up' | 'down') => {
+    onReorder(moveTo(ids, taskId, index));
+    // At either end the pressed button is disabled, so focus the other one
+    const atEnd = direction === 'up' ? index === 0 : index === ids.length - 1;
+    setFocusId(`move-${atEnd ? (direction === 'up' ? 'down' : 'up') : direction}-${taskId}`);
+  };
+
+  const startDrag = (e: React.DragEvent<HTMLElement>, taskId: string) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', taskId);
+    const row = e.currentTarget.closest('li');
+    if (row) e.dataTransfer.setDragImage(row, 16, 16);
+    setDragging(taskId);
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setOver(null);
+  };
+
+  // The dropped task takes the place of the one it was dropped on
+  const drop = (index: number) => {
+    if (dragging && ids.indexOf(dragging) !== index) {
+      onReorder(moveTo(ids, dragging, index));
+    }
+    endDrag();
+  };
+
+  return (
+    <ul className="space-y-3">
+      {tasks.map((task, index) => (
+        <li
+          key={task.id}
+          onDragOver={(e) => {
+            if (!dragging) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            setOver(index);
+          }}
+          onDragLeave={() => setOver(current => (current === index ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            drop(index);
+          }}
+          className={`flex items-start gap-2 rounded-lg ${dragging && over === index && dragging !== task.id ? 'ring-2 ring-blue-500' : ''}`}
+        >
+          <div className="flex flex-col items-center pt-1">
+            <span
+              draggable={!disabled}
+              onDragStart={(e) => startDrag(e, task.id)}
+              onDragEnd={endDrag}
+              aria-hidden="true"
+              title="Drag to reorder"
+              className={`px-1 select-none text-neutral-400 ${disabled ? 'opacity-30' : 'cursor-grab'}`}
+            >
+              ⋮⋮
+            </span>
+            <button
+              id={`move-up-${task.id}`}
+              onClick={() => move(task.id, index - 1, 'up')}
+              disabled={disabled || index === 0}
+              aria-label={`Move ${task.title} up`}
+              className={MOVE_BUTTON}
+            >
+              ↑
+            </button>
+            <button
+              id={`move-down-${task.id}`}
+              onClick={() => move(task.id, index + 1, 'down')}
+              disabled={disabled || index === tasks.length - 1}
+              aria-label={`Move ${task.title} down`}
+              className={MOVE_BUTTON}
+            >
+              ↓
+            </button>
+          </div>
+          <div className={`flex-1 min-w-0 ${dragging === task.id ? 'opacity-50' : ''}`}>{renderTask(task)}</div>
+        </li>
+      ))}
+    </ul>
+  );
+};
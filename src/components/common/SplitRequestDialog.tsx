@@ -0,0 +1,108 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import { TextInput, TextArea } from '@/components/form/inputs';
+import { useUndoToast } from '@/components/common/UndoToast';
+import { API_ENDPOINTS } from '@/constants';
+import type { Request, RequestSplit, SplitResult } from '@/types';
+
+interface SplitRequestDialogProps {
+  open: boolean;
+  request: Request;
+  taskIds: string[];
+  onSplit: (result: SplitResult) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Split the chosen tasks off into a new request, starting from the source's text
+ */
+export const SplitRequestDialog: React.FC<SplitRequestDialogProps> = ({ open, request, taskIds, onSplit, onCancel }) => {
+  const { showUndo } = useUndoToast();
+  const [originalRequest, setOriginalRequest] = useState(request.originalRequest);
+  const [splitDetails, setSplitDetails] = useState(request.splitDetails);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setOriginalRequest(request.originalRequest);
+    setSplitDetails(request.splitDetails);
+    setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  if (!open) return null;
+
+  const split = async () => {
+    const body: RequestSplit = { taskIds, originalRequest: originalRequest.trim(), splitDetails };
+    try {
+      setBusy(true);
+      setError(null);
+      const res = await fetch(`${API_ENDPOINTS.REQUESTS}/${encodeURIComponent(request.requestId)}/split`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to split request');
+      const result = json.data as SplitResult;
+      showUndo(`Split ${taskIds.length} task${taskIds.length > 1 ? 's' : ''} into ${result.request.requestId}`);
+      onSplit(result);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to split request');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/50 p-4">
+      <div className="w-full max-w-lg rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-xl">
+        <div className="p-4 border-b border-neutral-200 dark:border-neutral-800">
+          <h2 className="text-lg font-semibold">Split into a new request</h2>
+          <p className="text-sm text-neutral-600 dark:text-neutral-300 mt-1">
+            {taskIds.join(', ')} will move to a new request and keep their ids.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {error && (
+            <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+            </div>
+          )}
+          <TextInput
+            label="Original Request"
+            value={originalRequest}
+            onChange={(e) => setOriginalRequest(e.target.value)}
+            disabled={busy}
+          />
+          <TextArea
+            label="Split Details"
+            value={splitDetails}
+            onChange={(e) => setSplitDetails(e.target.value)}
+            rows={5}
+            disabled={busy}
+          />
+        </div>
+
+        <div className="p-4 border-t border-neutral-200 dark:border-neutral-800 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            disabled={busy}
+            className="px-4 h-9 rounded-md border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 text-sm disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={split}
+            disabled={busy || !originalRequest.trim()}
+            className="px-4 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            {busy ? 'Splitting...' : 'Split'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+"use client";
+import React from 'react';
+import { taskStatus } from '@/utils/taskStatus';
+import type { Task, TaskStatus } from '@/types';
+
+export const STATUS_LABELS: Record<TaskStatus, string> = {
+  pending: 'Pending',
+  'in-progress': 'In progress',
+  blocked: 'Blocked',
+  'needs-review': 'Needs review',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+const STATUS_STYLES: Record<TaskStatus, string> = {
+  pending: 'bg-neutral-200 dark:bg-neutral-700',
+  'in-progress': 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300',
+  blocked: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  'needs-review': 'bg-blue-600 text-white',
+  approved: 'bg-emerald-600 text-white',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+};
+
+/**
+ * A task's effective status; blocked tasks show their reason on hover
+ */
+export const StatusChip: React.FC<{ task: Pick<Task, 'done' | 'approved' | 'status' | 'blockedReason'> }> = ({ task }) => {
+  const status = taskStatus(task);
+  return (
+    <span
+      className={`px-2 py-0.5 rounded ${STATUS_STYLES[status]}`}
+      title={status === 'blocked' ? task.blockedReason : undefined}
+    >
+      {STATUS_LABELS[status]}
+    </span>
+  );
+};
@@ -0,0 +1,31 @@
+"use client";
+import React from 'react';
+
+interface TabsProps<T extends string> {
+  tabs: { id: T; label: string }[];
+  active: T;
+  onChange: (id: T) => void;
+}
+
+/**
+ * Underlined tab bar; the page renders the active tab's content itself
+ */
+export function Tabs<T extends string>({ tabs, active, onChange }: TabsProps<T>) {
+  return (
+    <div role="tablist" className="flex gap-4 border-b border-neutral-200 dark:border-neutral-800">
+      {tabs.map(tab => (
+        <button
+          key={tab.id}
+          role="tab"
+          aria-selected={tab.id === active}
+          onClick={() => onChange(tab.id)}
+          className={`-mb-px pb-2 text-sm border-b-2 ${tab.id === active
+            ? 'border-blue-600 text-blue-600 font-medium'
+            : 'border-transparent text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100'}`}
+        >
+          {tab.label}
+        </button>
+      ))}
+    </div>
+  );
+}
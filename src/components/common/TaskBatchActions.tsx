@@ -0,0 +1,103 @@
+"use client";
+import React, { useState } from 'react';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { RequestPicker } from '@/components/common/RequestPicker';
+import { useUndoToast } from '@/components/common/UndoToast';
+import { API_ENDPOINTS } from '@/constants';
+import type { BulkItemResult, BulkResult, TaskBatch, TaskBatchAction } from '@/types';
+
+interface TaskBatchActionsProps {
+  requestId: string;
+  selectedIds: string[];
+  /** Called once a batch has been saved, with the tasks it couldn't change */
+  onComplete: (failures: BulkItemResult[]) => void | Promise<void>;
+}
+
+const PAST_TENSE: Record<TaskBatchAction, string> = {
+  done: 'Marked done',
+  undone: 'Marked not done',
+  approve: 'Approved',
+  unapprove: 'Withdrew approval of',
+  delete: 'Deleted',
+  move: 'Moved'
+};
+
+const BUTTON = 'text-sm px-3 py-1 rounded border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 disabled:opacity-50';
+
+/**
+ * Actions on the selected tasks of a request, saved together through the batch endpoint
+ */
+export const TaskBatchActions: React.FC<TaskBatchActionsProps> = ({ requestId, selectedIds, onComplete }) => {
+  const { showUndo } = useUndoToast();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [moveTarget, setMoveTarget] = useState('');
+
+  const run = async (action: TaskBatchAction) => {
+    if (selectedIds.length === 0) return;
+    const batch: TaskBatch = { action, taskIds: selectedIds, ...(action === 'move' && { toRequestId: moveTarget }) };
+    try {
+      setBusy(true);
+      setError(null);
+      const res = await fetch(`${API_ENDPOINTS.REQUESTS}/${encodeURIComponent(requestId)}/tasks/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(batch)
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to update tasks');
+      const result = json.data as BulkResult;
+      if (result.succeeded > 0) {
+        const target = action === 'move' ? ` to ${moveTarget}` : '';
+        showUndo(`${PAST_TENSE[action]} ${result.succeeded} task${result.succeeded > 1 ? 's' : ''}${target}`);
+      }
+      await onComplete(result.results.filter(item => !item.ok));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to update tasks');
+    } finally {
+      setBusy(false);
+      setConfirmDelete(false);
+    }
+  };
+
+  const disabled = busy || selectedIds.length === 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-neutral-600 dark:text-neutral-400">{selectedIds.length} selected</span>
+        <button onClick={() => run('done')} disabled={disabled} className={BUTTON}>Mark Done</button>
+        <button onClick={() => run('undone')} disabled={disabled} className={BUTTON}>Mark Undone</button>
+        <button onClick={() => run('approve')} disabled={disabled} className={BUTTON}>Approve</button>
+        <button onClick={() => run('unapprove')} disabled={disabled} className={BUTTON}>Unapprove</button>
+        <RequestPicker
+          value={moveTarget}
+          onChange={setMoveTarget}
+          excludeRequestIds={[requestId]}
+          placeholder="Move to request..."
+          className="text-sm max-w-56"
+        />
+        <button onClick={() => run('move')} disabled={disabled || !moveTarget} className={BUTTON}>Move</button>
+        <button
+          onClick={() => setConfirmDelete(true)}
+          disabled={disabled}
+          className="text-sm px-3 py-1 rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+        >
+          Delete
+        </button>
+      </div>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <ConfirmDialog
+        open={confirmDelete}
+        title={`Delete ${selectedIds.length} task${selectedIds.length > 1 ? 's' : ''}?`}
+        description="The selected tasks will be moved to the trash, where they can be restored."
+        confirmText="Delete"
+        confirmLoading={busy}
+        onConfirm={() => run('delete')}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+"use client";
+import React from 'react';
+import { formatDate } from '@/utils/data';
+
+interface TimestampsProps {
+  record: { createdAt?: string; updatedAt?: string; completedAt?: string; approvedAt?: string };
+}
+
+const LABELS = [
+  ['createdAt', 'Created'],
+  ['updatedAt', 'Updated'],
+  ['completedAt', 'Completed'],
+  ['approvedAt', 'Approved']
+] as const;
+
+/**
+ * One-line summary of a record's timestamps. Legacy records without any render nothing.
+ */
+export const Timestamps: React.FC<TimestampsProps> = ({ record }) => {
+  const stamps = LABELS.filter(([field]) => record[field]);
+  if (stamps.length === 0) return null;
+
+  return (
+    <div className="text-xs text-neutral-500 mt-1">
+      {stamps.map(([field, label]) => (
+        <span key={field} title={record[field]} className="mr-3">
+          {label} {formatDate(new Date(record[field]!))}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+"use client";
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { API_ENDPOINTS, DEFAULT_VALUES } from '@/constants';
+import type { UndoResult } from '@/types';
+
+interface ToastState {
+  message: string;
+  /** How many journal entries the action wrote (bulk deletes write one per request) */
+  steps: number;
+  /** Which action the button offers */
+  action: 'undo' | 'redo' | null;
+}
+
+interface UndoToastContextValue {
+  /** Show a toast offering to undo the action that was just performed */
+  showUndo: (message: string, steps?: number) => void;
+}
+
+const UndoToastContext = createContext<UndoToastContextValue>({ showUndo: () => {} });
+
+export function useUndoToast(): UndoToastContextValue {
+  return useContext(UndoToastContext);
+}
+
+/**
+ * Renders the undo toast. Pages refresh themselves through the live events
+ * stream once an undo or redo has been saved.
+ */
+export function UndoToastProvider({ children }: { children: React.ReactNode }) {
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const [busy, setBusy] = useState(false);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const show = useCallback((next: ToastState) => {
+    if (timer.current) clearTimeout(timer.current);
+    setToast(next);
+    timer.current = setTimeout(() => setToast(null), DEFAULT_VALUES.UNDO_TOAST_DURATION);
+  }, []);
+
+  useEffect(() => () => {
+    if (timer.current) clearTimeout(timer.current);
+  }, []);
+
+  const showUndo = useCallback((message: string, steps: number = 1) => {
+    if (steps > 0) show({ message, steps, action: 'undo' });
+  }, [show]);
+
+  const run = async () => {
+    if (!toast?.action) return;
+    const { action, steps } = toast;
+    try {
+      setBusy(true);
+      const res = await fetch(action === 'undo' ? API_ENDPOINTS.UNDO : API_ENDPOINTS.REDO, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ steps })
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `Failed to ${action}`);
+      const result = json.data as UndoResult;
+      show({
+        message: action === 'undo' ? `Undone: ${result.applied.join(', ')}` : `Redone: ${result.applied.join(', ')}`,
+        steps,
+        action: action === 'undo' ? 'redo' : 'undo'
+      });
+    } catch (e: unknown) {
+      show({ message: e instanceof Error ? e.message : `Failed to ${action}`, steps, action: null });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <UndoToastContext.Provider value={{ showUndo }}>
+      {children}
+      {toast && (
+        <div
+          role="status"
+          className="fixed bottom-4 right-4 z-50 flex items-center gap-3 max-w-md rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-xl px-4 py-3 text-sm"
+        >
+          <span className="min-w-0 break-words">{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={run}
+              disabled={busy}
+              className="px-3 h-8 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 shrink-0"
+            >
+              {toast.action === 'undo' ? 'Undo' : 'Redo'}
+            </button>
+          )}
+          <button
+            onClick={() => setToast(null)}
+            aria-label="Dismiss"
+            className="text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200 shrink-0"
+          >
+            ×
+          </button>
+        </div>
+      )}
+    </UndoToastContext.Provider>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+import React, { useCallback, useEffect, useState } from 'react';
+import Spinner from '@/components/common/Spinner';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { ExtraFields } from '@/components/common/ExtraFields';
+import { Timestamps } from '@/components/common/Timestamps';
+import { describeActor } from '@/components/common/HistoryList';
+import { TextInput, TextArea, Checkbox } from '@/components/form/inputs';
+import { useDataEvents } from '@/hooks/useDataEvents';
+import { useUndoToast } from '@/components/common/UndoToast';
+import { API_ENDPOINTS, KNOWN_FIELDS } from '@/constants';
+import type { RecordVersion } from '@/types';
+
+interface VersionListProps {
+  requestId: string;
+  /** List the versions of this task instead of the request's own fields */
+  taskId?: string;
+}
+
+/**
+ * A past version laid out like the detail page, read-only
+ */
+function VersionPreview({ version }: { version: RecordVersion }) {
+  if (version.type === 'request') {
+    const { record } = version;
+    return (
+      <div className="space-y-4">
+        <Timestamps record={record} />
+        <TextInput label="Original Request" value={record.originalRequest} readOnly />
+        <TextArea label="Split Details" value={record.splitDetails} rows={6} readOnly />
+        <Checkbox label="Completed" checked={record.completed} disabled />
+        <ExtraFields record={record} knownFields={KNOWN_FIELDS.REQUEST} />
+      </div>
+    );
+  }
+
+  const { record } = version;
+  return (
+    <div className="space-y-4">
+      <Timestamps record={record} />
+      <TextInput label="Title" value={record.title} readOnly />
+      <TextArea label="Description" value={record.description} rows={4} readOnly />
+      <div className="flex gap-4">
+        <Checkbox label="Done" checked={record.done} disabled />
+        <Checkbox label="Approved" checked={record.approved} disabled />
+      </div>
+      <TextArea label="Completed Details" value={record.completedDetails} rows={6} readOnly />
+      <ExtraFields record={record} knownFields={KNOWN_FIELDS.TASK} />
+    </div>
+  );
+}
+
+/**
+ * Earlier versions of a request or task, with a preview and revert
+ */
+export const VersionList: React.FC<VersionListProps> = ({ requestId, taskId }) => {
+  const { showUndo } = useUndoToast();
+  const [versions, setVersions] = useState<RecordVersion[]>([]);
+  const [selected, setSelected] = useState<RecordVersion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmRevert, setConfirmRevert] = useState(false);
+  const [reverting, setReverting] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const query = taskId ? `?taskId=${encodeURIComponent(taskId)}` : '';
+      const res = await fetch(`${API_ENDPOINTS.REQUESTS}/${encodeURIComponent(requestId)}/versions${query}`, { cache: 'no-store' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load versions');
+      setVersions(json.data as RecordVersion[]);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestId, taskId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useDataEvents(() => {
+    load();
+  });
+
+  const revert = async () => {
+    if (!selected) return;
+    try {
+      setReverting(true);
+      const res = await fetch(`${API_ENDPOINTS.REQUESTS}/${encodeURIComponent(requestId)}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ versionId: selected.id })
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to revert');
+      showUndo(json.message || 'Reverted');
+      setSelected(null);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to revert');
+    } finally {
+      setReverting(false);
+      setConfirmRevert(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <Spinner /> Loading versions...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {versions.length === 0 ? (
+        <div className="text-sm text-neutral-500">No earlier versions yet. One is kept every time changes are saved.</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ul className="space-y-2">
+            {versions.map(version => (
+              <li key={version.id}>
+                <button
+                  onClick={() => setSelected(version)}
+                  className={`w-full text-left rounded-lg border p-3 bg-white dark:bg-neutral-900 text-sm ${selected?.id === version.id ? 'border-blue-500' : 'border-neutral-200 dark:border-neutral-800'}`}
+                >
+                  <div className="font-medium">Replaced {new Date(version.savedAt).toLocaleString()}</div>
+                  <div className="text-xs text-neutral-500 mt-1">
+                    {version.actor ? `by ${describeActor(version.actor)}` : 'by an unknown client'}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="space-y-4">
+            {!selected && <div className="text-sm text-neutral-500">Select a version to see it.</div>}
+            {selected && (
+              <>
+                <VersionPreview version={selected} />
+                <button
+                  onClick={() => setConfirmRevert(true)}
+                  disabled={reverting}
+                  className="px-4 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Revert to this version
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={confirmRevert}
+        title="Revert to this version"
+        description={`Replace the current ${taskId ? 'task' : 'request details'} with the version replaced ${selected ? new Date(selected.savedAt).toLocaleString() : ''}? Nothing else is changed, and the current version is kept so you can go back.`}
+        confirmText="Revert"
+        confirmLoading={reverting}
+        onConfirm={revert}
+        onCancel={() => setConfirmRevert(false)}
+      />
+    </div>
+  );
+};
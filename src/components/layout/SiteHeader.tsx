@@ -1,4 +1,5 @@
 import Link from 'next/link';
+import WorkspaceSwitcher from '@/components/layout/WorkspaceSwitcher';
 
 export default function SiteHeader() {
   return (
@@ -8,6 +9,11 @@ export default function SiteHeader() {
         <nav className="flex items-center gap-4 text-sm">
           <Link href="/" className="hover:underline underline-offset-4">Home</Link>
           <Link href="/requests" className="hover:underline underline-offset-4">Requests</Link>
+          <Link href="/backups" className="hover:underline underline-offset-4">Backups</Link>
+          <Link href="/review" className="hover:underline underline-offset-4">Review</Link>
+          <Link href="/templates" className="hover:underline underline-offset-4">Templates</Link>
+          <Link href="/trash" className="hover:underline underline-offset-4">Trash</Link>
+          <WorkspaceSwitcher />
         </nav>
       </div>
     </header>
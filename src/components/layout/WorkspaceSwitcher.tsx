@@ -0,0 +1,135 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import { TextInput } from '@/components/form/inputs';
+import { API_ENDPOINTS, WORKSPACE_CONFIG } from '@/constants';
+import type { WorkspaceInfo } from '@/types';
+
+const ADD_OPTION = '__add__';
+
+/**
+ * Remember the selected workspace in a cookie; every API call from the UI
+ * (including the live events stream) is scoped by it
+ */
+function selectWorkspace(name: string) {
+  document.cookie = `${WORKSPACE_CONFIG.COOKIE}=${encodeURIComponent(name)}; path=/; max-age=31536000; samesite=lax`;
+  // Request and task IDs belong to the previous workspace, so start from the list
+  window.location.assign(window.location.pathname.startsWith('/requests') ? '/requests' : window.location.pathname);
+}
+
+export default function WorkspaceSwitcher() {
+  const [workspaces, setWorkspaces] = useState<WorkspaceInfo[]>([]);
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [path, setPath] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(API_ENDPOINTS.WORKSPACES, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(json => {
+        if (json.success) setWorkspaces(json.data as WorkspaceInfo[]);
+      })
+      .catch((e: unknown) => console.error('Failed to load workspaces:', e));
+  }, []);
+
+  const active = workspaces.find(w => w.active);
+
+  const onChange = (value: string) => {
+    if (value === ADD_OPTION) {
+      setAdding(true);
+      return;
+    }
+    if (value !== active?.name) {
+      selectWorkspace(value);
+    }
+  };
+
+  const add = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(API_ENDPOINTS.WORKSPACES, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), path: path.trim() })
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.validation?.[0]?.message || json.error || 'Failed to add workspace');
+      }
+      selectWorkspace(json.data.name);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to add workspace');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (workspaces.length === 0) return null;
+
+  return (
+    <>
+      <select
+        aria-label="Workspace"
+        title={active?.path}
+        className="h-8 px-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-sm"
+        value={active?.name ?? WORKSPACE_CONFIG.DEFAULT_NAME}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {workspaces.map(workspace => (
+          <option key={workspace.name} value={workspace.name}>
+            {workspace.isDefault ? 'Default workspace' : workspace.name}
+          </option>
+        ))}
+        <option value={ADD_OPTION}>Add workspace…</option>
+      </select>
+
+      {adding && (
+        <div className="fixed inset-0 z-50 grid place-items-center bg-black/50 p-4">
+          <div className="w-full max-w-md rounded-lg border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-xl">
+            <div className="p-4 border-b border-neutral-200 dark:border-neutral-800">
+              <h2 className="text-base font-semibold">Add workspace</h2>
+              <p className="text-sm text-neutral-600 dark:text-neutral-300 mt-1">
+                Register another tasks.json. Its backups and lock file are kept next to it.
+              </p>
+            </div>
+            <div className="p-4 space-y-3">
+              <TextInput
+                id="workspace-name"
+                label="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="my-project"
+              />
+              <TextInput
+                id="workspace-path"
+                label="Path"
+                value={path}
+                onChange={(e) => setPath(e.target.value)}
+                placeholder="/path/to/repo/tasks.json"
+                helpText="A tasks file, or the directory containing tasks.json"
+              />
+              {error && <div className="text-sm text-red-600">{error}</div>}
+            </div>
+            <div className="p-4 flex justify-end gap-2 border-t border-neutral-200 dark:border-neutral-800">
+              <button
+                onClick={() => { setAdding(false); setError(null); }}
+                className="px-3 h-9 rounded-md border border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-800 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={add}
+                disabled={saving || !name.trim() || !path.trim()}
+                className="px-3 h-9 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm"
+              >
+                {saving ? 'Adding…' : 'Add workspace'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -3,7 +3,18 @@
 // API endpoints
 export const API_ENDPOINTS = {
   REQUESTS: '/api/requests',
-  TASKS: '/api/tasks'
+  TASKS: '/api/tasks',
+  EVENTS: '/api/events',
+  WORKSPACES: '/api/workspaces',
+  BACKUPS: '/api/backups',
+  UNDO: '/api/undo',
+  REDO: '/api/redo',
+  TRASH: '/api/trash',
+  SCHEMA: '/api/schema',
+  WORKFLOW: '/api/workflow',
+  REVIEW: '/api/review',
+  BULK: '/api/bulk',
+  TEMPLATES: '/api/templates'
 } as const;
 
 // Default values
@@ -11,7 +22,29 @@ export const DEFAULT_VALUES = {
   PAGE_SIZE: 20,
   MAX_SEARCH_RESULTS: 100,
   DEBOUNCE_DELAY: 300,
-  BACKUP_RETENTION_DAYS: 30
+  FILE_WATCH_DEBOUNCE: 200,
+  EVENT_HEARTBEAT_INTERVAL: 25000,
+  BACKUP_RETENTION_DAYS: 30,
+  MIN_BACKUPS: 10,
+  JOURNAL_MAX_ENTRIES: 200,
+  AUDIT_MAX_ENTRIES: 5000,
+  VERSIONS_PER_RECORD: 50,
+  TRASH_RETENTION_DAYS: 30,
+  UNDO_TOAST_DURATION: 8000
+} as const;
+
+// Fields the editor manages, plus the summary fields the API adds to responses.
+// Anything else on a record is shown read-only.
+export const KNOWN_FIELDS = {
+  TASK: [
+    'id', 'title', 'description', 'done', 'approved', 'completedDetails', 'hasDetails',
+    'createdAt', 'updatedAt', 'completedAt', 'approvedAt', 'status', 'blockedReason', 'reviewFeedback'
+  ],
+  REQUEST: [
+    'requestId', 'originalRequest', 'splitDetails', 'tasks', 'completed', 'createdAt', 'updatedAt', 'completedAt',
+    'completionPolicy', 'completion',
+    'totalTasks', 'completedTasks', 'approvedTasks', 'completionPercentage', 'approvalPercentage'
+  ]
 } as const;
 
 // Form validation
@@ -38,6 +71,28 @@ export const STATUS_COLORS = {
   NEUTRAL: 'gray'
 } as const;
 
+// Name that refers to the current data wherever a backup name is accepted (e.g. diffs)
+export const LIVE_SNAPSHOT = 'live';
+
+// Storage backends, selected with the TASKS_STORAGE environment variable
+export const STORAGE_BACKENDS = ['json', 'memory', 'sqlite'] as const;
+export const DEFAULT_STORAGE_BACKEND = 'json';
+
+// Workspace selection: header for API clients, cookie for the UI, query param for EventSource
+export const WORKSPACE_CONFIG = {
+  DEFAULT_NAME: 'default',
+  HEADER: 'x-workspace',
+  COOKIE: 'taskEditor_workspace',
+  QUERY_PARAM: 'workspace',
+  REGISTRY_FILE: 'workspaces.json'
+} as const;
+
+// Audit trail
+export const AUDIT_CONFIG = {
+  /** Header API clients can set to name themselves in the audit trail */
+  ACTOR_HEADER: 'x-actor'
+} as const;
+
 // Local storage keys
 export const STORAGE_KEYS = {
   SEARCH_FILTERS: 'taskEditor_searchFilters',
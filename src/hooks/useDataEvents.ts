@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { API_ENDPOINTS } from '@/constants';
+import type { DataChangeEvent } from '@/types';
+
+/**
+ * Subscribe to live tasks.json change events from the server.
+ * The latest handler is always used, so callers can read current component state.
+ */
+export function useDataEvents(onChange: (event: DataChangeEvent) => void) {
+  const handlerRef = useRef(onChange);
+  handlerRef.current = onChange;
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(API_ENDPOINTS.EVENTS);
+    const listener = (message: MessageEvent<string>) => {
+      try {
+        handlerRef.current(JSON.parse(message.data) as DataChangeEvent);
+      } catch (error) {
+        console.error('Failed to handle data change event:', error);
+      }
+    };
+
+    source.addEventListener('change', listener);
+    return () => {
+      source.removeEventListener('change', listener);
+      source.close();
+    };
+  }, []);
+}
@@ -0,0 +1,90 @@
+import { ApiError, MigrationInfo } from '@/types';
+
+type RawTasksData = Record<string, unknown>;
+
+export interface Migration extends MigrationInfo {
+  /** Upgrade data from `version - 1` to `version` */
+  up(data: RawTasksData): RawTasksData;
+  /** Turn data at `version` back into the `version - 1` shape */
+  down(data: RawTasksData): RawTasksData;
+}
+
+/**
+ * Registered migrations, in order. Add new ones at the end with the next
+ * version number; never change a migration that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Add a schemaVersion marker',
+    up: data => ({ schemaVersion: 1, ...data }),
+    down: data => {
+      const legacy = { ...data };
+      delete legacy.schemaVersion;
+      return legacy;
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Version of stored data; files from before versioning count as version 0
+ */
+export function getSchemaVersion(data: unknown): number {
+  const version = (data as RawTasksData | null)?.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+/**
+ * Version files are written in. Set TASKS_SCHEMA_WRITE_VERSION=0 for MCP
+ * servers that expect the legacy, unversioned shape.
+ */
+export function getWriteSchemaVersion(value: string | undefined = process.env.TASKS_SCHEMA_WRITE_VERSION): number {
+  if (!value) {
+    return CURRENT_SCHEMA_VERSION;
+  }
+
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0 || version > CURRENT_SCHEMA_VERSION) {
+    console.error(`Invalid TASKS_SCHEMA_WRITE_VERSION "${value}", writing schema v${CURRENT_SCHEMA_VERSION}`);
+    return CURRENT_SCHEMA_VERSION;
+  }
+  return version;
+}
+
+/**
+ * Migrations needed to get from one version to another, in the order they run
+ */
+export function planMigration(fromVersion: number, toVersion: number): Migration[] {
+  if (toVersion < 0 || toVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ApiError(`Unknown schema version ${toVersion}; the latest is ${CURRENT_SCHEMA_VERSION}`, 400);
+  }
+
+  if (toVersion >= fromVersion) {
+    return MIGRATIONS.filter(migration => migration.version > fromVersion && migration.version <= toVersion);
+  }
+  return MIGRATIONS
+    .filter(migration => migration.version > toVersion && migration.version <= fromVersion)
+    .reverse();
+}
+
+/**
+ * Run the migrations that take `data` to `toVersion`, upgrading or downgrading.
+ * Data from a newer editor than this one is left as it is.
+ */
+export function migrateTo<T>(data: T, toVersion: number = CURRENT_SCHEMA_VERSION): { data: T; steps: Migration[] } {
+  const fromVersion = getSchemaVersion(data);
+  const steps = planMigration(Math.min(fromVersion, CURRENT_SCHEMA_VERSION), toVersion);
+  // Leave anything that isn't a tasks document for validation to reject
+  if (fromVersion > CURRENT_SCHEMA_VERSION || !data || typeof data !== 'object' || Array.isArray(data)) {
+    return { data, steps: [] };
+  }
+
+  const upgrading = toVersion >= fromVersion;
+  const migrated = steps.reduce<RawTasksData>(
+    (current, migration) => (upgrading ? migration.up(current) : migration.down(current)),
+    data as RawTasksData
+  );
+  return { data: migrated as T, steps };
+}
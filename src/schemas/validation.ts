@@ -1,25 +1,69 @@
 import { z } from 'zod';
 
 // Core validation schemas
+export const TaskStatusSchema = z.enum(['pending', 'in-progress', 'blocked', 'needs-review', 'approved', 'rejected']);
+
 export const TaskSchema = z.object({
   id: z.string().min(1, 'Task ID is required'),
   title: z.string().min(1, 'Task title is required').max(200, 'Title too long'),
   description: z.string().min(1, 'Task description is required'),
   done: z.boolean(),
   approved: z.boolean(),
-  completedDetails: z.string()
+  completedDetails: z.string(),
+  status: TaskStatusSchema.optional(),
+  blockedReason: z.string().max(500, 'Blocked reason too long').optional()
+});
+
+// New tasks may name where they go in the request's list (0 is first); without
+// a position, or past the end, they are appended
+export const TaskCreateSchema = TaskSchema.omit({ id: true }).extend({
+  position: z.number().int().min(0, 'Position cannot be negative').optional()
 });
 
+export const CompletionPolicySchema = z.enum(['manual', 'allDone', 'allApproved']);
+
 export const RequestSchema = z.object({
   requestId: z.string().min(1, 'Request ID is required'),
   originalRequest: z.string().min(1, 'Original request is required'),
   splitDetails: z.string(),
   tasks: z.array(TaskSchema),
-  completed: z.boolean()
+  completed: z.boolean(),
+  completionPolicy: CompletionPolicySchema.optional()
 });
 
-export const TasksDataSchema = z.object({
-  requests: z.array(RequestSchema)
+// Stored data keeps fields the editor doesn't know about (timestamps, statuses
+// or anything else the MCP server adds), so saving never drops them. API input
+// is validated with the schemas above, which strip unknown keys.
+// Timestamps are set by the service only, so they are not part of the input schemas.
+const TimestampSchema = z.string().optional();
+
+// Written by the review endpoint when a task is rejected
+const ReviewFeedbackSchema = z.looseObject({
+  feedback: z.string(),
+  rejectedAt: z.string(),
+  reviewer: z.string().optional()
+});
+
+export const StoredTaskSchema = TaskSchema.extend({
+  // Statuses written by other tools are kept even when the editor doesn't know them
+  status: z.string().optional(),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema,
+  completedAt: TimestampSchema,
+  approvedAt: TimestampSchema,
+  reviewFeedback: z.array(ReviewFeedbackSchema).optional()
+}).loose();
+
+export const StoredRequestSchema = RequestSchema.extend({
+  tasks: z.array(StoredTaskSchema),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema,
+  completedAt: TimestampSchema
+}).loose();
+
+export const TasksDataSchema = z.looseObject({
+  schemaVersion: z.number().int().min(0).optional(),
+  requests: z.array(StoredRequestSchema)
 });
 
 // Form validation schemas
@@ -28,7 +72,9 @@ export const TaskFormSchema = z.object({
   description: z.string().min(1, 'Description is required'),
   done: z.boolean(),
   approved: z.boolean(),
-  completedDetails: z.string()
+  completedDetails: z.string(),
+  status: TaskStatusSchema.optional(),
+  blockedReason: z.string().optional()
 });
 
 export const RequestFormSchema = z.object({
@@ -47,6 +93,157 @@ export const TaskIdSchema = z.object({
   taskId: z.string().min(1, 'Task ID is required')
 });
 
+// Backup schemas
+export const CreateBackupSchema = z.object({
+  label: z.string().trim().max(200, 'Label too long').optional()
+});
+
+export const RetentionPolicySchema = z.object({
+  minimum: z.number().int().min(0),
+  tiers: z.array(z.object({
+    maxAgeHours: z.number().positive(),
+    everyHours: z.number().min(0)
+  }))
+});
+
+export const WorkflowRulesSchema = z.object({
+  approveRequiresDone: z.boolean(),
+  undoneClearsApproval: z.boolean(),
+  doneRequiresDetails: z.boolean()
+}).partial();
+
+export const ReviewSchema = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approve') }),
+  z.object({
+    decision: z.literal('reject'),
+    feedback: z.string().trim().min(1, 'Feedback is required when rejecting a task').max(2000, 'Feedback too long')
+  })
+]);
+
+const BulkTaskTarget = {
+  requestId: z.string().min(1, 'Request ID is required'),
+  taskId: z.string().min(1, 'Task ID is required')
+};
+
+export const BulkOperationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('deleteRequest'), requestId: BulkTaskTarget.requestId }),
+  z.object({ type: z.literal('completeRequest'), requestId: BulkTaskTarget.requestId, completed: z.boolean().default(true) }),
+  z.object({ type: z.literal('approveTask'), ...BulkTaskTarget, approved: z.boolean().default(true) }),
+  z.object({ type: z.literal('setTaskDone'), ...BulkTaskTarget, done: z.boolean().default(true) }),
+  z.object({ type: z.literal('deleteTask'), ...BulkTaskTarget }),
+  z.object({ type: z.literal('moveTask'), ...BulkTaskTarget, toRequestId: z.string().min(1, 'Target request ID is required') })
+]);
+
+export const BulkSchema = z.object({
+  operations: z.array(BulkOperationSchema)
+    .min(1, 'At least one operation is required')
+    .max(500, 'At most 500 operations per request')
+});
+
+const TaskBatchIds = z.array(z.string().min(1))
+  .min(1, 'Select at least one task')
+  .max(500, 'At most 500 tasks per batch');
+
+export const TaskBatchSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.enum(['done', 'undone', 'approve', 'unapprove', 'delete']), taskIds: TaskBatchIds }),
+  z.object({ action: z.literal('move'), taskIds: TaskBatchIds, toRequestId: z.string().min(1, 'Target request ID is required') })
+]);
+
+export const TaskTransferSchema = z.object({
+  toRequestId: z.string().min(1, 'Target request ID is required'),
+  // Moves only: leave a note in the source request saying where the task went
+  tombstone: z.boolean().optional()
+});
+
+export const TaskOrderSchema = z.object({
+  taskIds: z.array(z.string().min(1))
+    .min(1, 'Task order is required')
+    .refine(ids => new Set(ids).size === ids.length, 'Each task may appear only once')
+});
+
+export const RequestSplitSchema = z.object({
+  taskIds: z.array(z.string().min(1)).min(1, 'Choose at least one task to split off'),
+  originalRequest: z.string().min(1, 'Original request is required').optional(),
+  splitDetails: z.string().optional()
+});
+
+export const RequestMergeSchema = z.object({
+  requestIds: z.array(z.string().min(1))
+    .min(1, 'Choose at least one request to merge in')
+    .refine(ids => new Set(ids).size === ids.length, 'Each request may appear only once'),
+  originalRequest: z.string().min(1, 'Original request is required').optional(),
+  splitDetails: z.string().optional(),
+  sourceEtags: z.record(z.string(), z.string().min(1)).optional()
+});
+
+const TemplateTaskSchema = z.object({
+  title: z.string().min(1, 'Task title is required').max(200, 'Title too long'),
+  description: z.string().min(1, 'Task description is required')
+});
+
+export const TemplateCreateSchema = z.object({
+  requestId: z.string().min(1, 'Request ID is required'),
+  name: z.string().trim().min(1, 'Template name is required').max(100, 'Template name too long')
+});
+
+export const TemplateUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100, 'Template name too long').optional(),
+  originalRequest: z.string().min(1, 'Original request is required').optional(),
+  splitDetails: z.string().optional(),
+  tasks: z.array(TemplateTaskSchema).optional()
+});
+
+// Templates as kept in the template library, which other tools may write to;
+// unknown fields are kept
+export const StoredTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  originalRequest: z.string(),
+  splitDetails: z.string(),
+  tasks: z.array(TemplateTaskSchema),
+  placeholders: z.array(z.string()),
+  sourceRequestId: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional()
+}).loose();
+
+export const TemplateInstantiateSchema = z.object({
+  values: z.record(z.string(), z.string()).optional()
+});
+
+export const UndoSchema = z.object({
+  steps: z.number().int().min(1).max(100).optional()
+});
+
+export const MigrateSchemaSchema = z.object({
+  targetVersion: z.number().int().min(0).optional(),
+  dryRun: z.boolean().optional()
+});
+
+export const RestoreRecordSchema = z.object({
+  requestId: z.string().min(1, 'Request ID is required'),
+  taskId: z.string().min(1).optional()
+});
+
+export const RevertSchema = z.object({
+  versionId: z.string().min(1, 'Version ID is required')
+});
+
+// Workspace registry schemas
+export const WorkspaceSchema = z.object({
+  name: z.string()
+    .min(1, 'Workspace name is required')
+    .max(64, 'Workspace name too long')
+    .regex(/^[a-zA-Z0-9][a-zA-Z0-9_-]*$/, 'Use letters, numbers, dashes and underscores'),
+  path: z.string().min(1, 'Workspace path is required'),
+  backupDir: z.string().min(1).optional(),
+  lockFile: z.string().min(1).optional()
+});
+
+export const WorkspaceRegistrySchema = z.object({
+  workspaces: z.array(WorkspaceSchema)
+});
+
 // Search and filter schemas
 export const SearchFiltersSchema = z.object({
   query: z.string().optional(),
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { AuditActor, AuditEntry, ChangeKind, TasksData } from '@/types';
+import { diffFields, diffTasksData, SKIP_REQUEST_FIELDS, SKIP_TASK_FIELDS } from '@/utils/diff';
+
+/**
+ * Every field of a record that was added (from nothing) or removed (to nothing)
+ */
+function wholeRecordFields(record: object | undefined, change: ChangeKind, skip: string[]) {
+  if (!record) return [];
+  return change === 'added' ? diffFields({}, record, skip) : diffFields(record, {}, skip);
+}
+
+/**
+ * Build one audit entry per request and task that differs between two
+ * versions of the data, with field-level before/after values
+ */
+export function auditChanges(
+  before: TasksData,
+  after: TasksData,
+  actor: AuditActor,
+  operation?: string,
+  timestamp: string = new Date().toISOString()
+): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  const add = (entry: Omit<AuditEntry, 'id' | 'timestamp' | 'actor' | 'operation'>) => entries.push({
+    id: crypto.randomUUID(),
+    timestamp,
+    actor,
+    ...entry,
+    ...(operation && { operation })
+  });
+
+  for (const diff of diffTasksData(before, after).requests) {
+    const from = before.requests.find(request => request.requestId === diff.requestId);
+    const to = after.requests.find(request => request.requestId === diff.requestId);
+    const source = diff.change === 'removed' ? from : to;
+
+    const fields = diff.change === 'modified' ? diff.fields : wholeRecordFields(source, diff.change, SKIP_REQUEST_FIELDS);
+    if (fields.length > 0 || diff.change !== 'modified') {
+      add({ requestId: diff.requestId, change: diff.change, title: diff.title, fields });
+    }
+
+    for (const task of diff.tasks) {
+      const record = (task.change === 'removed' ? from : to)?.tasks.find(candidate => candidate.id === task.taskId);
+      add({
+        requestId: diff.requestId,
+        taskId: task.taskId,
+        change: task.change,
+        title: task.title,
+        fields: task.change === 'modified' ? task.fields : wholeRecordFields(record, task.change, SKIP_TASK_FIELDS)
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Parse the stored audit log. Anything unreadable is treated as empty rather
+ * than blocking saves.
+ */
+export function parseAudit(content: string | null): AuditEntry[] {
+  if (!content) return [];
+  try {
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed?.entries) ? parsed.entries : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Entries for a request (including its tasks) or a single task, newest first
+ */
+export function historyFor(entries: AuditEntry[], requestId: string, taskId?: string): AuditEntry[] {
+  return entries
+    .filter(entry => entry.requestId === requestId && (!taskId || entry.taskId === taskId))
+    .reverse();
+}
@@ -0,0 +1,90 @@
+import { BackupType, RetentionPolicy } from '@/types';
+import { RetentionPolicySchema } from '@/schemas/validation';
+import { DEFAULT_VALUES } from '@/constants';
+
+const HOUR = 60 * 60 * 1000;
+
+export interface RetainedBackup {
+  name: string;
+  type: BackupType;
+  /** Timestamp part of the backup name */
+  timestamp: string;
+}
+
+/**
+ * Every backup from the last hour, one per hour for a day, then one per day
+ * for BACKUP_RETENTION_DAYS
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  minimum: DEFAULT_VALUES.MIN_BACKUPS,
+  tiers: [
+    { maxAgeHours: 1, everyHours: 0 },
+    { maxAgeHours: 24, everyHours: 1 },
+    { maxAgeHours: DEFAULT_VALUES.BACKUP_RETENTION_DAYS * 24, everyHours: 24 }
+  ]
+};
+
+/**
+ * Resolve the retention policy, which can be overridden with a JSON policy in
+ * TASKS_BACKUP_RETENTION
+ */
+export function getRetentionPolicy(value: string | undefined = process.env.TASKS_BACKUP_RETENTION): RetentionPolicy {
+  if (!value) {
+    return DEFAULT_RETENTION_POLICY;
+  }
+
+  try {
+    return RetentionPolicySchema.parse(JSON.parse(value));
+  } catch (error) {
+    console.error('Invalid TASKS_BACKUP_RETENTION, using the default policy:', error);
+    return DEFAULT_RETENTION_POLICY;
+  }
+}
+
+/**
+ * Turn a backup name timestamp (an ISO date with `:` and `.` replaced by `-`)
+ * back into epoch milliseconds. Returns NaN when it can't be parsed.
+ */
+export function parseBackupTimestamp(timestamp: string): number {
+  const iso = timestamp.replace(/^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, '$1:$2:$3.$4Z');
+  return Date.parse(iso);
+}
+
+/**
+ * Pick the backups a retention policy no longer needs. Manual backups are
+ * never pruned. Within each tier the oldest backup of every window is kept,
+ * so the survivor of a window doesn't change as newer backups arrive.
+ */
+export function selectBackupsToPrune(backups: RetainedBackup[], policy: RetentionPolicy, now: number = Date.now()): string[] {
+  const tiers = [...policy.tiers].sort((a, b) => a.maxAgeHours - b.maxAgeHours);
+  const candidates = backups
+    .filter(backup => backup.type !== 'manual')
+    .map(backup => ({ ...backup, time: parseBackupTimestamp(backup.timestamp) }))
+    // Newest first; unparseable names sort last
+    .sort((a, b) => (Number.isNaN(b.time) ? -Infinity : b.time) - (Number.isNaN(a.time) ? -Infinity : a.time));
+
+  const keep = new Set(candidates.slice(0, policy.minimum).map(backup => backup.name));
+  const windows = new Set<string>();
+
+  for (const backup of [...candidates].reverse()) {
+    if (Number.isNaN(backup.time)) continue;
+
+    const age = now - backup.time;
+    const tierIndex = tiers.findIndex(tier => age <= tier.maxAgeHours * HOUR);
+    if (tierIndex === -1) continue;
+
+    const tier = tiers[tierIndex];
+    if (tier.everyHours === 0) {
+      keep.add(backup.name);
+      continue;
+    }
+
+    const window = `${tierIndex}:${Math.floor(backup.time / (tier.everyHours * HOUR))}`;
+    if (!windows.has(window)) {
+      windows.add(window);
+      keep.add(backup.name);
+    }
+  }
+
+  return candidates.filter(backup => !keep.has(backup.name)).map(backup => backup.name);
+}
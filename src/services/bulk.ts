@@ -0,0 +1,21 @@
+import { BulkOperation, TaskBatch } from '@/types';
+
+/**
+ * Expand a batch action on tasks of one request into a bulk operation per task
+ */
+export function taskBatchOperations(requestId: string, batch: TaskBatch): BulkOperation[] {
+  return batch.taskIds.map((taskId): BulkOperation => {
+    switch (batch.action) {
+      case 'done':
+      case 'undone':
+        return { type: 'setTaskDone', requestId, taskId, done: batch.action === 'done' };
+      case 'approve':
+      case 'unapprove':
+        return { type: 'approveTask', requestId, taskId, approved: batch.action === 'approve' };
+      case 'delete':
+        return { type: 'deleteTask', requestId, taskId };
+      case 'move':
+        return { type: 'moveTask', requestId, taskId, toRequestId: batch.toRequestId ?? '' };
+    }
+  });
+}
@@ -0,0 +1,70 @@
+import { CompletionPolicy, CompletionStatus, Request, TasksData } from '@/types';
+import { CompletionPolicySchema } from '@/schemas/validation';
+
+/**
+ * Global completion policy. TASKS_COMPLETION_POLICY=allDone or allApproved
+ * derives `completed` from the tasks; the default leaves it to the user.
+ */
+export function getCompletionPolicy(value: string | undefined = process.env.TASKS_COMPLETION_POLICY): CompletionPolicy {
+  if (!value) {
+    return 'manual';
+  }
+
+  const parsed = CompletionPolicySchema.safeParse(value);
+  if (!parsed.success) {
+    console.error(`Invalid TASKS_COMPLETION_POLICY "${value}", completion is manual`);
+    return 'manual';
+  }
+  return parsed.data;
+}
+
+/**
+ * Whether a request is complete under an automatic policy. A request without
+ * tasks never is.
+ */
+export function isComplete(request: Request, policy: Exclude<CompletionPolicy, 'manual'>): boolean {
+  const flag = policy === 'allDone' ? 'done' : 'approved';
+  return request.tasks.length > 0 && request.tasks.every(task => task[flag]);
+}
+
+/**
+ * Which policy applies to a request and why it is or isn't complete
+ */
+export function completionStatus(request: Request, globalPolicy: CompletionPolicy): CompletionStatus {
+  const policy = request.completionPolicy ?? globalPolicy;
+  const inherited = !request.completionPolicy;
+  if (policy === 'manual') {
+    return { policy, inherited, managed: false, reason: 'Completion is set by hand' };
+  }
+
+  const flag = policy === 'allDone' ? 'done' : 'approved';
+  const count = request.tasks.filter(task => task[flag]).length;
+  const total = request.tasks.length;
+  let reason: string;
+  if (total === 0) {
+    reason = 'No tasks yet';
+  } else if (count === total) {
+    reason = `All ${total} tasks ${flag}`;
+  } else {
+    reason = `${count} of ${total} tasks ${flag}`;
+  }
+  return { policy, inherited, managed: true, reason };
+}
+
+/**
+ * Recompute `completed` on every request a mutation added or changed whose
+ * policy is automatic. Requests it didn't touch are left alone, so turning a
+ * policy on doesn't rewrite the whole file.
+ */
+export function applyCompletionPolicy(before: TasksData, after: TasksData, globalPolicy: CompletionPolicy): void {
+  const previousRequests = new Map(before.requests.map(request => [request.requestId, request]));
+  for (const request of after.requests) {
+    const previous = previousRequests.get(request.requestId);
+    if (previous && JSON.stringify(previous) === JSON.stringify(request)) continue;
+
+    const policy = request.completionPolicy ?? globalPolicy;
+    if (policy !== 'manual') {
+      request.completed = isComplete(request, policy);
+    }
+  }
+}
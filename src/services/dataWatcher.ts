@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { DataChangeEvent, RequestChange, StorageAdapter, TasksData } from '@/types';
+import { DEFAULT_VALUES } from '@/constants';
+import { TasksDataService } from '@/services/tasksDataService';
+
+type RecordHashes = Map<string, { hash: string; tasks: Map<string, string> }>;
+
+function hashOf(value: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+/**
+ * Index every request and task by a hash of its content
+ */
+export function snapshot(data: TasksData): RecordHashes {
+  const hashes: RecordHashes = new Map();
+  for (const request of data.requests) {
+    hashes.set(request.requestId, {
+      hash: hashOf(request),
+      tasks: new Map(request.tasks.map(task => [task.id, hashOf(task)]))
+    });
+  }
+  return hashes;
+}
+
+/**
+ * Work out which requests and tasks differ between two snapshots
+ */
+export function diffSnapshots(previous: RecordHashes, next: RecordHashes): RequestChange[] {
+  const changes: RequestChange[] = [];
+
+  for (const [requestId, entry] of next) {
+    const before = previous.get(requestId);
+    if (!before) {
+      changes.push({ requestId, change: 'added', taskIds: [...entry.tasks.keys()] });
+    } else if (before.hash !== entry.hash) {
+      const taskIds = new Set<string>();
+      for (const [taskId, hash] of entry.tasks) {
+        if (before.tasks.get(taskId) !== hash) taskIds.add(taskId);
+      }
+      for (const taskId of before.tasks.keys()) {
+        if (!entry.tasks.has(taskId)) taskIds.add(taskId);
+      }
+      changes.push({ requestId, change: 'modified', taskIds: [...taskIds] });
+    }
+  }
+
+  for (const [requestId, entry] of previous) {
+    if (!next.has(requestId)) {
+      changes.push({ requestId, change: 'removed', taskIds: [...entry.tasks.keys()] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Watches the tasks data (including writes made by the MCP agent through the
+ * linktasks.sh symlink) and publishes which records changed.
+ */
+export class TasksFileWatcher {
+  private static instances = new Map<string, TasksFileWatcher>();
+  private emitter = new EventEmitter();
+  private unwatch: (() => void) | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private lastChecksum: string | null = null;
+  private lastSnapshot: RecordHashes = new Map();
+
+  private constructor(private storage: StorageAdapter) {
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * One watcher per data store, shared by every subscriber of that workspace
+   */
+  static getInstance(service: TasksDataService = TasksDataService.getInstance()): TasksFileWatcher {
+    const storage = service.getStorage();
+    let watcher = TasksFileWatcher.instances.get(storage.location);
+    if (!watcher) {
+      watcher = new TasksFileWatcher(storage);
+      TasksFileWatcher.instances.set(storage.location, watcher);
+    }
+    return watcher;
+  }
+
+  /**
+   * Subscribe to change events. Storage is only watched while someone is listening.
+   */
+  subscribe(listener: (event: DataChangeEvent) => void): () => void {
+    this.emitter.on('change', listener);
+    if (!this.unwatch) {
+      this.start();
+    }
+
+    return () => {
+      this.emitter.off('change', listener);
+      if (this.emitter.listenerCount('change') === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  private start(): void {
+    // Prime the snapshot so the first event only reports real differences
+    this.readCurrent().then(current => {
+      if (current) {
+        this.lastChecksum = current.checksum;
+        this.lastSnapshot = snapshot(current.data);
+      }
+    });
+
+    this.unwatch = this.storage.watch(() => this.scheduleCheck());
+  }
+
+  private stop(): void {
+    this.unwatch?.();
+    this.unwatch = null;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+  }
+
+  private scheduleCheck(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.check().catch(error => console.error('Failed to process tasks file change:', error));
+    }, DEFAULT_VALUES.FILE_WATCH_DEBOUNCE);
+  }
+
+  private async readCurrent(): Promise<{ checksum: string; data: TasksData } | null> {
+    try {
+      const content = await this.storage.read();
+      const data = JSON.parse(content) as TasksData;
+      if (!Array.isArray(data.requests)) return null;
+      // Same checksum the service stores alongside each save
+      const checksum = crypto.createHash('sha256').update(content).digest('hex');
+      return { checksum, data };
+    } catch {
+      // Missing or half-written file: wait for the next change event
+      return null;
+    }
+  }
+
+  private async check(): Promise<void> {
+    const current = await this.readCurrent();
+    if (!current || current.checksum === this.lastChecksum) return;
+
+    const nextSnapshot = snapshot(current.data);
+    const requests = diffSnapshots(this.lastSnapshot, nextSnapshot);
+    this.lastChecksum = current.checksum;
+    this.lastSnapshot = nextSnapshot;
+
+    if (requests.length === 0) return;
+
+    // The service stores a checksum alongside every save it makes
+    const storedChecksum = await this.storage.readChecksum().catch(() => null);
+
+    this.emitter.emit('change', {
+      checksum: current.checksum,
+      source: storedChecksum === current.checksum ? 'editor' : 'external',
+      timestamp: new Date().toISOString(),
+      requests
+    } satisfies DataChangeEvent);
+  }
+}
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import { ApiError, ChangeKind, JournalChange, JournalEntry, Request, TasksData } from '@/types';
+import { diffTasksData } from '@/utils/diff';
+
+const VERBS: Record<ChangeKind, string> = {
+  added: 'Create',
+  removed: 'Delete',
+  modified: 'Update'
+};
+
+/**
+ * Record every request that differs between two versions of the data
+ */
+export function computeChanges(before: TasksData, after: TasksData): JournalChange[] {
+  const changes: JournalChange[] = [];
+  const beforeIndex = new Map(before.requests.map((request, index) => [request.requestId, index]));
+  const afterIndex = new Map(after.requests.map((request, index) => [request.requestId, index]));
+
+  after.requests.forEach((request, index) => {
+    const previousIndex = beforeIndex.get(request.requestId);
+    const previous = previousIndex === undefined ? null : before.requests[previousIndex];
+    if (!previous || JSON.stringify(previous) !== JSON.stringify(request)) {
+      changes.push({
+        requestId: request.requestId,
+        before: previous,
+        beforeIndex: previousIndex ?? -1,
+        after: request,
+        afterIndex: index
+      });
+    }
+  });
+
+  before.requests.forEach((request, index) => {
+    if (!afterIndex.has(request.requestId)) {
+      changes.push({ requestId: request.requestId, before: request, beforeIndex: index, after: null, afterIndex: -1 });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Summarise a set of changes for the undo toast and journal listing
+ */
+export function describeChanges(changes: JournalChange[]): string {
+  if (changes.length !== 1) {
+    return `Change ${changes.length} requests`;
+  }
+
+  const [change] = changes;
+  if (!change.before) return `Create request ${change.requestId}`;
+  if (!change.after) return `Delete request ${change.requestId}`;
+
+  // Name the task when only one task changed
+  const [diff] = diffTasksData({ requests: [change.before] }, { requests: [change.after] }).requests;
+  if (diff && diff.fields.length === 0 && diff.tasks.length === 1) {
+    const [task] = diff.tasks;
+    return `${VERBS[task.change]} task ${task.taskId} in ${change.requestId}`;
+  }
+  return `Update request ${change.requestId}`;
+}
+
+/**
+ * Apply a journalled mutation forwards (redo) or backwards (undo). Every
+ * request must still be in the state the mutation left it in (or, for redo,
+ * the state it started from); otherwise someone changed it since and applying
+ * the entry would overwrite their work.
+ */
+export function applyChanges(data: TasksData, changes: JournalChange[], direction: 'undo' | 'redo'): void {
+  const steps = changes.map(change => direction === 'undo'
+    ? { requestId: change.requestId, expected: change.after, target: change.before, index: change.beforeIndex }
+    : { requestId: change.requestId, expected: change.before, target: change.after, index: change.afterIndex });
+
+  for (const step of steps) {
+    const current = data.requests.find(request => request.requestId === step.requestId) ?? null;
+    if (JSON.stringify(current) !== JSON.stringify(step.expected)) {
+      throw new ApiError(`Request ${step.requestId} has changed since; it can't be ${direction === 'undo' ? 'undone' : 'redone'}`, 409);
+    }
+  }
+
+  // Take every affected request out, then put the targets back in position order
+  const affected = new Set(steps.map(step => step.requestId));
+  data.requests = data.requests.filter(request => !affected.has(request.requestId));
+
+  const inserts = steps
+    .filter((step): step is typeof step & { target: Request } => step.target !== null)
+    .sort((a, b) => a.index - b.index);
+  for (const step of inserts) {
+    data.requests.splice(Math.min(step.index, data.requests.length), 0, structuredClone(step.target));
+  }
+}
+
+export function createEntry(kind: JournalEntry['kind'], description: string, changes: JournalChange[], target?: string): JournalEntry {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    kind,
+    description,
+    changes,
+    ...(target && { target })
+  };
+}
+
+/**
+ * Replay the journal to find which mutations can currently be undone and redone.
+ * Both stacks are returned with the next candidate last.
+ */
+export function replayJournal(entries: JournalEntry[]): { undo: JournalEntry[]; redo: JournalEntry[] } {
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  let undo: JournalEntry[] = [];
+  let redo: JournalEntry[] = [];
+
+  for (const entry of entries) {
+    if (entry.kind === 'mutation') {
+      undo.push(entry);
+      redo = [];
+      continue;
+    }
+
+    const target = entry.target ? byId.get(entry.target) : undefined;
+    if (!target) continue;
+
+    if (entry.kind === 'undo') {
+      undo = undo.filter(candidate => candidate.id !== target.id);
+      redo.push(target);
+    } else {
+      redo = redo.filter(candidate => candidate.id !== target.id);
+      undo.push(target);
+    }
+  }
+
+  return { undo, redo };
+}
+
+/**
+ * Parse a stored journal. Anything unreadable is treated as an empty journal
+ * rather than blocking saves.
+ */
+export function parseJournal(content: string | null): JournalEntry[] {
+  if (!content) return [];
+  try {
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed?.entries) ? parsed.entries : [];
+  } catch {
+    return [];
+  }
+}
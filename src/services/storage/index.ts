@@ -0,0 +1,34 @@
+import { StorageAdapter, StorageBackend } from '@/types';
+import { DEFAULT_STORAGE_BACKEND, STORAGE_BACKENDS } from '@/constants';
+import { JsonFileStorage } from './jsonFileStorage';
+import { MemoryStorage } from './memoryStorage';
+import { SqliteStorage } from './sqliteStorage';
+
+export { JsonFileStorage, MemoryStorage, SqliteStorage };
+
+/**
+ * Resolve the configured backend from TASKS_STORAGE, defaulting to tasks.json
+ */
+export function getStorageBackend(value: string | undefined = process.env.TASKS_STORAGE): StorageBackend {
+  const backend = (value || DEFAULT_STORAGE_BACKEND).trim().toLowerCase();
+  if (!(STORAGE_BACKENDS as readonly string[]).includes(backend)) {
+    throw new Error(`Unknown TASKS_STORAGE backend "${value}". Expected one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+  return backend as StorageBackend;
+}
+
+/**
+ * Create the storage adapter for a backend. The SQLite database path can be
+ * set with TASKS_SQLITE_PATH; it defaults to tasks.db in the working directory.
+ */
+export function createStorageAdapter(backend: StorageBackend = getStorageBackend()): StorageAdapter {
+  switch (backend) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'sqlite':
+      return new SqliteStorage(process.env.TASKS_SQLITE_PATH || undefined);
+    case 'json':
+    default:
+      return new JsonFileStorage();
+  }
+}
@@ -0,0 +1,219 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { hostname } from 'os';
+import { ApiError, StorageAdapter } from '@/types';
+
+const LOCK_TIMEOUT = 30000; // 30 seconds lock timeout
+
+export interface JsonFileStorageOptions {
+  backupDir?: string;
+  lockPath?: string;
+}
+
+/**
+ * Stores tasks.json on disk next to the MCP server's copy, with a lock file,
+ * a checksum file and a .backups directory
+ */
+export class JsonFileStorage implements StorageAdapter {
+  readonly backend = 'json' as const;
+  readonly location: string;
+  readonly backupLocation: string;
+  private lockPath: string;
+  private documentPrefix: string;
+  private lockFile: number | null = null;
+
+  /**
+   * @param location tasks file, or a directory containing tasks.json
+   */
+  constructor(location: string = process.cwd(), options: JsonFileStorageOptions = {}) {
+    this.location = location.endsWith('.json') ? location : path.join(location, 'tasks.json');
+    const directory = path.dirname(this.location);
+    const fileName = path.basename(this.location, '.json');
+    this.backupLocation = options.backupDir ?? path.join(directory, '.backups');
+    this.lockPath = options.lockPath ?? path.join(directory, `.${fileName}.lock`);
+    this.documentPrefix = path.join(directory, `.${fileName}.`);
+  }
+
+  private get checksumPath(): string {
+    return `${this.location}.checksum`;
+  }
+
+  async exists(): Promise<boolean> {
+    return fs.pathExists(this.location);
+  }
+
+  async read(): Promise<string> {
+    return fs.readFile(this.location, 'utf-8');
+  }
+
+  /**
+   * Write to temporary files, verify them and rename into place
+   */
+  async write(content: string, checksum: string): Promise<void> {
+    const tempPath = `${this.location}.tmp`;
+    const tempChecksumPath = `${tempPath}.checksum`;
+
+    try {
+      console.log(`📝 Writing data to temporary file: ${tempPath}`);
+      await fs.writeFile(tempPath, content);
+      await fs.writeFile(tempChecksumPath, checksum);
+
+      // Verify the written data
+      const writtenData = await fs.readFile(tempPath, 'utf-8');
+      if (writtenData !== content) {
+        throw new Error('Data integrity check failed after write');
+      }
+
+      console.log(`🔄 Renaming temporary files to final location...`);
+      await fs.rename(tempPath, this.location);
+      await fs.rename(tempChecksumPath, this.checksumPath);
+    } catch (error) {
+      console.log(`❌ Error during file operations, cleaning up...`);
+      await fs.unlink(tempPath).catch(() => {});
+      await fs.unlink(tempChecksumPath).catch(() => {});
+      throw error;
+    }
+  }
+
+  async readChecksum(): Promise<string | null> {
+    if (!await fs.pathExists(this.checksumPath)) {
+      return null;
+    }
+    return (await fs.readFile(this.checksumPath, 'utf-8')).trim();
+  }
+
+  /**
+   * Acquire the lock file. It is shared with the MCP server, so stale locks
+   * left behind by a crashed process are removed after LOCK_TIMEOUT.
+   */
+  async acquireLock(): Promise<void> {
+    const startTime = Date.now();
+
+    while (Date.now() - startTime < LOCK_TIMEOUT) {
+      try {
+        // Create a lock file with exclusive access
+        this.lockFile = await fs.open(this.lockPath, 'wx');
+
+        // Write process ID and timestamp to lock file
+        const lockInfo = {
+          pid: process.pid,
+          timestamp: new Date().toISOString(),
+          host: hostname()
+        };
+        await fs.writeFile(this.lockFile, JSON.stringify(lockInfo, null, 2));
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+          // Lock file exists, check if it's stale
+          try {
+            const lockContent = await fs.readFile(this.lockPath, 'utf-8');
+            const lockInfo = JSON.parse(lockContent);
+            const lockAge = Date.now() - new Date(lockInfo.timestamp).getTime();
+
+            // If lock is older than timeout, remove it and try again
+            if (lockAge > LOCK_TIMEOUT) {
+              await fs.unlink(this.lockPath);
+              continue;
+            }
+          } catch {
+            // Invalid lock file, remove it
+            await fs.unlink(this.lockPath).catch(() => {});
+            continue;
+          }
+
+          // Wait a bit before retrying
+          await new Promise(resolve => setTimeout(resolve, 100));
+        } else {
+          throw new ApiError('Failed to acquire file lock', 500);
+        }
+      }
+    }
+
+    throw new ApiError('Timeout waiting for file lock', 409);
+  }
+
+  async releaseLock(): Promise<void> {
+    if (this.lockFile) {
+      try {
+        await fs.close(this.lockFile);
+        await fs.unlink(this.lockPath);
+      } catch (error) {
+        console.error('Error releasing lock:', error);
+      } finally {
+        this.lockFile = null;
+      }
+    }
+  }
+
+  async listBackups(): Promise<string[]> {
+    try {
+      return await fs.readdir(this.backupLocation);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async readBackup(name: string): Promise<string> {
+    return fs.readFile(path.join(this.backupLocation, name), 'utf-8');
+  }
+
+  async writeBackup(name: string, content: string): Promise<string> {
+    await fs.ensureDir(this.backupLocation);
+    const backupPath = path.join(this.backupLocation, name);
+    await fs.writeFile(backupPath, content);
+    return backupPath;
+  }
+
+  async deleteBackup(name: string): Promise<void> {
+    await fs.unlink(path.join(this.backupLocation, name));
+  }
+
+  /**
+   * Sidecar documents sit next to the tasks file, e.g. .tasks.journal.json
+   */
+  async readDocument(name: string): Promise<string | null> {
+    const documentPath = `${this.documentPrefix}${name}.json`;
+    if (!await fs.pathExists(documentPath)) {
+      return null;
+    }
+    return fs.readFile(documentPath, 'utf-8');
+  }
+
+  async writeDocument(name: string, content: string): Promise<void> {
+    const documentPath = `${this.documentPrefix}${name}.json`;
+    await fs.writeFile(`${documentPath}.tmp`, content);
+    await fs.rename(`${documentPath}.tmp`, documentPath);
+  }
+
+  /**
+   * Watch the directory rather than the file: atomic saves replace the file's
+   * inode, and the MCP agent may write through the linktasks.sh symlink
+   */
+  watch(onChange: () => void): () => void {
+    const fileName = path.basename(this.location);
+    let watcher: fs.FSWatcher | null = null;
+
+    try {
+      watcher = fs.watch(path.dirname(this.location), (_event, changed) => {
+        if (!changed || changed.toString() === fileName) {
+          onChange();
+        }
+      });
+      watcher.on('error', error => {
+        console.error('Tasks file watcher error:', error);
+        watcher?.close();
+        watcher = null;
+      });
+    } catch (error) {
+      console.error('Failed to watch tasks file:', error);
+    }
+
+    return () => {
+      watcher?.close();
+      watcher = null;
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { EventEmitter } from 'events';
+import { ApiError, StorageAdapter, TasksData } from '@/types';
+
+const LOCK_TIMEOUT = 30000; // 30 seconds lock timeout
+
+/**
+ * Keeps the tasks document in process memory. Nothing survives a restart,
+ * which makes it suitable for tests and demos.
+ */
+export class MemoryStorage implements StorageAdapter {
+  readonly backend = 'memory' as const;
+  readonly location = 'memory://tasks.json';
+  readonly backupLocation = 'memory://backups';
+  private content: string | null = null;
+  private checksum: string | null = null;
+  private backups = new Map<string, string>();
+  private documents = new Map<string, string>();
+  private locked = false;
+  private emitter = new EventEmitter();
+
+  constructor(seed?: TasksData) {
+    this.emitter.setMaxListeners(0);
+    if (seed) {
+      this.content = JSON.stringify(seed, null, 2);
+    }
+  }
+
+  async exists(): Promise<boolean> {
+    return this.content !== null;
+  }
+
+  async read(): Promise<string> {
+    if (this.content === null) {
+      throw new Error('No tasks data stored in memory');
+    }
+    return this.content;
+  }
+
+  async write(content: string, checksum: string): Promise<void> {
+    this.content = content;
+    this.checksum = checksum;
+    this.emitter.emit('change');
+  }
+
+  async readChecksum(): Promise<string | null> {
+    return this.checksum;
+  }
+
+  async acquireLock(): Promise<void> {
+    const startTime = Date.now();
+    while (this.locked) {
+      if (Date.now() - startTime >= LOCK_TIMEOUT) {
+        throw new ApiError('Timeout waiting for storage lock', 409);
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    this.locked = true;
+  }
+
+  async releaseLock(): Promise<void> {
+    this.locked = false;
+  }
+
+  async listBackups(): Promise<string[]> {
+    return [...this.backups.keys()];
+  }
+
+  async readBackup(name: string): Promise<string> {
+    const backup = this.backups.get(name);
+    if (backup === undefined) {
+      throw new Error(`Backup not found: ${name}`);
+    }
+    return backup;
+  }
+
+  async writeBackup(name: string, content: string): Promise<string> {
+    this.backups.set(name, content);
+    return `${this.backupLocation}/${name}`;
+  }
+
+  async deleteBackup(name: string): Promise<void> {
+    this.backups.delete(name);
+  }
+
+  async readDocument(name: string): Promise<string | null> {
+    return this.documents.get(name) ?? null;
+  }
+
+  async writeDocument(name: string, content: string): Promise<void> {
+    this.documents.set(name, content);
+  }
+
+  watch(onChange: () => void): () => void {
+    this.emitter.on('change', onChange);
+    return () => {
+      this.emitter.off('change', onChange);
+    };
+  }
+}
@@ -0,0 +1,257 @@
+import Database from 'better-sqlite3';
+import { hostname } from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { ApiError, StorageAdapter } from '@/types';
+
+const LOCK_TIMEOUT = 30000; // 30 seconds lock timeout
+const POLL_INTERVAL = 1000; // How often watchers check for commits from other processes
+
+interface RowRecord {
+  position: number;
+  data: string;
+}
+
+/**
+ * Stores requests and tasks as rows in a SQLite database. Writes only touch
+ * rows whose content changed, so large datasets don't rewrite everything on
+ * every save.
+ */
+export class SqliteStorage implements StorageAdapter {
+  readonly backend = 'sqlite' as const;
+  readonly location: string;
+  readonly backupLocation: string;
+  private db: Database.Database;
+  private emitter = new EventEmitter();
+  private lockOwner = `${hostname()}:${process.pid}`;
+
+  constructor(filePath: string = path.join(process.cwd(), 'tasks.db')) {
+    this.location = filePath;
+    this.backupLocation = `${filePath}#backups`;
+    this.emitter.setMaxListeners(0);
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS requests (
+        request_id TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS tasks (
+        request_id TEXT NOT NULL,
+        task_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (request_id, task_id)
+      );
+      CREATE TABLE IF NOT EXISTS backups (name TEXT PRIMARY KEY, content TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS documents (name TEXT PRIMARY KEY, content TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS lock (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        owner TEXT NOT NULL,
+        acquired_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  private getMeta(key: string): string | null {
+    const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  async exists(): Promise<boolean> {
+    return this.getMeta('document') !== null;
+  }
+
+  /**
+   * Rebuild the document from its rows. Each row keeps the record's original
+   * key order, so the output matches what was written byte for byte.
+   */
+  async read(): Promise<string> {
+    const document = this.getMeta('document');
+    if (document === null) {
+      throw new Error('No tasks data stored in database');
+    }
+
+    const tasksByRequest = new Map<string, unknown[]>();
+    const taskRows = this.db
+      .prepare('SELECT request_id, data FROM tasks ORDER BY request_id, position')
+      .all() as { request_id: string; data: string }[];
+    for (const row of taskRows) {
+      const tasks = tasksByRequest.get(row.request_id) ?? [];
+      tasks.push(JSON.parse(row.data));
+      tasksByRequest.set(row.request_id, tasks);
+    }
+
+    const requestRows = this.db
+      .prepare('SELECT request_id, data FROM requests ORDER BY position')
+      .all() as { request_id: string; data: string }[];
+    const data = JSON.parse(document);
+    data.requests = requestRows.map(row => {
+      const request = JSON.parse(row.data);
+      request.tasks = tasksByRequest.get(row.request_id) ?? [];
+      return request;
+    });
+
+    return JSON.stringify(data, null, 2);
+  }
+
+  async write(content: string, checksum: string): Promise<void> {
+    const data = JSON.parse(content);
+
+    const existingRequests = new Map<string, RowRecord>();
+    for (const row of this.db.prepare('SELECT request_id, position, data FROM requests').all() as ({ request_id: string } & RowRecord)[]) {
+      existingRequests.set(row.request_id, row);
+    }
+    const existingTasks = new Map<string, RowRecord>();
+    for (const row of this.db.prepare('SELECT request_id, task_id, position, data FROM tasks').all() as ({ request_id: string; task_id: string } & RowRecord)[]) {
+      existingTasks.set(`${row.request_id}\u0000${row.task_id}`, row);
+    }
+
+    const setMeta = this.db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value');
+    const upsertRequest = this.db.prepare(`
+      INSERT INTO requests (request_id, position, data) VALUES (?, ?, ?)
+      ON CONFLICT(request_id) DO UPDATE SET position = excluded.position, data = excluded.data
+    `);
+    const deleteRequest = this.db.prepare('DELETE FROM requests WHERE request_id = ?');
+    const upsertTask = this.db.prepare(`
+      INSERT INTO tasks (request_id, task_id, position, data) VALUES (?, ?, ?, ?)
+      ON CONFLICT(request_id, task_id) DO UPDATE SET position = excluded.position, data = excluded.data
+    `);
+    const deleteTask = this.db.prepare('DELETE FROM tasks WHERE request_id = ? AND task_id = ?');
+
+    const save = this.db.transaction(() => {
+      // Keep every top-level field; requests are stored as rows
+      setMeta.run('document', JSON.stringify({ ...data, requests: [] }));
+      setMeta.run('checksum', checksum);
+
+      data.requests.forEach((request: { requestId: string; tasks: { id: string }[] }, position: number) => {
+        const row = JSON.stringify({ ...request, tasks: [] });
+        const existing = existingRequests.get(request.requestId);
+        if (!existing || existing.position !== position || existing.data !== row) {
+          upsertRequest.run(request.requestId, position, row);
+        }
+        existingRequests.delete(request.requestId);
+
+        request.tasks.forEach((task, taskPosition) => {
+          const key = `${request.requestId}\u0000${task.id}`;
+          const taskRow = JSON.stringify(task);
+          const existingTask = existingTasks.get(key);
+          if (!existingTask || existingTask.position !== taskPosition || existingTask.data !== taskRow) {
+            upsertTask.run(request.requestId, task.id, taskPosition, taskRow);
+          }
+          existingTasks.delete(key);
+        });
+      });
+
+      for (const requestId of existingRequests.keys()) {
+        deleteRequest.run(requestId);
+      }
+      for (const key of existingTasks.keys()) {
+        const [requestId, taskId] = key.split('\u0000');
+        deleteTask.run(requestId, taskId);
+      }
+    });
+
+    save();
+    this.emitter.emit('change');
+  }
+
+  async readChecksum(): Promise<string | null> {
+    return this.getMeta('checksum');
+  }
+
+  /**
+   * Take the single-row lock, clearing it if a crashed process left it behind
+   */
+  async acquireLock(): Promise<void> {
+    const startTime = Date.now();
+    const insert = this.db.prepare('INSERT INTO lock (id, owner, acquired_at) VALUES (1, ?, ?)');
+
+    while (Date.now() - startTime < LOCK_TIMEOUT) {
+      try {
+        insert.run(this.lockOwner, Date.now());
+        return;
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+          throw new ApiError('Failed to acquire database lock', 500);
+        }
+
+        const lock = this.db.prepare('SELECT acquired_at FROM lock WHERE id = 1').get() as { acquired_at: number } | undefined;
+        if (lock && Date.now() - lock.acquired_at > LOCK_TIMEOUT) {
+          this.db.prepare('DELETE FROM lock WHERE id = 1 AND acquired_at = ?').run(lock.acquired_at);
+          continue;
+        }
+
+        // Wait a bit before retrying
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+
+    throw new ApiError('Timeout waiting for database lock', 409);
+  }
+
+  async releaseLock(): Promise<void> {
+    try {
+      this.db.prepare('DELETE FROM lock WHERE id = 1 AND owner = ?').run(this.lockOwner);
+    } catch (error) {
+      console.error('Error releasing lock:', error);
+    }
+  }
+
+  async listBackups(): Promise<string[]> {
+    const rows = this.db.prepare('SELECT name FROM backups').all() as { name: string }[];
+    return rows.map(row => row.name);
+  }
+
+  async readBackup(name: string): Promise<string> {
+    const row = this.db.prepare('SELECT content FROM backups WHERE name = ?').get(name) as { content: string } | undefined;
+    if (!row) {
+      throw new Error(`Backup not found: ${name}`);
+    }
+    return row.content;
+  }
+
+  async writeBackup(name: string, content: string): Promise<string> {
+    this.db.prepare('INSERT OR REPLACE INTO backups (name, content) VALUES (?, ?)').run(name, content);
+    return `${this.backupLocation}/${name}`;
+  }
+
+  async deleteBackup(name: string): Promise<void> {
+    this.db.prepare('DELETE FROM backups WHERE name = ?').run(name);
+  }
+
+  async readDocument(name: string): Promise<string | null> {
+    const row = this.db.prepare('SELECT content FROM documents WHERE name = ?').get(name) as { content: string } | undefined;
+    return row ? row.content : null;
+  }
+
+  async writeDocument(name: string, content: string): Promise<void> {
+    this.db.prepare('INSERT OR REPLACE INTO documents (name, content) VALUES (?, ?)').run(name, content);
+  }
+
+  /**
+   * Report our own writes immediately and poll data_version for commits made
+   * by other connections to the same database
+   */
+  watch(onChange: () => void): () => void {
+    this.emitter.on('change', onChange);
+
+    let dataVersion = this.db.pragma('data_version', { simple: true });
+    const poll = setInterval(() => {
+      const current = this.db.pragma('data_version', { simple: true });
+      if (current !== dataVersion) {
+        dataVersion = current;
+        onChange();
+      }
+    }, POLL_INTERVAL);
+
+    return () => {
+      this.emitter.off('change', onChange);
+      clearInterval(poll);
+    };
+  }
+}
@@ -1,29 +1,125 @@
-import fs from 'fs-extra';
-import path from 'path';
 import crypto from 'crypto';
-import { TasksData, Request, Task, RequestSummary, ApiError } from '@/types';
-import { TasksDataSchema, RequestSchema, TaskSchema } from '@/schemas/validation';
+import { TasksData, Request, Task, RequestSummary, ApiError, MutationOptions, PreconditionFailedError, StorageAdapter, Workspace, BackupType, BackupInfo, BackupDetail, RestoreResult, RecordRestoreResult, JournalEntry, JournalStatus, UndoResult, TrashItem, TrashRestoreResult, SchemaStatus, MigrationPlan, AuditActor, AuditEntry, RecordVersion, RevertResult, WorkflowRules, CompletionPolicy, ReviewDecision, ReviewQueueItem, BulkOperation, BulkItemResult, BulkResult, TaskTransferResult, RequestSplit, SplitResult, RequestMerge, MergeResult, RequestTemplate, TemplateUpdate } from '@/types';
+import { TasksDataSchema, RequestSchema, TaskSchema, StoredRequestSchema, StoredTaskSchema } from '@/schemas/validation';
+import { computeEtag, etagMatches } from '@/utils/etag';
+import { createStorageAdapter, JsonFileStorage } from '@/services/storage';
+import { DEFAULT_VALUES, LIVE_SNAPSHOT } from '@/constants';
+import { getRetentionPolicy, selectBackupsToPrune, RetainedBackup } from '@/services/backupRetention';
+import { applyChanges, computeChanges, createEntry, describeChanges, parseJournal, replayJournal } from '@/services/journal';
+import { createTrashItem, getTrashRetentionDays, isLiveAgain, isReadableTrash, parseTrash } from '@/services/trash';
+import { stampChanges } from '@/services/timestamps';
+import { findPlaceholders, freshTask, parseTemplates, requestFromTemplate, templateFromRequest } from '@/services/templates';
+import { auditChanges, historyFor, parseAudit } from '@/services/audit';
+import { enforceWorkflow, getWorkflowRules } from '@/services/workflow';
+import { applyCompletionPolicy, completionStatus, getCompletionPolicy, isComplete } from '@/services/completion';
+import { createRequestVersion, createTaskVersion, parseVersions, pruneVersions, requestFields, versionsFor } from '@/services/versions';
+import { generateId } from '@/utils/api';
+import { applyStatus, reconcileStatus } from '@/utils/taskStatus';
+import { diffFields, diffTasksData } from '@/utils/diff';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, getSchemaVersion, getWriteSchemaVersion, migrateTo } from '@/schemas/migrations';
 
-const TASKS_FILE_PATH = path.join(process.cwd(), 'tasks.json');
-const BACKUP_DIR = path.join(process.cwd(), '.backups');
-const LOCK_FILE_PATH = path.join(process.cwd(), '.tasks.lock');
-const MAX_BACKUPS = 10; // Keep only the 10 most recent backups
-const LOCK_TIMEOUT = 30000; // 30 seconds lock timeout
+function backupTypeFromName(name: string): BackupType {
+  if (name.startsWith('tasks-manual-')) return 'manual';
+  if (name.startsWith('tasks-safety-')) return 'safety';
+  return 'auto';
+}
+
+/**
+ * Lowest free req-N id
+ */
+function nextRequestId(requests: Request[]): string {
+  return generateId('req', requests.map(r => r.requestId));
+}
+
+/**
+ * Lowest free task-N id in a request. `reserved` ids are skipped too, e.g.
+ * ones still to be added.
+ */
+function nextTaskId(tasks: Task[], reserved: Iterable<string> = []): string {
+  return generateId('task', [...tasks.map(t => t.id), ...reserved]);
+}
+
+const BACKUP_NAME_PATTERN = /^tasks-[A-Za-z0-9-]+\.json$/;
+const JOURNAL_DOCUMENT = 'journal';
+const TRASH_DOCUMENT = 'trash';
+const AUDIT_DOCUMENT = 'audit';
+const VERSIONS_DOCUMENT = 'versions';
+const TEMPLATES_DOCUMENT = 'templates';
+
+/** Changes made through the service without naming who made them */
+const DEFAULT_ACTOR: AuditActor = { type: 'api' };
+
+/**
+ * Sidecar writes a mutation asks for. They are made only once its data has
+ * been saved, so a rejected or failed save leaves them untouched.
+ */
+interface PendingWrites {
+  /** Records the mutation deleted, to keep in the trash */
+  trashed: TrashItem[];
+  /** Trash items the mutation put back */
+  untrashed: TrashItem[];
+  /** Versions of the records the mutation replaced */
+  versions: RecordVersion[];
+}
 
 export class TasksDataService {
   private static instance: TasksDataService;
+  private static workspaceInstances = new Map<string, TasksDataService>();
   private data: TasksData | null = null;
-  private lockFile: number | null = null;
+  private lockQueue: Promise<void> = Promise.resolve();
+  private retentionPolicy = getRetentionPolicy();
+  private trashRetentionDays = getTrashRetentionDays();
+  private writeSchemaVersion = getWriteSchemaVersion();
+  private workflowRules = getWorkflowRules();
+  private completionPolicy = getCompletionPolicy();
+  /** Stored content as this service last read or wrote it, to spot external edits */
+  private lastSeenContent: string | null = null;
 
-  private constructor() {}
+  private constructor(private readonly storage: StorageAdapter) {}
 
-  static getInstance(): TasksDataService {
+  /**
+   * Get the service for the default data store, or for a registered workspace
+   */
+  static getInstance(workspace?: Workspace): TasksDataService {
+    if (workspace) {
+      return TasksDataService.getWorkspaceInstance(workspace);
+    }
     if (!TasksDataService.instance) {
-      TasksDataService.instance = new TasksDataService();
+      TasksDataService.instance = new TasksDataService(createStorageAdapter());
     }
     return TasksDataService.instance;
   }
 
+  /**
+   * One service per workspace file, so each keeps its own lock queue
+   */
+  private static getWorkspaceInstance(workspace: Workspace): TasksDataService {
+    const key = JSON.stringify([workspace.path, workspace.backupDir, workspace.lockFile]);
+    let service = TasksDataService.workspaceInstances.get(key);
+    if (!service) {
+      service = new TasksDataService(new JsonFileStorage(workspace.path, {
+        backupDir: workspace.backupDir,
+        lockPath: workspace.lockFile
+      }));
+      TasksDataService.workspaceInstances.set(key, service);
+    }
+    return service;
+  }
+
+  /**
+   * Create a standalone service on a specific storage backend (tests, demos, tooling)
+   */
+  static withStorage(storage: StorageAdapter): TasksDataService {
+    return new TasksDataService(storage);
+  }
+
+  /**
+   * The storage backend this service reads and writes through
+   */
+  getStorage(): StorageAdapter {
+    return this.storage;
+  }
+
   /**
    * Calculate checksum for data integrity verification
    */
@@ -32,93 +128,97 @@ export class TasksDataService {
   }
 
   /**
-   * Acquire a file system lock to prevent concurrent modifications
+   * Acquire the storage lock to prevent concurrent modifications
    */
   private async acquireLock(): Promise<void> {
-    const startTime = Date.now();
-    
-    while (Date.now() - startTime < LOCK_TIMEOUT) {
-      try {
-        // Create a lock file with exclusive access
-        this.lockFile = await fs.open(LOCK_FILE_PATH, 'wx');
-        
-        // Write process ID and timestamp to lock file
-        const lockInfo = {
-          pid: process.pid,
-          timestamp: new Date().toISOString(),
-          host: require('os').hostname()
-        };
-        await fs.writeFile(this.lockFile, JSON.stringify(lockInfo, null, 2));
-        return;
-      } catch (error) {
-        if ((error as any).code === 'EEXIST') {
-          // Lock file exists, check if it's stale
-          try {
-            const lockContent = await fs.readFile(LOCK_FILE_PATH, 'utf-8');
-            const lockInfo = JSON.parse(lockContent);
-            const lockAge = Date.now() - new Date(lockInfo.timestamp).getTime();
-            
-            // If lock is older than timeout, remove it and try again
-            if (lockAge > LOCK_TIMEOUT) {
-              await fs.unlink(LOCK_FILE_PATH);
-              continue;
-            }
-          } catch {
-            // Invalid lock file, remove it
-            await fs.unlink(LOCK_FILE_PATH).catch(() => {});
-            continue;
-          }
-          
-          // Wait a bit before retrying
-          await new Promise(resolve => setTimeout(resolve, 100));
-        } else {
-          throw new ApiError('Failed to acquire file lock', 500);
-        }
-      }
-    }
-    
-    throw new ApiError('Timeout waiting for file lock', 409);
+    await this.storage.acquireLock();
   }
 
   /**
-   * Release the file system lock
+   * Release the storage lock
    */
   private async releaseLock(): Promise<void> {
-    if (this.lockFile) {
+    await this.storage.releaseLock();
+  }
+
+  /**
+   * Run an operation while holding the storage lock. Callers inside this process
+   * are queued first so they never compete for the lock with each other.
+   */
+  private async withLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = this.lockQueue;
+    let releaseQueue!: () => void;
+    this.lockQueue = new Promise<void>(resolve => {
+      releaseQueue = resolve;
+    });
+
+    await previous;
+    try {
+      await this.acquireLock();
       try {
-        await fs.close(this.lockFile);
-        await fs.unlink(LOCK_FILE_PATH);
-      } catch (error) {
-        console.error('Error releasing lock:', error);
+        return await operation();
       } finally {
-        this.lockFile = null;
+        await this.releaseLock();
       }
+    } finally {
+      releaseQueue();
     }
   }
 
   /**
-   * Create a backup of the current tasks.json file with enhanced management
+   * List task backups, newest first
+   */
+  private async listTaskBackups(): Promise<RetainedBackup[]> {
+    const backupFiles = await this.storage.listBackups();
+    return backupFiles
+      .filter(file => BACKUP_NAME_PATTERN.test(file))
+      .map(file => ({
+        name: file,
+        type: backupTypeFromName(file),
+        // Extract timestamp from filename (manual and safety backups carry a type prefix)
+        timestamp: file.replace(/^tasks-/, '').replace(/\.json$/, '').replace(/^(manual|safety)-/, '')
+      }))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp)); // Sort newest first
+  }
+
+  /**
+   * Write the given tasks content as a backup and return where it was stored.
+   * The checksum covers the canonical (pretty-printed) data, so it can be
+   * verified however the original file was formatted.
+   */
+  private async storeBackup(content: string, type: BackupType, label?: string): Promise<{ name: string; location: string }> {
+    const timestamp = new Date().toISOString();
+    const prefix = type === 'auto' ? 'tasks' : `tasks-${type}`;
+    const data = JSON.parse(content);
+    
+    // Create backup with metadata
+    const backupData = {
+      timestamp,
+      checksum: this.calculateChecksum(JSON.stringify(data, null, 2)),
+      ...(type !== 'auto' && { type }),
+      ...(label && { label }),
+      data
+    };
+    
+    const name = `${prefix}-${timestamp.replace(/[:.]/g, '-')}.json`;
+    const location = await this.storage.writeBackup(name, JSON.stringify(backupData, null, 2));
+    return { name, location };
+  }
+
+  /**
+   * Create a backup of the current tasks data with enhanced management
    */
   private async createBackup(): Promise<void> {
     try {
-      await fs.ensureDir(BACKUP_DIR);
-      
-      if (await fs.pathExists(TASKS_FILE_PATH)) {
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const backupPath = path.join(BACKUP_DIR, `tasks-${timestamp}.json`);
-        
-        // Read original file and create checksum
-        const originalContent = await fs.readFile(TASKS_FILE_PATH, 'utf-8');
-        const checksum = this.calculateChecksum(originalContent);
-        
-        // Create backup with metadata
-        const backupData = {
-          timestamp: new Date().toISOString(),
-          checksum,
-          data: JSON.parse(originalContent)
-        };
-        
-        await fs.writeFile(backupPath, JSON.stringify(backupData, null, 2));
+      if (await this.storage.exists()) {
+        const content = await this.storage.read();
+        // Keep the pre-migration file around when this write changes its schema version
+        const storedVersion = this.readStoredSchemaVersion(content);
+        if (storedVersion !== null && storedVersion < this.writeSchemaVersion) {
+          await this.storeBackup(content, 'safety', `Before migrating to schema v${this.writeSchemaVersion}`);
+        } else {
+          await this.storeBackup(content, 'auto');
+        }
         
         // Clean up old backups
         await this.cleanupOldBackups();
@@ -130,27 +230,14 @@ export class TasksDataService {
   }
 
   /**
-   * Clean up old backup files, keeping only the most recent ones
+   * Clean up old backups according to the tiered retention policy
    */
   private async cleanupOldBackups(): Promise<void> {
     try {
-      const backupFiles = await fs.readdir(BACKUP_DIR);
-      const taskBackups = backupFiles
-        .filter(file => file.startsWith('tasks-') && file.endsWith('.json'))
-        .map(file => ({
-          name: file,
-          path: path.join(BACKUP_DIR, file),
-          // Extract timestamp from filename
-          timestamp: file.replace('tasks-', '').replace('.json', '')
-        }))
-        .sort((a, b) => b.timestamp.localeCompare(a.timestamp)); // Sort newest first
-
-      // Remove old backups beyond the limit
-      if (taskBackups.length > MAX_BACKUPS) {
-        const backupsToDelete = taskBackups.slice(MAX_BACKUPS);
-        for (const backup of backupsToDelete) {
-          await fs.unlink(backup.path);
-        }
+      const taskBackups = await this.listTaskBackups();
+
+      for (const name of selectBackupsToPrune(taskBackups, this.retentionPolicy)) {
+        await this.storage.deleteBackup(name);
       }
     } catch (error) {
       console.error('Failed to cleanup old backups:', error);
@@ -158,40 +245,45 @@ export class TasksDataService {
   }
 
   /**
-   * Restore from the most recent backup if main file is corrupted
+   * Return a backup's data if its checksum matches and it passes validation.
+   * Older backups were checksummed as compact JSON, so both forms are accepted.
+   */
+  private verifyBackup(backupData: { checksum?: unknown; data?: unknown }): TasksData | null {
+    if (!backupData.data || typeof backupData.checksum !== 'string') {
+      return null;
+    }
+    
+    const checksums = [
+      this.calculateChecksum(JSON.stringify(backupData.data, null, 2)),
+      this.calculateChecksum(JSON.stringify(backupData.data))
+    ];
+    if (!checksums.includes(backupData.checksum)) {
+      return null;
+    }
+    
+    const result = TasksDataSchema.safeParse(migrateTo(backupData.data).data);
+    return result.success ? result.data : null;
+  }
+
+  /**
+   * Restore from the most recent backup if the stored data is corrupted
    */
   private async restoreFromBackup(): Promise<TasksData | null> {
     try {
-      const backupFiles = await fs.readdir(BACKUP_DIR);
-      const taskBackups = backupFiles
-        .filter(file => file.startsWith('tasks-') && file.endsWith('.json'))
-        .map(file => ({
-          name: file,
-          path: path.join(BACKUP_DIR, file),
-          timestamp: file.replace('tasks-', '').replace('.json', '')
-        }))
-        .sort((a, b) => b.timestamp.localeCompare(a.timestamp)); // Sort newest first
+      const taskBackups = await this.listTaskBackups();
 
       for (const backup of taskBackups) {
         try {
-          const backupContent = await fs.readFile(backup.path, 'utf-8');
-          const backupData = JSON.parse(backupContent);
+          const backupContent = await this.storage.readBackup(backup.name);
+          const validatedData = this.verifyBackup(JSON.parse(backupContent));
           
-          // Validate the backup data structure
-          if (backupData.data && backupData.checksum) {
-            const dataString = JSON.stringify(backupData.data);
-            const calculatedChecksum = this.calculateChecksum(dataString);
+          if (validatedData) {
+            // Restore the main data
+            const restoredContent = this.serialize(validatedData);
+            await this.writeContent(restoredContent);
+            console.log(`Restored from backup: ${backup.name}`);
             
-            if (calculatedChecksum === backupData.checksum) {
-              // Valid backup found, validate against schema
-              const validatedData = TasksDataSchema.parse(backupData.data);
-              
-              // Restore the main file
-              await fs.writeFile(TASKS_FILE_PATH, JSON.stringify(validatedData, null, 2));
-              console.log(`Restored from backup: ${backup.name}`);
-              
-              return validatedData;
-            }
+            return validatedData;
           }
         } catch (error) {
           console.error(`Failed to restore from backup ${backup.name}:`, error);
@@ -206,19 +298,30 @@ export class TasksDataService {
   }
 
   /**
-   * Load data from tasks.json file with enhanced error recovery
+   * Load data from storage with enhanced error recovery
    */
   async loadData(): Promise<TasksData> {
+    return this.readData(false);
+  }
+
+  /**
+   * Read and validate the stored data. `lockHeld` tells us whether the caller is
+   * already inside a transaction, so creating the initial data must not lock again.
+   */
+  private async readData(lockHeld: boolean): Promise<TasksData> {
     try {
-      if (!await fs.pathExists(TASKS_FILE_PATH)) {
-        // Create initial file if it doesn't exist
+      if (!await this.storage.exists()) {
+        // Create initial data if none exists
         const initialData: TasksData = { requests: [] };
-        await this.saveData(initialData);
+        if (lockHeld) {
+          await this.writeData(initialData);
+        } else {
+          await this.saveData(initialData);
+        }
         return initialData;
       }
 
-      const fileContent = await fs.readFile(TASKS_FILE_PATH, 'utf-8');
-      
+      const fileContent = await this.storage.read();
       // Verify file is not empty
       if (!fileContent.trim()) {
         console.error('Empty file detected, attempting backup restoration');
@@ -243,10 +346,10 @@ export class TasksDataService {
         throw new ApiError('Invalid JSON format and no valid backup available', 400);
       }
       
-      // Validate the data structure
+      // Bring older files up to the current schema, then validate the structure
       let validatedData;
       try {
-        validatedData = TasksDataSchema.parse(rawData);
+        validatedData = TasksDataSchema.parse(migrateTo(rawData).data);
       } catch (validationError) {
         console.error('Data validation error, attempting backup restoration:', validationError);
         const restoredData = await this.restoreFromBackup();
@@ -257,6 +360,7 @@ export class TasksDataService {
         throw new ApiError('Invalid data structure and no valid backup available', 400);
       }
       
+      await this.detectExternalChange(fileContent, validatedData, lockHeld);
       this.data = validatedData;
       return validatedData;
     } catch (error) {
@@ -268,61 +372,334 @@ export class TasksDataService {
   }
 
   /**
-   * Save data to tasks.json file with enhanced atomic operations
+   * Audit edits made outside the editor, e.g. by the MCP server. They show up
+   * as content this service didn't write that doesn't match the stored checksum
+   * either (other editor instances keep the checksum up to date and audit their
+   * own changes).
+   */
+  private async detectExternalChange(content: string, data: TasksData, lockHeld: boolean): Promise<void> {
+    const previousContent = this.lastSeenContent;
+    this.lastSeenContent = content;
+    if (previousContent === null || previousContent === content) return;
+
+    try {
+      const storedChecksum = await this.storage.readChecksum();
+      if (storedChecksum?.trim() === this.calculateChecksum(content)) return;
+
+      const previous = TasksDataSchema.safeParse(migrateTo(JSON.parse(previousContent)).data);
+      if (!previous.success) return;
+
+      const entries = auditChanges(previous.data, data, { type: 'external' });
+      if (entries.length === 0) return;
+      console.log(`🕵️ External edit detected, auditing ${entries.length} changes`);
+      await (lockHeld ? this.appendAudit(entries) : this.withLock(() => this.appendAudit(entries)));
+    } catch (error) {
+      console.error('Failed to audit external change:', error);
+    }
+  }
+
+  /**
+   * Append to the audit log, dropping the oldest entries beyond
+   * AUDIT_MAX_ENTRIES. Caller must hold the lock.
+   */
+  private async appendAudit(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+      const log = [...parseAudit(await this.storage.readDocument(AUDIT_DOCUMENT)), ...entries].slice(-DEFAULT_VALUES.AUDIT_MAX_ENTRIES);
+      await this.storage.writeDocument(AUDIT_DOCUMENT, JSON.stringify({ entries: log }));
+    } catch (error) {
+      console.error('Failed to write audit log:', error);
+      // Don't throw here - the data itself was saved
+    }
+  }
+
+  /**
+   * Change history of a request and its tasks, or of a single task, newest first
+   */
+  async getHistory(requestId: string, taskId?: string): Promise<AuditEntry[]> {
+    // Reading the data first picks up any external edit that hasn't been audited yet
+    await this.loadData();
+    return historyFor(parseAudit(await this.storage.readDocument(AUDIT_DOCUMENT)), requestId, taskId);
+  }
+
+  /**
+   * Save data under the storage lock
    */
   private async saveData(data: TasksData): Promise<void> {
     console.log(`🔒 Acquiring lock for saveData...`);
-    await this.acquireLock();
-    
-    try {
-      console.log(`📦 Creating backup before saving...`);
-      // Create backup before saving
-      await this.createBackup();
-      
-      // Validate data before saving
-      const validatedData = TasksDataSchema.parse(data);
-      console.log(`✅ Data validation passed for ${validatedData.requests.length} requests`);
-      
-      // Serialize data
-      const dataString = JSON.stringify(validatedData, null, 2);
-      const checksum = this.calculateChecksum(dataString);
-      
-      // Write to temporary file first (atomic operation)
-      const tempPath = `${TASKS_FILE_PATH}.tmp`;
-      const tempChecksumPath = `${tempPath}.checksum`;
-      
+    await this.withLock(() => this.writeData(data));
+    console.log(`🔓 Released lock after saveData`);
+  }
+
+  /**
+   * Load, mutate and save the data as one transaction. The lock is held from
+   * the read until the write completes, so concurrent mutations (from other API
+   * calls or the MCP server) cannot overwrite each other. Records the mutator
+   * added or changed have their completion recomputed, so restores follow the
+   * completion policy too, and are timestamped before saving unless `stamp` is
+   * false (restores put records back exactly as they were, like undo does).
+   * Every change is audited under `actor`.
+   * Trash changes and versions the mutator queues in `pending` are written
+   * after the save.
+   */
+  async mutateData<T>(
+    mutator: (data: TasksData, pending: PendingWrites) => T | Promise<T>,
+    { stamp = true, actor = DEFAULT_ACTOR, operation }: { stamp?: boolean; actor?: AuditActor; operation?: string } = {}
+  ): Promise<T> {
+    return this.withLock(async () => {
+      const data = await this.readData(true);
+      const before = structuredClone(data);
+      const pending: PendingWrites = { trashed: [], untrashed: [], versions: [] };
+      const result = await mutator(data, pending);
+      applyCompletionPolicy(before, data, this.completionPolicy);
+      if (stamp) {
+        stampChanges(before, data);
+      }
+      // Journal what was saved, so undo compares like with like
+      const saved = await this.writeData(data);
+
+      const changes = computeChanges(before, saved);
+      if (changes.length > 0) {
+        // Trash moves are journalled too, so replaying the mutation can repeat them
+        await this.appendJournal({
+          ...createEntry('mutation', describeChanges(changes), changes),
+          ...(pending.trashed.length > 0 && { trashed: pending.trashed }),
+          ...(pending.untrashed.length > 0 && { untrashed: pending.untrashed })
+        });
+        await this.appendAudit(auditChanges(before, saved, actor, operation));
+      }
+      await this.writePending(pending);
+      return result;
+    });
+  }
+
+  /**
+   * Make the sidecar writes a mutation queued, now its data is saved. Caller
+   * must hold the lock.
+   */
+  private async writePending(pending: PendingWrites): Promise<void> {
+    if (pending.trashed.length > 0 || pending.untrashed.length > 0) {
       try {
-        console.log(`📝 Writing data to temporary file: ${tempPath}`);
-        // Write data and checksum
-        await fs.writeFile(tempPath, dataString);
-        await fs.writeFile(tempChecksumPath, checksum);
-        
-        // Verify the written data
-        const writtenData = await fs.readFile(tempPath, 'utf-8');
-        const writtenChecksum = this.calculateChecksum(writtenData);
-        
-        if (writtenChecksum !== checksum) {
-          throw new Error('Data integrity check failed after write');
-        }
-        
-        console.log(`🔄 Renaming temporary files to final location...`);
-        // Atomic rename operations
-        await fs.rename(tempPath, TASKS_FILE_PATH);
-        await fs.rename(tempChecksumPath, `${TASKS_FILE_PATH}.checksum`);
-        
-        this.data = validatedData;
-        console.log(`💾 Data saved successfully with ${validatedData.requests.length} requests`);
+        const trash = (await this.readTrash()).filter(item => !pending.untrashed.some(restored => restored.id === item.id));
+        await this.writeTrash([...trash, ...pending.trashed]);
       } catch (error) {
-        console.log(`❌ Error during file operations, cleaning up...`);
-        // Clean up temporary files on error
-        await fs.unlink(tempPath).catch(() => {});
-        await fs.unlink(tempChecksumPath).catch(() => {});
-        throw error;
+        console.error('Failed to write trash:', error);
+        // Don't throw here - the data itself was saved
       }
-    } finally {
-      console.log(`🔓 Releasing lock after saveData...`);
-      await this.releaseLock();
     }
+    if (pending.versions.length > 0) {
+      try {
+        await this.keepVersions(pending.versions);
+      } catch (error) {
+        console.error('Failed to write versions:', error);
+        // Don't throw here - the data itself was saved
+      }
+    }
+  }
+
+  private async readJournal(): Promise<JournalEntry[]> {
+    return parseJournal(await this.storage.readDocument(JOURNAL_DOCUMENT));
+  }
+
+  /**
+   * Append to the operation journal, dropping the oldest entries beyond
+   * JOURNAL_MAX_ENTRIES. Caller must hold the lock.
+   */
+  private async appendJournal(...entries: JournalEntry[]): Promise<void> {
+    try {
+      const journal = [...await this.readJournal(), ...entries].slice(-DEFAULT_VALUES.JOURNAL_MAX_ENTRIES);
+      await this.storage.writeDocument(JOURNAL_DOCUMENT, JSON.stringify({ entries: journal }));
+    } catch (error) {
+      console.error('Failed to write operation journal:', error);
+      // Don't throw here - the data itself was saved
+    }
+  }
+
+  /**
+   * What the next undo and redo would do
+   */
+  async getJournalStatus(): Promise<JournalStatus> {
+    const { undo, redo } = replayJournal(await this.readJournal());
+    return {
+      undo: undo.length > 0 ? undo[undo.length - 1].description : null,
+      redo: redo.length > 0 ? redo[redo.length - 1].description : null
+    };
+  }
+
+  /**
+   * Revert the most recent mutations
+   */
+  async undo(steps: number = 1, options: MutationOptions = {}): Promise<UndoResult> {
+    return this.replayMutations('undo', steps, options.actor);
+  }
+
+  /**
+   * Re-apply the most recently undone mutations
+   */
+  async redo(steps: number = 1, options: MutationOptions = {}): Promise<UndoResult> {
+    return this.replayMutations('redo', steps, options.actor);
+  }
+
+  private async replayMutations(direction: 'undo' | 'redo', steps: number, actor: AuditActor = DEFAULT_ACTOR): Promise<UndoResult> {
+    return this.withLock(async () => {
+      const stacks = replayJournal(await this.readJournal());
+      const targets = stacks[direction].slice(-steps).reverse();
+      if (targets.length === 0) {
+        throw new ApiError(`Nothing to ${direction}`, 409);
+      }
+
+      const data = await this.readData(true);
+      const before = structuredClone(data);
+      for (const target of targets) {
+        applyChanges(data, target.changes, direction);
+      }
+      await this.writeData(data);
+      await this.appendJournal(...targets.map(target => createEntry(direction, target.description, [], target.id)));
+      const label = direction === 'undo' ? 'Undo' : 'Redo';
+      await this.appendAudit(auditChanges(before, data, actor, `${label}: ${targets.map(target => target.description).join(', ')}`));
+
+      // Undoing a delete takes its record back out of the trash and undoing a
+      // trash restore puts it back in; redo does the opposite. Deletes journalled
+      // without their trash items are recognised by the record being live again.
+      const outOfTrash = targets.flatMap(target => (direction === 'undo' ? target.trashed : target.untrashed) ?? []);
+      const intoTrash = targets.flatMap(target => (direction === 'undo' ? target.untrashed : target.trashed) ?? []);
+      const trash = await this.readTrash();
+      const remaining = trash.filter(item => !isLiveAgain(item, data) && !outOfTrash.some(out => out.id === item.id));
+      const restored = intoTrash.filter(item => !remaining.some(kept => kept.id === item.id));
+      if (remaining.length !== trash.length || restored.length > 0) {
+        await this.writeTrash([...remaining, ...restored]);
+      }
+      console.log(`↩️ ${direction === 'undo' ? 'Undid' : 'Redid'}: ${targets.map(target => target.description).join(', ')}`);
+
+      return { applied: targets.map(target => target.description), ...await this.getJournalStatus() };
+    });
+  }
+
+  /**
+   * Reject a mutation when the caller's If-Match version no longer matches the stored record
+   */
+  private assertVersion(record: Request | Task, options: MutationOptions): void {
+    if (!options.ifMatch) return;
+    
+    const etag = computeEtag(record);
+    if (!etagMatches(options.ifMatch, etag)) {
+      throw new PreconditionFailedError('The record was changed by someone else since you loaded it', record, etag);
+    }
+  }
+
+  /**
+   * Write data to storage with enhanced atomic operations and return it as
+   * saved (validation puts known fields first). Caller must hold the lock.
+   */
+  private async writeData(data: TasksData): Promise<TasksData> {
+    // Validate data before saving
+    const validatedData = TasksDataSchema.parse(data);
+    console.log(`✅ Data validation passed for ${validatedData.requests.length} requests`);
+    
+    console.log(`📦 Creating backup before saving...`);
+    // Create backup before saving
+    await this.createBackup();
+    
+    // Serialize data
+    const dataString = this.serialize(validatedData);
+    await this.writeContent(dataString);
+    
+    this.data = validatedData;
+    console.log(`💾 Data saved successfully with ${validatedData.requests.length} requests`);
+    return validatedData;
+  }
+
+  /**
+   * Write tasks content with its checksum. Caller must hold the lock.
+   */
+  private async writeContent(content: string): Promise<void> {
+    await this.storage.write(content, this.calculateChecksum(content));
+    this.lastSeenContent = content;
+  }
+
+  /**
+   * Serialize data in the schema version files are written in
+   */
+  private serialize(data: TasksData): string {
+    return JSON.stringify(migrateTo(data, this.writeSchemaVersion).data, null, 2);
+  }
+
+  /**
+   * Schema version of stored content, or null if it isn't readable JSON
+   */
+  private readStoredSchemaVersion(content: string): number | null {
+    try {
+      return getSchemaVersion(JSON.parse(content));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Report the stored file's schema version and the migrations this editor knows
+   */
+  async getSchemaStatus(): Promise<SchemaStatus> {
+    const fileVersion = await this.storage.exists()
+      ? this.readStoredSchemaVersion(await this.storage.read()) ?? 0
+      : this.writeSchemaVersion;
+
+    return {
+      fileVersion,
+      currentVersion: CURRENT_SCHEMA_VERSION,
+      writeVersion: this.writeSchemaVersion,
+      migrations: MIGRATIONS.map(({ version, description }) => ({ version, description }))
+    };
+  }
+
+  /**
+   * Migrate the stored file to another schema version. A dry run only reports
+   * what would change; otherwise the file is backed up first and rewritten.
+   */
+  async migrateSchema(targetVersion: number = CURRENT_SCHEMA_VERSION, dryRun: boolean = false): Promise<MigrationPlan> {
+    return this.withLock(async () => {
+      if (!await this.storage.exists()) {
+        throw new ApiError('No tasks data to migrate', 404);
+      }
+
+      const content = await this.storage.read();
+      let raw: Record<string, unknown>;
+      try {
+        raw = JSON.parse(content);
+      } catch {
+        throw new ApiError('Stored data is not valid JSON and cannot be migrated', 422);
+      }
+
+      const fromVersion = getSchemaVersion(raw);
+      if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        throw new ApiError(`Stored data uses schema v${fromVersion}, which is newer than this editor supports`, 422);
+      }
+
+      const { data: migrated, steps } = migrateTo(raw, targetVersion);
+      const before = TasksDataSchema.safeParse(raw);
+      const after = TasksDataSchema.safeParse(migrated);
+      if (!before.success || !after.success) {
+        throw new ApiError('Stored data failed schema validation and cannot be migrated', 422);
+      }
+
+      let backup: string | null = null;
+      if (!dryRun && steps.length > 0) {
+        backup = (await this.storeBackup(content, 'safety', `Before migrating to schema v${targetVersion}`)).name;
+        const migratedContent = JSON.stringify(after.data, null, 2);
+        await this.writeContent(migratedContent);
+        this.data = null;
+        console.log(`🧬 Migrated schema v${fromVersion} → v${targetVersion}`);
+      }
+
+      return {
+        fromVersion,
+        toVersion: targetVersion,
+        steps: steps.map(({ version, description }) => ({ version, description })),
+        rootChanges: diffFields(raw, migrated, ['requests']),
+        diff: diffTasksData(before.data, after.data),
+        dryRun,
+        backup
+      };
+    });
   }
 
   /**
@@ -330,12 +707,15 @@ export class TasksDataService {
    */
   async verifyDataIntegrity(): Promise<boolean> {
     try {
-      if (!await fs.pathExists(TASKS_FILE_PATH) || !await fs.pathExists(`${TASKS_FILE_PATH}.checksum`)) {
+      if (!await this.storage.exists()) {
         return false;
       }
       
-      const fileContent = await fs.readFile(TASKS_FILE_PATH, 'utf-8');
-      const storedChecksum = await fs.readFile(`${TASKS_FILE_PATH}.checksum`, 'utf-8');
+      const fileContent = await this.storage.read();
+      const storedChecksum = await this.storage.readChecksum();
+      if (storedChecksum === null) {
+        return false;
+      }
       const calculatedChecksum = this.calculateChecksum(fileContent);
       
       return storedChecksum.trim() === calculatedChecksum;
@@ -355,18 +735,14 @@ export class TasksDataService {
     integrityCheck: boolean;
   }> {
     try {
-      await fs.ensureDir(BACKUP_DIR);
-      const backupFiles = await fs.readdir(BACKUP_DIR);
-      const taskBackups = backupFiles
-        .filter(file => file.startsWith('tasks-') && file.endsWith('.json'))
-        .sort((a, b) => b.localeCompare(a)); // Sort newest first
+      const taskBackups = await this.listTaskBackups();
 
       const integrityCheck = await this.verifyDataIntegrity();
 
       return {
         totalBackups: taskBackups.length,
-        latestBackup: taskBackups.length > 0 ? taskBackups[0] : null,
-        backupDirectory: BACKUP_DIR,
+        latestBackup: taskBackups.length > 0 ? taskBackups[0].name : null,
+        backupDirectory: this.storage.backupLocation,
         integrityCheck
       };
     } catch (error) {
@@ -374,7 +750,7 @@ export class TasksDataService {
       return {
         totalBackups: 0,
         latestBackup: null,
-        backupDirectory: BACKUP_DIR,
+        backupDirectory: this.storage.backupLocation,
         integrityCheck: false
       };
     }
@@ -383,31 +759,14 @@ export class TasksDataService {
   /**
    * Force creation of a backup (useful for manual backup operations)
    */
-  async createManualBackup(): Promise<string | null> {
+  async createManualBackup(label?: string): Promise<string | null> {
     try {
-      if (!await fs.pathExists(TASKS_FILE_PATH)) {
-        throw new Error('No tasks.json file to backup');
+      if (!await this.storage.exists()) {
+        throw new Error('No tasks data to backup');
       }
 
-      await fs.ensureDir(BACKUP_DIR);
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const backupPath = path.join(BACKUP_DIR, `tasks-manual-${timestamp}.json`);
-      
-      // Read original file and create checksum
-      const originalContent = await fs.readFile(TASKS_FILE_PATH, 'utf-8');
-      const checksum = this.calculateChecksum(originalContent);
-      
-      // Create backup with metadata
-      const backupData = {
-        timestamp: new Date().toISOString(),
-        checksum,
-        type: 'manual',
-        data: JSON.parse(originalContent)
-      };
-      
-      await fs.writeFile(backupPath, JSON.stringify(backupData, null, 2));
-      
-      return backupPath;
+      const backup = await this.storeBackup(await this.storage.read(), 'manual', label);
+      return backup.location;
     } catch (error) {
       console.error('Failed to create manual backup:', error);
       return null;
@@ -415,124 +774,675 @@ export class TasksDataService {
   }
 
   /**
-   * Get all requests as full Request objects
+   * Reject names that are not backups, so they can't reach outside the backup store
    */
-  async getAllFullRequests(): Promise<Request[]> {
-    const data = await this.loadData();
-    return data.requests;
+  private assertBackupName(name: string): void {
+    if (!BACKUP_NAME_PATTERN.test(name)) {
+      throw new ApiError('Invalid backup name', 400);
+    }
   }
 
   /**
-   * Get all requests with summary data
+   * Read a backup and describe it
    */
-  async getAllRequests(): Promise<RequestSummary[]> {
-    const data = await this.loadData();
-    
-    return data.requests.map(request => {
-      const totalTasks = request.tasks.length;
-      const completedTasks = request.tasks.filter(task => task.done).length;
-      const approvedTasks = request.tasks.filter(task => task.approved).length;
-      
-      return {
-        requestId: request.requestId,
-        originalRequest: request.originalRequest,
-        totalTasks,
-        completedTasks,
-        approvedTasks,
-        completionPercentage: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
-        approvalPercentage: totalTasks > 0 ? Math.round((approvedTasks / totalTasks) * 100) : 0,
-        completed: request.completed
-      };
-    });
-  }
+  private async readBackupEntry(name: string): Promise<{ info: BackupInfo; data: TasksData | null }> {
+    const content = await this.storage.readBackup(name);
+    const timestamp = name.replace(/^tasks-/, '').replace(/\.json$/, '').replace(/^(manual|safety)-/, '');
 
-  /**
-   * Get a single request by ID
-   */
-  async getRequest(requestId: string): Promise<Request | null> {
-    const data = await this.loadData();
-    return data.requests.find(request => request.requestId === requestId) || null;
+    let backupData: { timestamp?: string; checksum?: unknown; type?: BackupType; label?: string; data?: unknown } = {};
+    try {
+      backupData = JSON.parse(content);
+    } catch {
+      // Unreadable backups are listed as invalid
+    }
+
+    const data = this.verifyBackup(backupData);
+    const raw = backupData.data as Partial<TasksData> | undefined;
+    const requests = Array.isArray(raw?.requests) ? raw.requests : [];
+
+    const info: BackupInfo = {
+      name,
+      type: backupData.type ?? backupTypeFromName(name),
+      timestamp: backupData.timestamp ?? timestamp,
+      label: backupData.label,
+      checksum: typeof backupData.checksum === 'string' ? backupData.checksum : null,
+      valid: data !== null,
+      requestCount: requests.length,
+      taskCount: requests.reduce((sum, request) => sum + (Array.isArray(request?.tasks) ? request.tasks.length : 0), 0),
+      size: Buffer.byteLength(content)
+    };
+    return { info, data };
   }
 
   /**
-   * Create a new request
+   * List backups with metadata and checksum validity, newest first
    */
-  async createRequest(requestData: Omit<Request, 'requestId'>): Promise<Request> {
-    const data = await this.loadData();
+  async listBackups(): Promise<BackupInfo[]> {
+    const taskBackups = await this.listTaskBackups();
+    const backups = await Promise.all(taskBackups.map(async backup => (await this.readBackupEntry(backup.name)).info));
+    return backups.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Get a single backup including its data, for previewing
+   */
+  async getBackup(name: string): Promise<BackupDetail> {
+    this.assertBackupName(name);
     
-    // Generate new request ID
-    const existingIds = data.requests.map(r => r.requestId);
-    let newId = 1;
-    while (existingIds.includes(`req-${newId}`)) {
-      newId++;
+    const backups = await this.storage.listBackups();
+    if (!backups.includes(name)) {
+      throw new ApiError('Backup not found', 404);
+    }
+    const { info, data } = await this.readBackupEntry(name);
+    return { ...info, data };
+  }
+
+  /**
+   * Restore a specific backup. The current data is saved as a safety backup
+   * first, so the restore itself can be undone.
+   */
+  async restoreBackup(name: string, options: MutationOptions = {}): Promise<RestoreResult> {
+    return this.withLock(async () => {
+      const { data, ...restored } = await this.getBackup(name);
+      if (!data) {
+        throw new ApiError('Backup failed checksum or schema validation and cannot be restored', 422);
+      }
+
+      let safetyBackup: string | null = null;
+      let previous: TasksData | null = null;
+      if (await this.storage.exists()) {
+        const current = await this.storage.read();
+        safetyBackup = (await this.storeBackup(current, 'safety', `Before restoring ${name}`)).name;
+        const parsed = TasksDataSchema.safeParse(migrateTo(JSON.parse(current)).data);
+        previous = parsed.success ? parsed.data : null;
+      }
+
+      const content = this.serialize(data);
+      await this.writeContent(content);
+      this.data = data;
+      console.log(`♻️ Restored backup ${name}`);
+
+      if (previous) {
+        const changes = computeChanges(previous, data);
+        if (changes.length > 0) {
+          await this.appendJournal(createEntry('mutation', `Restore backup ${name}`, changes));
+          await this.appendAudit(auditChanges(previous, data, options.actor ?? DEFAULT_ACTOR, `Restore backup ${name}`));
+        }
+      }
+
+      return { restored, safetyBackup };
+    });
+  }
+
+  /**
+   * Load one version of the data: the live data, or the contents of a valid backup
+   */
+  async getSnapshot(source: string): Promise<TasksData> {
+    if (source === LIVE_SNAPSHOT) {
+      return this.loadData();
     }
     
-    const newRequest: Request = {
-      requestId: `req-${newId}`,
-      ...requestData
+    const backup = await this.getBackup(source);
+    if (!backup.data) {
+      throw new ApiError(`Backup ${source} failed checksum or schema validation`, 422);
+    }
+    return backup.data;
+  }
+
+  /**
+   * Put a single request (with its tasks) or a single task back the way it was
+   * in a backup. Records that did not exist in the backup are removed.
+   */
+  async restoreRecord(backupName: string, requestId: string, taskId?: string, options: MutationOptions = {}): Promise<RecordRestoreResult> {
+    const source = await this.getSnapshot(backupName);
+    const sourceIndex = source.requests.findIndex(r => r.requestId === requestId);
+    const sourceRequest = sourceIndex === -1 ? null : source.requests[sourceIndex];
+
+    return this.mutateData(data => {
+      const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
+
+      if (!taskId) {
+        if (!sourceRequest) {
+          if (requestIndex === -1) {
+            throw new ApiError('Request not found', 404);
+          }
+          data.requests.splice(requestIndex, 1);
+          return { requestId, action: 'removed' };
+        }
+
+        const restored = structuredClone(sourceRequest);
+        if (requestIndex === -1) {
+          // Put it back near its old position
+          data.requests.splice(Math.min(sourceIndex, data.requests.length), 0, restored);
+        } else {
+          data.requests[requestIndex] = restored;
+        }
+        return { requestId, action: 'restored' };
+      }
+
+      if (requestIndex === -1) {
+        throw new ApiError('Restore the request before restoring its tasks', 409);
+      }
+
+      const tasks = data.requests[requestIndex].tasks;
+      const taskIndex = tasks.findIndex(t => t.id === taskId);
+      const sourceTaskIndex = sourceRequest ? sourceRequest.tasks.findIndex(t => t.id === taskId) : -1;
+
+      if (sourceTaskIndex === -1) {
+        if (taskIndex === -1) {
+          throw new ApiError('Task not found', 404);
+        }
+        tasks.splice(taskIndex, 1);
+        return { requestId, taskId, action: 'removed' };
+      }
+
+      const restoredTask = structuredClone(sourceRequest!.tasks[sourceTaskIndex]);
+      if (taskIndex === -1) {
+        tasks.splice(Math.min(sourceTaskIndex, tasks.length), 0, restoredTask);
+      } else {
+        tasks[taskIndex] = restoredTask;
+      }
+      return { requestId, taskId, action: 'restored' };
+    }, { stamp: false, actor: options.actor, operation: `Restore from backup ${backupName}` });
+  }
+
+  /**
+   * Read the trash, without items past their retention period
+   */
+  private async readTrash(): Promise<TrashItem[]> {
+    return parseTrash(await this.storage.readDocument(TRASH_DOCUMENT), this.trashRetentionDays);
+  }
+
+  /**
+   * Replace the trash contents. Unreadable contents, which read as an empty
+   * trash, are kept aside first so nothing is lost. Caller must hold the lock.
+   */
+  private async writeTrash(items: TrashItem[]): Promise<void> {
+    const current = await this.storage.readDocument(TRASH_DOCUMENT);
+    if (current && !isReadableTrash(current)) {
+      const copy = `${TRASH_DOCUMENT}-unreadable-${Date.now()}`;
+      await this.storage.writeDocument(copy, current);
+      console.error(`⚠️ The trash could not be read; kept it as ${copy} before replacing it`);
+    }
+    await this.storage.writeDocument(TRASH_DOCUMENT, JSON.stringify({ items }));
+  }
+
+  /**
+   * List trashed requests and tasks, most recently deleted first
+   */
+  async listTrash(): Promise<{ items: TrashItem[]; retentionDays: number }> {
+    const items = await this.readTrash();
+    return {
+      items: items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+      retentionDays: this.trashRetentionDays
     };
-    
-    // Validate the new request
-    RequestSchema.parse(newRequest);
-    
-    data.requests.push(newRequest);
-    await this.saveData(data);
-    
-    return newRequest;
   }
 
   /**
-   * Update an existing request
+   * Put a trashed record back. Requests return to their old position; tasks go
+   * back into their request, or into a new request if that one is gone too.
+   * Records whose ID has been reused in the meantime get a new ID.
    */
-  async updateRequest(requestId: string, updates: Partial<Request>): Promise<Request> {
+  async restoreFromTrash(id: string, options: MutationOptions = {}): Promise<TrashRestoreResult> {
+    return this.mutateData(async (data, pending) => {
+      const item = (await this.readTrash()).find(candidate => candidate.id === id);
+      if (!item) {
+        throw new ApiError('Trash item not found', 404);
+      }
+
+      let result: TrashRestoreResult;
+
+      if (item.type === 'request') {
+        const requestId = data.requests.some(r => r.requestId === item.record.requestId) ? nextRequestId(data.requests) : item.record.requestId;
+        data.requests.splice(Math.min(item.origin.index, data.requests.length), 0, { ...item.record, requestId });
+        result = { requestId, createdRequest: false };
+      } else {
+        const parent = data.requests.find(r => r.requestId === item.origin.requestId);
+        if (parent) {
+          const taskId = parent.tasks.some(t => t.id === item.record.id) ? nextTaskId(parent.tasks) : item.record.id;
+          parent.tasks.splice(Math.min(item.origin.index, parent.tasks.length), 0, { ...item.record, id: taskId });
+          result = { requestId: parent.requestId, taskId, createdRequest: false };
+        } else {
+          const requestId = nextRequestId(data.requests);
+          data.requests.push({
+            requestId,
+            originalRequest: item.origin.requestTitle,
+            splitDetails: '',
+            completed: false,
+            tasks: [item.record],
+            createdAt: new Date().toISOString()
+          });
+          result = { requestId, taskId: item.record.id, createdRequest: true };
+        }
+      }
+
+      pending.untrashed.push(item);
+      console.log(`♻️ Restored ${item.type} from trash into ${result.requestId}`);
+      return result;
+    }, { stamp: false, actor: options.actor, operation: 'Restore from trash' });
+  }
+
+  /**
+   * Permanently delete one trashed record, or empty the trash. Returns how many were removed.
+   */
+  async purgeTrash(id?: string): Promise<number> {
+    return this.withLock(async () => {
+      const trash = await this.readTrash();
+      if (id && !trash.some(item => item.id === id)) {
+        throw new ApiError('Trash item not found', 404);
+      }
+
+      const remaining = id ? trash.filter(item => item.id !== id) : [];
+      await this.writeTrash(remaining);
+      return trash.length - remaining.length;
+    });
+  }
+
+  private async readTemplates(): Promise<RequestTemplate[]> {
+    return parseTemplates(await this.storage.readDocument(TEMPLATES_DOCUMENT));
+  }
+
+  /**
+   * Save the template library. Caller must hold the lock.
+   */
+  private async writeTemplates(templates: RequestTemplate[]): Promise<void> {
+    await this.storage.writeDocument(TEMPLATES_DOCUMENT, JSON.stringify({ templates }));
+  }
+
+  /**
+   * Templates in the library, by name
+   */
+  async getTemplates(): Promise<RequestTemplate[]> {
+    return (await this.readTemplates()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTemplate(id: string): Promise<RequestTemplate | null> {
+    return (await this.readTemplates()).find(template => template.id === id) || null;
+  }
+
+  /**
+   * Save a request's text and task breakdown as a template
+   */
+  async saveTemplate(requestId: string, name: string): Promise<RequestTemplate> {
+    return this.withLock(async () => {
+      const request = (await this.readData(true)).requests.find(r => r.requestId === requestId);
+      if (!request) {
+        throw new ApiError('Request not found', 404);
+      }
+
+      const template = templateFromRequest(request, name);
+      await this.writeTemplates([...await this.readTemplates(), template]);
+      console.log(`📐 Saved request ${requestId} as template "${name}"`);
+      return template;
+    });
+  }
+
+  /**
+   * Edit a template, e.g. to put placeholders in its text
+   */
+  async updateTemplate(id: string, updates: TemplateUpdate): Promise<RequestTemplate> {
+    return this.withLock(async () => {
+      const templates = await this.readTemplates();
+      const index = templates.findIndex(template => template.id === id);
+      if (index === -1) {
+        throw new ApiError('Template not found', 404);
+      }
+
+      const updated = { ...templates[index], ...updates, updatedAt: new Date().toISOString() };
+      updated.placeholders = findPlaceholders(updated);
+      templates[index] = updated;
+      await this.writeTemplates(templates);
+      return updated;
+    });
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await this.withLock(async () => {
+      const templates = await this.readTemplates();
+      if (!templates.some(template => template.id === id)) {
+        throw new ApiError('Template not found', 404);
+      }
+      await this.writeTemplates(templates.filter(template => template.id !== id));
+    });
+  }
+
+  /**
+   * Create a request from a template, filling in every placeholder. Its tasks
+   * get fresh ids and start not done and not approved.
+   */
+  async instantiateTemplate(id: string, values: Record<string, string>, options: MutationOptions = {}): Promise<Request> {
+    return this.mutateData(async data => {
+      const template = (await this.readTemplates()).find(candidate => candidate.id === id);
+      if (!template) {
+        throw new ApiError('Template not found', 404);
+      }
+
+      const missing = template.placeholders.filter(name => !values[name]?.trim());
+      if (missing.length > 0) {
+        throw new ApiError(`Fill in ${missing.map(name => `{{${name}}}`).join(', ')}`, 400);
+      }
+
+      const request: Request = { ...requestFromTemplate(template, values), requestId: nextRequestId(data.requests) };
+      RequestSchema.parse(request);
+      data.requests.push(request);
+      return request;
+    }, { actor: options.actor, operation: 'Create request from template' });
+  }
+
+  private async readVersions(): Promise<RecordVersion[]> {
+    return parseVersions(await this.storage.readDocument(VERSIONS_DOCUMENT));
+  }
+
+  /**
+   * Keep the versions of records a save has replaced, dropping the oldest
+   * beyond VERSIONS_PER_RECORD. Caller must hold the lock.
+   */
+  private async keepVersions(replaced: RecordVersion[]): Promise<void> {
+    const versions = pruneVersions([...await this.readVersions(), ...replaced], DEFAULT_VALUES.VERSIONS_PER_RECORD);
+    await this.storage.writeDocument(VERSIONS_DOCUMENT, JSON.stringify({ versions }));
+  }
+
+  /**
+   * Earlier versions of a request's own fields, or of one of its tasks, newest first
+   */
+  async listVersions(requestId: string, taskId?: string): Promise<RecordVersion[]> {
+    return versionsFor(await this.readVersions(), requestId, taskId);
+  }
+
+  /**
+   * Put a request's own fields, or one of its tasks, back the way they were in
+   * an earlier version without touching anything else. The version being
+   * replaced is kept too, so a revert can itself be reverted.
+   */
+  async revertToVersion(requestId: string, versionId: string, options: MutationOptions = {}): Promise<RevertResult> {
+    return this.mutateData(async (data, pending) => {
+      const version = (await this.readVersions()).find(candidate => candidate.id === versionId && candidate.requestId === requestId);
+      if (!version) {
+        throw new ApiError('Version not found', 404);
+      }
+
+      const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
+      if (requestIndex === -1) {
+        throw new ApiError('Request not found', 404);
+      }
+
+      const request = data.requests[requestIndex];
+      if (version.type === 'request') {
+        pending.versions.push(createRequestVersion(request, options.actor));
+        const reverted: Request = { ...structuredClone(version.record), tasks: request.tasks };
+        data.requests[requestIndex] = reverted;
+        return { requestId, versionId, record: reverted };
+      }
+
+      const taskIndex = request.tasks.findIndex(t => t.id === version.taskId);
+      if (taskIndex === -1) {
+        throw new ApiError('Task not found', 404);
+      }
+      pending.versions.push(createTaskVersion(requestId, request.tasks[taskIndex], options.actor));
+      const reverted = structuredClone(version.record);
+      request.tasks[taskIndex] = reverted;
+      return { requestId, taskId: version.taskId, versionId, record: reverted };
+    }, { actor: options.actor, operation: `Revert ${requestId} to an earlier version` });
+  }
+
+  /**
+   * Completion policy for requests that don't set their own
+   */
+  getCompletionPolicy(): CompletionPolicy {
+    return this.completionPolicy;
+  }
+
+  /**
+   * Rules enforced on task done/approved transitions
+   */
+  getWorkflowRules(): WorkflowRules {
+    return this.workflowRules;
+  }
+
+  /**
+   * Get all requests as full Request objects
+   */
+  async getAllFullRequests(): Promise<Request[]> {
     const data = await this.loadData();
-    const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
-    
-    if (requestIndex === -1) {
-      throw new ApiError('Request not found', 404);
-    }
-    
-    const updatedRequest = { ...data.requests[requestIndex], ...updates };
-    
-    // Validate the updated request
-    RequestSchema.parse(updatedRequest);
-    
-    data.requests[requestIndex] = updatedRequest;
-    await this.saveData(data);
-    
-    return updatedRequest;
+    return data.requests;
   }
 
   /**
-   * Delete a request
+   * Get all requests with summary data
    */
-  async deleteRequest(requestId: string): Promise<void> {
-    console.log(`🗂️ TasksDataService.deleteRequest called for ${requestId}`);
-    
+  async getAllRequests(): Promise<RequestSummary[]> {
     const data = await this.loadData();
-    console.log(`📋 Current data before deletion:`, {
-      totalRequests: data.requests.length,
-      requestIds: data.requests.map(r => r.requestId)
-    });
     
-    const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
-    console.log(`🔍 Found request ${requestId} at index:`, requestIndex);
-    
-    if (requestIndex === -1) {
-      console.log(`❌ Request ${requestId} not found`);
-      throw new ApiError('Request not found', 404);
-    }
-    
-    console.log(`✂️ Removing request ${requestId} from data...`);
-    data.requests.splice(requestIndex, 1);
-    
-    console.log(`📋 Data after removal:`, {
-      totalRequests: data.requests.length,
-      requestIds: data.requests.map(r => r.requestId)
+    return data.requests.map(request => {
+      const totalTasks = request.tasks.length;
+      const completedTasks = request.tasks.filter(task => task.done).length;
+      const approvedTasks = request.tasks.filter(task => task.approved).length;
+      
+      return {
+        requestId: request.requestId,
+        originalRequest: request.originalRequest,
+        totalTasks,
+        completedTasks,
+        approvedTasks,
+        completionPercentage: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
+        approvalPercentage: totalTasks > 0 ? Math.round((approvedTasks / totalTasks) * 100) : 0,
+        completed: request.completed
+      };
     });
+  }
+
+  /**
+   * Get a single request by ID
+   */
+  async getRequest(requestId: string): Promise<Request | null> {
+    const data = await this.loadData();
+    return data.requests.find(request => request.requestId === requestId) || null;
+  }
+
+  /**
+   * Create a new request
+   */
+  async createRequest(requestData: Omit<Request, 'requestId'>, options: MutationOptions = {}): Promise<Request> {
+    return this.mutateData(data => {
+      const newRequest: Request = {
+        ...requestData,
+        requestId: nextRequestId(data.requests)
+      };
+      
+      // Validate the new request
+      RequestSchema.parse(newRequest);
+      
+      data.requests.push(newRequest);
+      return newRequest;
+    }, { actor: options.actor });
+  }
+
+  /**
+   * Update an existing request
+   */
+  async updateRequest(requestId: string, updates: Partial<Request>, options: MutationOptions = {}): Promise<Request> {
+    return this.mutateData((data, pending) => {
+      const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
+      
+      if (requestIndex === -1) {
+        throw new ApiError('Request not found', 404);
+      }
+      
+      this.assertVersion(data.requests[requestIndex], options);
+      
+      const updatedRequest = { ...data.requests[requestIndex], ...updates };
+      if (updatedRequest.completionPolicy === undefined) {
+        // Cleared, so the request follows the global policy again
+        delete updatedRequest.completionPolicy;
+      }
+      
+      // Validate the updated request; its tasks may carry statuses written by other tools
+      StoredRequestSchema.parse(updatedRequest);
+      
+      // A policy-managed request can't be completed by hand, as with bulk completion
+      if (updates.completed !== undefined) {
+        const completion = completionStatus(updatedRequest, this.completionPolicy);
+        if (completion.policy !== 'manual' && updates.completed !== isComplete(updatedRequest, completion.policy)) {
+          throw new ApiError(`Completion follows the ${completion.policy} policy (${completion.reason})`, 409);
+        }
+      }
+      
+      const current = data.requests[requestIndex];
+      if (JSON.stringify(requestFields(updatedRequest)) !== JSON.stringify(requestFields(current))) {
+        pending.versions.push(createRequestVersion(current, options.actor));
+      }
+      data.requests[requestIndex] = updatedRequest;
+      return updatedRequest;
+    }, { actor: options.actor });
+  }
+
+  /**
+   * Split some of a request's tasks off into a new request. They keep their
+   * ids, and the new request starts with the source's text unless given its own.
+   */
+  async splitRequest(requestId: string, split: RequestSplit, options: MutationOptions = {}): Promise<SplitResult> {
+    return this.mutateData(data => {
+      const source = data.requests.find(r => r.requestId === requestId);
+      if (!source) {
+        throw new ApiError('Request not found', 404);
+      }
+
+      this.assertVersion(source, options);
+
+      const chosen = new Set(split.taskIds);
+      const missing = [...chosen].filter(id => !source.tasks.some(task => task.id === id));
+      if (missing.length > 0) {
+        throw new ApiError(`Tasks not found in ${requestId}: ${missing.join(', ')}`, 404);
+      }
+      if (chosen.size === source.tasks.length) {
+        throw new ApiError('Leave at least one task in the original request', 400);
+      }
+
+      const request: Request = {
+        requestId: nextRequestId(data.requests),
+        originalRequest: split.originalRequest ?? source.originalRequest,
+        splitDetails: split.splitDetails ?? source.splitDetails,
+        tasks: source.tasks.filter(task => chosen.has(task.id)),
+        completed: false,
+        ...(source.completionPolicy && { completionPolicy: source.completionPolicy })
+      };
+      source.tasks = source.tasks.filter(task => !chosen.has(task.id));
+      data.requests.push(request);
+      return { source, request };
+    }, { actor: options.actor, operation: `Split request ${requestId}` });
+  }
+
+  /**
+   * Merge other requests into one. Their tasks are appended in order, taking
+   * the next free id where theirs is already used; their split details are
+   * joined to the target's, and the merged requests are moved to the trash.
+   * If-Match is checked against the target and `sourceEtags` against each
+   * merged request, so none of them can have changed since the caller loaded it.
+   */
+  async mergeRequests(requestId: string, merge: RequestMerge, options: MutationOptions = {}): Promise<MergeResult> {
+    return this.mutateData((data, pending) => {
+      const target = data.requests.find(r => r.requestId === requestId);
+      if (!target) {
+        throw new ApiError('Request not found', 404);
+      }
+
+      this.assertVersion(target, options);
+
+      if (merge.requestIds.includes(requestId)) {
+        throw new ApiError('A request cannot be merged into itself', 400);
+      }
+      const sources = merge.requestIds.map(id => {
+        const source = data.requests.find(r => r.requestId === id);
+        if (!source) {
+          throw new ApiError(`Request ${id} not found`, 404);
+        }
+        this.assertVersion(source, { ifMatch: merge.sourceEtags?.[id] });
+        return source;
+      });
+
+      const current = structuredClone(target);
+      const incomingIds = sources.flatMap(source => source.tasks.map(task => task.id));
+      const renamedTasks: MergeResult['renamedTasks'] = [];
+      for (const source of sources) {
+        for (const task of source.tasks) {
+          const clashes = target.tasks.some(existing => existing.id === task.id);
+          const id = clashes ? nextTaskId(target.tasks, incomingIds) : task.id;
+          if (id !== task.id) {
+            renamedTasks.push({ requestId: source.requestId, from: task.id, to: id });
+          }
+          target.tasks.push({ ...task, id });
+        }
+      }
+
+      const merged = [target, ...sources];
+      target.originalRequest = merge.originalRequest ?? target.originalRequest;
+      target.splitDetails = merge.splitDetails ?? merged.map(r => r.splitDetails.trim()).filter(Boolean).join('\n\n');
+      target.completed = merged.every(r => r.completed);
+      if (JSON.stringify(requestFields(target)) !== JSON.stringify(requestFields(current))) {
+        pending.versions.push(createRequestVersion(current, options.actor));
+      }
+
+      for (const source of sources) {
+        pending.trashed.push(createTrashItem({
+          type: 'request',
+          origin: { requestId: source.requestId, requestTitle: source.originalRequest, index: data.requests.indexOf(source) },
+          record: source
+        }));
+      }
+      data.requests = data.requests.filter(r => !merge.requestIds.includes(r.requestId));
+      console.log(`🔗 Merged ${merge.requestIds.join(', ')} into ${requestId}, renumbering ${renamedTasks.length} tasks`);
+      return { request: target, mergedRequestIds: merge.requestIds, renamedTasks };
+    }, { actor: options.actor, operation: `Merge ${merge.requestIds.join(', ')} into ${requestId}` });
+  }
+
+  /**
+   * Copy a request as a new one whose tasks start again under fresh ids
+   */
+  async duplicateRequest(requestId: string, options: MutationOptions = {}): Promise<Request> {
+    return this.mutateData(data => {
+      const source = data.requests.find(r => r.requestId === requestId);
+      if (!source) {
+        throw new ApiError('Request not found', 404);
+      }
+
+      const request: Request = {
+        requestId: nextRequestId(data.requests),
+        originalRequest: source.originalRequest,
+        splitDetails: source.splitDetails,
+        tasks: source.tasks.map((task, index) => freshTask(index, task.title, task.description)),
+        completed: false,
+        ...(source.completionPolicy && { completionPolicy: source.completionPolicy })
+      };
+      data.requests.push(request);
+      return request;
+    }, { actor: options.actor, operation: `Duplicate request ${requestId}` });
+  }
+
+  /**
+   * Delete a request, moving it (with its tasks) to the trash
+   */
+  async deleteRequest(requestId: string, options: MutationOptions = {}): Promise<void> {
+    console.log(`🗂️ TasksDataService.deleteRequest called for ${requestId}`);
     
-    console.log(`💾 Saving data for ${requestId}...`);
-    await this.saveData(data);
+    await this.mutateData((data, pending) => {
+      const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
+      console.log(`🔍 Found request ${requestId} at index:`, requestIndex);
+      
+      if (requestIndex === -1) {
+        console.log(`❌ Request ${requestId} not found`);
+        throw new ApiError('Request not found', 404);
+      }
+      
+      this.assertVersion(data.requests[requestIndex], options);
+      
+      console.log(`✂️ Moving request ${requestId} to the trash...`);
+      const [request] = data.requests.splice(requestIndex, 1);
+      pending.trashed.push(createTrashItem({
+        type: 'request',
+        origin: { requestId, requestTitle: request.originalRequest, index: requestIndex },
+        record: request
+      }));
+    }, { actor: options.actor });
     console.log(`✅ Request ${requestId} deleted and data saved successfully`);
   }
 
@@ -547,84 +1457,350 @@ export class TasksDataService {
   }
 
   /**
-   * Create a new task in a request
+   * Create a new task in a request, at `position` in its list or at the end
    */
-  async createTask(requestId: string, taskData: Omit<Task, 'id'>): Promise<Task> {
-    const data = await this.loadData();
-    const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
+  async createTask(requestId: string, taskData: Omit<Task, 'id'>, options: MutationOptions & { position?: number } = {}): Promise<Task> {
+    return this.mutateData(data => {
+      const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
+      
+      if (requestIndex === -1) {
+        throw new ApiError('Request not found', 404);
+      }
+      
+      const newTask: Task = {
+        ...taskData,
+        id: nextTaskId(data.requests[requestIndex].tasks)
+      };
+      
+      // Validate the new task
+      TaskSchema.parse(newTask);
+      applyStatus(undefined, newTask);
+      enforceWorkflow(undefined, newTask, this.workflowRules);
+      reconcileStatus(newTask);
+      
+      const tasks = data.requests[requestIndex].tasks;
+      tasks.splice(options.position ?? tasks.length, 0, newTask);
+      return newTask;
+    }, { actor: options.actor });
+  }
+
+  /**
+   * Put a request's tasks in the given order, keeping their ids. The order
+   * must name every task exactly once, so a client working from a stale list
+   * gets a 409 instead of losing tasks added since it loaded.
+   */
+  async reorderTasks(requestId: string, taskIds: string[], options: MutationOptions = {}): Promise<Request> {
+    return this.mutateData(data => {
+      const request = data.requests.find(r => r.requestId === requestId);
+      if (!request) {
+        throw new ApiError('Request not found', 404);
+      }
+
+      this.assertVersion(request, options);
+
+      const tasks = new Map(request.tasks.map(task => [task.id, task]));
+      if (taskIds.length !== tasks.size || new Set(taskIds).size !== tasks.size || taskIds.some(id => !tasks.has(id))) {
+        throw new ApiError('The task list has changed; reload the request and try again', 409);
+      }
+
+      request.tasks = taskIds.map(id => tasks.get(id) as Task);
+      return request;
+    }, { actor: options.actor, operation: `Reorder tasks of ${requestId}` });
+  }
+
+  /**
+   * Update a task
+   */
+  async updateTask(requestId: string, taskId: string, updates: Partial<Task>, options: MutationOptions = {}): Promise<Task> {
+    return this.mutateData((data, pending) => {
+      const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
+      
+      if (requestIndex === -1) {
+        throw new ApiError('Request not found', 404);
+      }
+      
+      const taskIndex = data.requests[requestIndex].tasks.findIndex(t => t.id === taskId);
+      
+      if (taskIndex === -1) {
+        throw new ApiError('Task not found', 404);
+      }
+      
+      this.assertVersion(data.requests[requestIndex].tasks[taskIndex], options);
+      
+      const updatedTask = this.reviseTask(pending, requestId, data.requests[requestIndex].tasks[taskIndex], updates, options.actor);
+      data.requests[requestIndex].tasks[taskIndex] = updatedTask;
+      return updatedTask;
+    }, { actor: options.actor });
+  }
+
+  /**
+   * Apply updates to a task the way every edit does: validate, keep status and
+   * flags in step, enforce the workflow rules and keep the version being
+   * replaced. Caller must hold the lock and put the result in place.
+   */
+  private reviseTask(pending: PendingWrites, requestId: string, current: Task, updates: Partial<Task>, actor?: AuditActor): Task {
+    const updatedTask = { ...current, ...updates };
     
-    if (requestIndex === -1) {
-      throw new ApiError('Request not found', 404);
-    }
+    // Validate the updated task, which may carry a status written by another tool
+    StoredTaskSchema.parse(updatedTask);
     
-    // Generate new task ID
-    const existingIds = data.requests[requestIndex].tasks.map(t => t.id);
-    let newId = 1;
-    while (existingIds.includes(`task-${newId}`)) {
-      newId++;
+    applyStatus(current, updatedTask);
+    enforceWorkflow(current, updatedTask, this.workflowRules);
+    reconcileStatus(updatedTask);
+    if (JSON.stringify(updatedTask) !== JSON.stringify(current)) {
+      pending.versions.push(createTaskVersion(requestId, current, actor));
     }
-    
-    const newTask: Task = {
-      id: `task-${newId}`,
-      ...taskData
-    };
-    
-    // Validate the new task
-    TaskSchema.parse(newTask);
-    
-    data.requests[requestIndex].tasks.push(newTask);
-    await this.saveData(data);
-    
-    return newTask;
+    return updatedTask;
   }
 
   /**
-   * Update a task
+   * Tasks awaiting approval (done but not approved) across all requests,
+   * longest waiting first
    */
-  async updateTask(requestId: string, taskId: string, updates: Partial<Task>): Promise<Task> {
-    const data = await this.loadData();
-    const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
-    
+  async getReviewQueue(): Promise<ReviewQueueItem[]> {
+    const requests = await this.getAllFullRequests();
+    return requests
+      .flatMap(request => request.tasks
+        .filter(task => task.done && !task.approved)
+        .map(task => ({ requestId: request.requestId, originalRequest: request.originalRequest, task })))
+      .sort((a, b) => (a.task.completedAt ?? '').localeCompare(b.task.completedAt ?? ''));
+  }
+
+  /**
+   * Approve a task awaiting review, or reject it: the task is reopened and the
+   * feedback added to its history so the agent can see why
+   */
+  async reviewTask(
+    requestId: string,
+    taskId: string,
+    review: { decision: ReviewDecision; feedback?: string },
+    options: MutationOptions = {}
+  ): Promise<Task> {
+    const operation = review.decision === 'approve' ? 'Approve in review' : 'Reject in review';
+    return this.mutateData((data, pending) => {
+      const request = data.requests.find(r => r.requestId === requestId);
+      if (!request) {
+        throw new ApiError('Request not found', 404);
+      }
+
+      const taskIndex = request.tasks.findIndex(t => t.id === taskId);
+      if (taskIndex === -1) {
+        throw new ApiError('Task not found', 404);
+      }
+
+      const current = request.tasks[taskIndex];
+      if (!current.done || current.approved) {
+        throw new ApiError(`Task ${taskId} is not awaiting review`, 409);
+      }
+
+      const updates: Partial<Task> = review.decision === 'approve'
+        ? { status: 'approved' }
+        : {
+          status: 'rejected',
+          reviewFeedback: [
+            ...(current.reviewFeedback ?? []),
+            {
+              feedback: review.feedback ?? '',
+              rejectedAt: new Date().toISOString(),
+              ...(options.actor?.name && { reviewer: options.actor.name })
+            }
+          ]
+        };
+      const reviewedTask = this.reviseTask(pending, requestId, current, updates, options.actor);
+      request.tasks[taskIndex] = reviewedTask;
+      return reviewedTask;
+    }, { actor: options.actor, operation });
+  }
+
+  /**
+   * Delete a task, moving it to the trash
+   */
+  async deleteTask(requestId: string, taskId: string, options: MutationOptions = {}): Promise<void> {
+    await this.mutateData((data, pending) => {
+      const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
+      
+      if (requestIndex === -1) {
+        throw new ApiError('Request not found', 404);
+      }
+      
+      const taskIndex = data.requests[requestIndex].tasks.findIndex(t => t.id === taskId);
+      
+      if (taskIndex === -1) {
+        throw new ApiError('Task not found', 404);
+      }
+      
+      this.assertVersion(data.requests[requestIndex].tasks[taskIndex], options);
+      
+      const [task] = data.requests[requestIndex].tasks.splice(taskIndex, 1);
+      pending.trashed.push(createTrashItem({
+        type: 'task',
+        origin: { requestId, requestTitle: data.requests[requestIndex].originalRequest, index: taskIndex },
+        record: task
+      }));
+    }, { actor: options.actor });
+  }
+
+  /**
+   * Run a batch of operations as one transaction: one lock, one backup and
+   * one undo step. Operations run in order; one that fails is reported and
+   * skipped, and the rest still apply.
+   */
+  async runBulk(operations: BulkOperation[], options: MutationOptions = {}): Promise<BulkResult> {
+    console.log(`📦 Running ${operations.length} bulk operations...`);
+    const results = await this.mutateData((data, pending) => {
+      const results: BulkItemResult[] = [];
+      for (const operation of operations) {
+        try {
+          const taskId = this.applyBulkOperation(data, pending, operation, options.actor);
+          results.push({ operation, ok: true, ...(taskId && { taskId }) });
+        } catch (error) {
+          // Anything but a rejected operation aborts the whole batch
+          if (!(error instanceof ApiError)) throw error;
+          results.push({ operation, ok: false, status: error.status, error: error.message });
+        }
+      }
+      return results;
+    }, { actor: options.actor, operation: `Bulk update of ${operations.length} items` });
+
+    const succeeded = results.filter(result => result.ok).length;
+    console.log(`✅ Bulk operations done: ${succeeded} applied, ${results.length - succeeded} skipped`);
+    return { results, succeeded, failed: results.length - succeeded };
+  }
+
+  /**
+   * Apply one bulk operation, throwing before anything changes if it can't be
+   * applied. Returns the new id of a moved task. Caller must hold the lock.
+   */
+  private applyBulkOperation(data: TasksData, pending: PendingWrites, operation: BulkOperation, actor?: AuditActor): string | undefined {
+    const requestIndex = data.requests.findIndex(r => r.requestId === operation.requestId);
     if (requestIndex === -1) {
       throw new ApiError('Request not found', 404);
     }
-    
-    const taskIndex = data.requests[requestIndex].tasks.findIndex(t => t.id === taskId);
-    
+    const request = data.requests[requestIndex];
+
+    if (operation.type === 'deleteRequest') {
+      data.requests.splice(requestIndex, 1);
+      pending.trashed.push(createTrashItem({
+        type: 'request',
+        origin: { requestId: request.requestId, requestTitle: request.originalRequest, index: requestIndex },
+        record: request
+      }));
+      return;
+    }
+
+    if (operation.type === 'completeRequest') {
+      const completion = completionStatus(request, this.completionPolicy);
+      if (completion.managed) {
+        throw new ApiError(`Completion follows the ${completion.policy} policy (${completion.reason})`, 409);
+      }
+      if (request.completed !== operation.completed) {
+        pending.versions.push(createRequestVersion(request, actor));
+        data.requests[requestIndex] = { ...request, completed: operation.completed };
+      }
+      return;
+    }
+
+    const taskIndex = request.tasks.findIndex(t => t.id === operation.taskId);
     if (taskIndex === -1) {
       throw new ApiError('Task not found', 404);
     }
-    
-    const updatedTask = { ...data.requests[requestIndex].tasks[taskIndex], ...updates };
-    
-    // Validate the updated task
-    TaskSchema.parse(updatedTask);
-    
-    data.requests[requestIndex].tasks[taskIndex] = updatedTask;
-    await this.saveData(data);
-    
-    return updatedTask;
+    const task = request.tasks[taskIndex];
+
+    switch (operation.type) {
+      case 'approveTask':
+        request.tasks[taskIndex] = this.reviseTask(pending, request.requestId, task, { approved: operation.approved }, actor);
+        return;
+      case 'setTaskDone':
+        request.tasks[taskIndex] = this.reviseTask(pending, request.requestId, task, { done: operation.done }, actor);
+        return;
+      case 'deleteTask':
+        request.tasks.splice(taskIndex, 1);
+        pending.trashed.push(createTrashItem({
+          type: 'task',
+          origin: { requestId: request.requestId, requestTitle: request.originalRequest, index: taskIndex },
+          record: task
+        }));
+        return;
+      case 'moveTask':
+        return this.transferTask(data, request, taskIndex, operation.toRequestId, { copy: false }).id;
+    }
   }
 
   /**
-   * Delete a task
+   * Move or copy a task to the end of another request, where it gets the next
+   * free id. A copy starts its own history, so it is stamped as new. Throws
+   * before anything changes if the target is missing. Caller must hold the lock.
    */
-  async deleteTask(requestId: string, taskId: string): Promise<void> {
-    const data = await this.loadData();
-    const requestIndex = data.requests.findIndex(r => r.requestId === requestId);
-    
-    if (requestIndex === -1) {
+  private transferTask(
+    data: TasksData,
+    source: Request,
+    taskIndex: number,
+    toRequestId: string,
+    { copy, tombstone = false }: { copy: boolean; tombstone?: boolean }
+  ): Task {
+    const target = data.requests.find(r => r.requestId === toRequestId);
+    if (!target) {
+      throw new ApiError(`Target request ${toRequestId} not found`, 404);
+    }
+    if (target === source && !copy) {
+      throw new ApiError(`Task is already in request ${toRequestId}`, 400);
+    }
+
+    const task = source.tasks[taskIndex];
+    const placed: Task = { ...structuredClone(task), id: nextTaskId(target.tasks) };
+    if (copy) {
+      delete placed.createdAt;
+      delete placed.updatedAt;
+      delete placed.completedAt;
+      delete placed.approvedAt;
+    } else {
+      source.tasks.splice(taskIndex, 1);
+      if (tombstone) {
+        const note = `Task ${task.id} "${task.title}" moved to request ${target.requestId} as ${placed.id}.`;
+        source.splitDetails = [source.splitDetails.trimEnd(), note].filter(Boolean).join('\n\n');
+      }
+    }
+    target.tasks.push(placed);
+    return placed;
+  }
+
+  /**
+   * Move a task to another request in one save, optionally leaving a note in
+   * the source request's split details saying where it went
+   */
+  async moveTask(requestId: string, taskId: string, toRequestId: string, tombstone: boolean = false, options: MutationOptions = {}): Promise<TaskTransferResult> {
+    return this.mutateData(data => {
+      const { request, taskIndex } = this.findTask(data, requestId, taskId);
+      this.assertVersion(request.tasks[taskIndex], options);
+      const task = this.transferTask(data, request, taskIndex, toRequestId, { copy: false, tombstone });
+      return { from: { requestId, taskId }, requestId: toRequestId, task };
+    }, { actor: options.actor, operation: `Move task ${taskId} from ${requestId} to ${toRequestId}` });
+  }
+
+  /**
+   * Copy a task to another request (or the same one) as a new task
+   */
+  async copyTask(requestId: string, taskId: string, toRequestId: string, options: MutationOptions = {}): Promise<TaskTransferResult> {
+    return this.mutateData(data => {
+      const { request, taskIndex } = this.findTask(data, requestId, taskId);
+      const task = this.transferTask(data, request, taskIndex, toRequestId, { copy: true });
+      return { from: { requestId, taskId }, requestId: toRequestId, task };
+    }, { actor: options.actor, operation: `Copy task ${taskId} from ${requestId} to ${toRequestId}` });
+  }
+
+  /**
+   * Locate a task in loaded data, or throw 404
+   */
+  private findTask(data: TasksData, requestId: string, taskId: string): { request: Request; taskIndex: number } {
+    const request = data.requests.find(r => r.requestId === requestId);
+    if (!request) {
       throw new ApiError('Request not found', 404);
     }
-    
-    const taskIndex = data.requests[requestIndex].tasks.findIndex(t => t.id === taskId);
-    
+    const taskIndex = request.tasks.findIndex(t => t.id === taskId);
     if (taskIndex === -1) {
       throw new ApiError('Task not found', 404);
     }
-    
-    data.requests[requestIndex].tasks.splice(taskIndex, 1);
-    await this.saveData(data);
+    return { request, taskIndex };
   }
 }
 
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { Request, RequestTemplate, Task } from '@/types';
+import { StoredTemplateSchema } from '@/schemas/validation';
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Parse the stored template library. Anything unreadable is treated as empty,
+ * and entries that aren't valid templates are skipped.
+ */
+export function parseTemplates(content: string | null): RequestTemplate[] {
+  if (!content) return [];
+  try {
+    const parsed = JSON.parse(content);
+    const entries: unknown[] = Array.isArray(parsed?.templates) ? parsed.templates : [];
+    return entries.flatMap(entry => {
+      const result = StoredTemplateSchema.safeParse(entry);
+      if (!result.success) {
+        console.error('Skipping invalid template:', result.error.issues);
+        return [];
+      }
+      return [result.data];
+    });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Names of the `{{placeholders}}` used anywhere in a template, in order of first use
+ */
+export function findPlaceholders(template: Pick<RequestTemplate, 'originalRequest' | 'splitDetails' | 'tasks'>): string[] {
+  const texts = [template.originalRequest, template.splitDetails, ...template.tasks.flatMap(task => [task.title, task.description])];
+  const names = texts.flatMap(text => [...text.matchAll(PLACEHOLDER)].map(match => match[1]));
+  return [...new Set(names)];
+}
+
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * A not yet started task with the next sequential id, as in a new request
+ */
+export function freshTask(index: number, title: string, description: string): Task {
+  return { id: `task-${index + 1}`, title, description, done: false, approved: false, completedDetails: '' };
+}
+
+export function templateFromRequest(request: Request, name: string): RequestTemplate {
+  const content = {
+    originalRequest: request.originalRequest,
+    splitDetails: request.splitDetails,
+    tasks: request.tasks.map(task => ({ title: task.title, description: task.description }))
+  };
+  return {
+    id: crypto.randomUUID(),
+    name,
+    ...content,
+    placeholders: findPlaceholders(content),
+    sourceRequestId: request.requestId,
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * The request a template describes, with every placeholder filled in. The
+ * request id is left to the caller, who knows which ones are taken.
+ */
+export function requestFromTemplate(template: RequestTemplate, values: Record<string, string>): Omit<Request, 'requestId'> {
+  return {
+    originalRequest: fillPlaceholders(template.originalRequest, values),
+    splitDetails: fillPlaceholders(template.splitDetails, values),
+    tasks: template.tasks.map((task, index) => freshTask(index, fillPlaceholders(task.title, values), fillPlaceholders(task.description, values))),
+    completed: false
+  };
+}
@@ -0,0 +1,58 @@
+import { Request, Task, TasksData } from '@/types';
+
+/**
+ * Stamp the moment a flag turns on, and clear the stamp when it turns off
+ */
+function stampTransition(record: Pick<Task, 'completedAt' | 'approvedAt'>, field: 'completedAt' | 'approvedAt', on: boolean, wasOn: boolean, now: string): void {
+  if (!on) {
+    delete record[field];
+  } else if (!wasOn) {
+    record[field] = now;
+  }
+}
+
+function stampTask(task: Task, previous: Task | undefined, now: string): void {
+  if (previous && JSON.stringify(previous) === JSON.stringify(task)) return;
+
+  // New records get a creation time unless they already carry one (e.g. restored
+  // from the trash); legacy records aren't given a made-up one when edited
+  if (!previous) task.createdAt ??= now;
+  task.updatedAt = now;
+  stampTransition(task, 'completedAt', task.done, previous?.done ?? false, now);
+  stampTransition(task, 'approvedAt', task.approved, previous?.approved ?? false, now);
+}
+
+function stampRequest(request: Request, previous: Request | undefined, now: string): void {
+  const previousTasks = new Map(previous?.tasks.map(task => [task.id, task]));
+  for (const task of request.tasks) {
+    stampTask(task, previousTasks.get(task.id), now);
+  }
+
+  if (previous && JSON.stringify(previous) === JSON.stringify(request)) return;
+
+  if (!previous) request.createdAt ??= now;
+  request.updatedAt = now;
+  stampTransition(request, 'completedAt', request.completed, previous?.completed ?? false, now);
+}
+
+/**
+ * Stamp creation, update, completion and approval times on every request and
+ * task a mutation added or changed. Records it didn't touch are left alone, so
+ * legacy records without stamps stay that way until they are edited.
+ */
+export function stampChanges(before: TasksData, after: TasksData, now: string = new Date().toISOString()): void {
+  const previousRequests = new Map(before.requests.map(request => [request.requestId, request]));
+  for (const request of after.requests) {
+    stampRequest(request, previousRequests.get(request.requestId), now);
+  }
+}
+
+/**
+ * Latest stamp on a request or task, if it has any
+ */
+export function lastActivity(record: { createdAt?: string; updatedAt?: string; completedAt?: string; approvedAt?: string }): string | undefined {
+  return [record.createdAt, record.updatedAt, record.completedAt, record.approvedAt]
+    .filter((stamp): stamp is string => !!stamp)
+    .sort()
+    .pop();
+}
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import { TasksData, TrashItem } from '@/types';
+import { DEFAULT_VALUES } from '@/constants';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Days trashed records are kept; override with TASKS_TRASH_RETENTION_DAYS
+ */
+export function getTrashRetentionDays(value: string | undefined = process.env.TASKS_TRASH_RETENTION_DAYS): number {
+  const days = Number(value);
+  return value && Number.isFinite(days) && days > 0 ? days : DEFAULT_VALUES.TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When a trashed record will be purged automatically
+ */
+export function trashExpiry(item: TrashItem, retentionDays: number): number {
+  return Date.parse(item.deletedAt) + retentionDays * DAY;
+}
+
+/**
+ * Parse the stored trash, dropping expired items. Anything unreadable is
+ * treated as an empty trash rather than blocking deletes.
+ */
+export function parseTrash(content: string | null, retentionDays: number, now: number = Date.now()): TrashItem[] {
+  if (!content) return [];
+  try {
+    const parsed = JSON.parse(content);
+    const items: TrashItem[] = Array.isArray(parsed?.items) ? parsed.items : [];
+    return items.filter(item => trashExpiry(item, retentionDays) > now);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether stored trash content can be read. parseTrash treats content that
+ * can't as an empty trash, so writing over it would lose whatever it held.
+ */
+export function isReadableTrash(content: string | null): boolean {
+  if (!content) return true;
+  try {
+    return Array.isArray(JSON.parse(content)?.items);
+  } catch {
+    return false;
+  }
+}
+
+export function createTrashItem(item: Omit<TrashItem, 'id' | 'deletedAt'>): TrashItem {
+  return { id: crypto.randomUUID(), deletedAt: new Date().toISOString(), ...item } as TrashItem;
+}
+
+/**
+ * Whether a trashed record is back in the data unchanged, e.g. after an undo
+ */
+export function isLiveAgain(item: TrashItem, data: TasksData): boolean {
+  const request = data.requests.find(r => r.requestId === item.origin.requestId);
+  if (!request) return false;
+  if (item.type === 'request') {
+    return JSON.stringify(request) === JSON.stringify(item.record);
+  }
+  const task = request.tasks.find(t => t.id === item.record.id);
+  return !!task && JSON.stringify(task) === JSON.stringify(item.record);
+}
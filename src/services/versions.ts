@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { AuditActor, RecordVersion, Request, Task } from '@/types';
+
+/**
+ * Key identifying the record a version belongs to
+ */
+function recordKey(version: RecordVersion): string {
+  return version.type === 'task' ? `${version.requestId}/${version.taskId}` : version.requestId;
+}
+
+/**
+ * A request's own fields; its tasks are versioned separately
+ */
+export function requestFields(request: Request): Omit<Request, 'tasks'> {
+  const fields: Omit<Request, 'tasks'> & { tasks?: Task[] } = structuredClone(request);
+  delete fields.tasks;
+  return fields;
+}
+
+export function createRequestVersion(request: Request, actor?: AuditActor): RecordVersion {
+  return {
+    id: crypto.randomUUID(),
+    savedAt: new Date().toISOString(),
+    requestId: request.requestId,
+    ...(actor && { actor }),
+    type: 'request',
+    record: requestFields(request)
+  };
+}
+
+export function createTaskVersion(requestId: string, task: Task, actor?: AuditActor): RecordVersion {
+  return {
+    id: crypto.randomUUID(),
+    savedAt: new Date().toISOString(),
+    requestId,
+    ...(actor && { actor }),
+    type: 'task',
+    taskId: task.id,
+    record: structuredClone(task)
+  };
+}
+
+/**
+ * Keep only the newest `perRecord` versions of each record
+ */
+export function pruneVersions(versions: RecordVersion[], perRecord: number): RecordVersion[] {
+  const counts = new Map<string, number>();
+  const kept: RecordVersion[] = [];
+  for (let i = versions.length - 1; i >= 0; i--) {
+    const key = recordKey(versions[i]);
+    const count = counts.get(key) ?? 0;
+    if (count < perRecord) {
+      kept.push(versions[i]);
+      counts.set(key, count + 1);
+    }
+  }
+  return kept.reverse();
+}
+
+/**
+ * Versions of a request's own fields, or of one of its tasks, newest first
+ */
+export function versionsFor(versions: RecordVersion[], requestId: string, taskId?: string): RecordVersion[] {
+  return versions
+    .filter(version => version.requestId === requestId && (taskId
+      ? version.type === 'task' && version.taskId === taskId
+      : version.type === 'request'))
+    .reverse();
+}
+
+/**
+ * Parse the stored versions. Anything unreadable is treated as no versions
+ * rather than blocking saves.
+ */
+export function parseVersions(content: string | null): RecordVersion[] {
+  if (!content) return [];
+  try {
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed?.versions) ? parsed.versions : [];
+  } catch {
+    return [];
+  }
+}
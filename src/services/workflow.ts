@@ -0,0 +1,57 @@
+import { ApiError, Task, ValidationError, WorkflowRules } from '@/types';
+import { WorkflowRulesSchema } from '@/schemas/validation';
+
+/**
+ * Approval needs a finished task and is withdrawn when the task is reopened.
+ * Completed details are optional.
+ */
+export const DEFAULT_WORKFLOW_RULES: WorkflowRules = {
+  approveRequiresDone: true,
+  undoneClearsApproval: true,
+  doneRequiresDetails: false
+};
+
+/**
+ * Resolve the workflow rules. TASKS_WORKFLOW_RULES can switch individual rules
+ * on or off with JSON, e.g. `{"doneRequiresDetails": true}`.
+ */
+export function getWorkflowRules(value: string | undefined = process.env.TASKS_WORKFLOW_RULES): WorkflowRules {
+  if (!value) {
+    return DEFAULT_WORKFLOW_RULES;
+  }
+
+  try {
+    return { ...DEFAULT_WORKFLOW_RULES, ...WorkflowRulesSchema.parse(JSON.parse(value)) };
+  } catch (error) {
+    console.error('Invalid TASKS_WORKFLOW_RULES, using the default rules:', error);
+    return DEFAULT_WORKFLOW_RULES;
+  }
+}
+
+/**
+ * Check a task being created (no `before`) or updated against the rules.
+ * Automatic effects, like withdrawing approval, are applied to `after` in
+ * place; illegal transitions throw a 422 explaining which rule they break.
+ * Only changes are checked, so tasks stored before a rule was switched on
+ * can still be edited.
+ */
+export function enforceWorkflow(before: Task | undefined, after: Task, rules: WorkflowRules): void {
+  if (rules.undoneClearsApproval && before?.done && before.approved && !after.done) {
+    after.approved = false;
+  }
+
+  const violations: ValidationError[] = [];
+  const markedDone = after.done && !before?.done;
+  const flagsChanged = !before || before.done !== after.done || before.approved !== after.approved;
+
+  if (rules.doneRequiresDetails && markedDone && !after.completedDetails.trim()) {
+    violations.push({ field: 'done', message: 'Add completed details before marking the task done' });
+  }
+  if (rules.approveRequiresDone && after.approved && !after.done && flagsChanged) {
+    violations.push({ field: 'approved', message: 'A task must be done before it can be approved' });
+  }
+
+  if (violations.length > 0) {
+    throw new ApiError(`Task ${after.id} can't be saved: ${violations.map(v => v.message).join('; ')}`, 422, violations);
+  }
+}
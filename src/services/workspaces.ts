@@ -0,0 +1,156 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ApiError, Workspace } from '@/types';
+import { WorkspaceRegistrySchema } from '@/schemas/validation';
+import { WORKSPACE_CONFIG } from '@/constants';
+import { TasksDataService } from '@/services/tasksDataService';
+
+/**
+ * Location of the workspace registry; override with TASKS_WORKSPACES_FILE
+ */
+export function getRegistryPath(): string {
+  return process.env.TASKS_WORKSPACES_FILE || path.join(process.cwd(), WORKSPACE_CONFIG.REGISTRY_FILE);
+}
+
+/**
+ * Resolve relative workspace paths against the registry file's directory
+ */
+function resolvePaths(workspace: Workspace, baseDir: string): Workspace {
+  return {
+    ...workspace,
+    path: path.resolve(baseDir, workspace.path),
+    backupDir: workspace.backupDir && path.resolve(baseDir, workspace.backupDir),
+    lockFile: workspace.lockFile && path.resolve(baseDir, workspace.lockFile)
+  };
+}
+
+/**
+ * Read the registered workspaces (without the default workspace)
+ */
+async function readRegistry(): Promise<Workspace[]> {
+  const registryPath = getRegistryPath();
+  if (!await fs.pathExists(registryPath)) {
+    return [];
+  }
+
+  try {
+    const registry = WorkspaceRegistrySchema.parse(JSON.parse(await fs.readFile(registryPath, 'utf-8')));
+    return registry.workspaces.map(workspace => resolvePaths(workspace, path.dirname(registryPath)));
+  } catch (error) {
+    throw new ApiError(`Invalid workspace registry at ${registryPath}: ${error}`, 500);
+  }
+}
+
+// Registry changes in this process run one at a time
+let registryQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Run a read-modify-write of the registry after any already queued, so
+ * concurrent changes don't overwrite each other
+ */
+async function withRegistryLock<T>(operation: () => Promise<T>): Promise<T> {
+  const previous = registryQueue;
+  let releaseQueue!: () => void;
+  registryQueue = new Promise<void>(resolve => {
+    releaseQueue = resolve;
+  });
+
+  await previous;
+  try {
+    return await operation();
+  } finally {
+    releaseQueue();
+  }
+}
+
+async function writeRegistry(workspaces: Workspace[]): Promise<void> {
+  const registryPath = getRegistryPath();
+  const tempPath = `${registryPath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify({ workspaces }, null, 2));
+  await fs.rename(tempPath, registryPath);
+}
+
+/**
+ * The default workspace is whatever TASKS_STORAGE points at
+ */
+export function getDefaultWorkspace(): Workspace {
+  const storage = TasksDataService.getInstance().getStorage();
+  return {
+    name: WORKSPACE_CONFIG.DEFAULT_NAME,
+    path: storage.location,
+    backupDir: storage.backupLocation
+  };
+}
+
+/**
+ * List all workspaces, default first
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  return [getDefaultWorkspace(), ...await readRegistry()];
+}
+
+/**
+ * Find a workspace by name
+ */
+export async function getWorkspace(name: string): Promise<Workspace | null> {
+  const workspaces = await listWorkspaces();
+  return workspaces.find(workspace => workspace.name === name) || null;
+}
+
+/**
+ * Register a workspace
+ */
+export async function addWorkspace(workspace: Workspace): Promise<Workspace> {
+  if (workspace.name === WORKSPACE_CONFIG.DEFAULT_NAME) {
+    throw new ApiError(`"${WORKSPACE_CONFIG.DEFAULT_NAME}" is reserved for the built-in workspace`, 400);
+  }
+
+  return withRegistryLock(async () => {
+    const workspaces = await readRegistry();
+    if (workspaces.some(existing => existing.name === workspace.name)) {
+      throw new ApiError(`Workspace "${workspace.name}" already exists`, 409);
+    }
+
+    const resolved = resolvePaths(workspace, path.dirname(getRegistryPath()));
+    const directory = resolved.path.endsWith('.json') ? path.dirname(resolved.path) : resolved.path;
+    if (!await fs.pathExists(directory)) {
+      throw new ApiError(`Directory does not exist: ${directory}`, 400);
+    }
+
+    await writeRegistry([...workspaces, resolved]);
+    return resolved;
+  });
+}
+
+/**
+ * Remove a workspace from the registry. Its tasks file is left untouched.
+ */
+export async function removeWorkspace(name: string): Promise<void> {
+  if (name === WORKSPACE_CONFIG.DEFAULT_NAME) {
+    throw new ApiError('The default workspace cannot be removed', 400);
+  }
+
+  await withRegistryLock(async () => {
+    const workspaces = await readRegistry();
+    if (!workspaces.some(workspace => workspace.name === name)) {
+      throw new ApiError('Workspace not found', 404);
+    }
+
+    await writeRegistry(workspaces.filter(workspace => workspace.name !== name));
+  });
+}
+
+/**
+ * Get the data service for a workspace name (null or "default" for the default store)
+ */
+export async function getWorkspaceService(name?: string | null): Promise<TasksDataService> {
+  if (!name || name === WORKSPACE_CONFIG.DEFAULT_NAME) {
+    return TasksDataService.getInstance();
+  }
+
+  const workspace = await getWorkspace(name);
+  if (!workspace) {
+    throw new ApiError(`Workspace "${name}" not found`, 404);
+  }
+  return TasksDataService.getInstance(workspace);
+}
@@ -1,4 +1,11 @@
 // Core data model types for the task management system
+
+/**
+ * Finer-grained task state. Each status maps onto done/approved, which stay
+ * the source of truth for MCP servers that don't know about statuses.
+ */
+export type TaskStatus = 'pending' | 'in-progress' | 'blocked' | 'needs-review' | 'approved' | 'rejected';
+
 export interface Task {
   id: string;
   title: string;
@@ -6,6 +13,22 @@ export interface Task {
   done: boolean;
   approved: boolean;
   completedDetails: string;
+  /** ISO timestamps stamped by the service; legacy records have none */
+  createdAt?: string;
+  updatedAt?: string;
+  /** When the task was last marked done; cleared when it is reopened */
+  completedAt?: string;
+  /** When the task was last approved; cleared when approval is withdrawn */
+  approvedAt?: string;
+  /**
+   * A TaskStatus; tasks without one take the status their done/approved flags
+   * imply. Statuses written by other tools are kept as they are.
+   */
+  status?: string;
+  /** Why the task is blocked; cleared when it leaves the blocked status */
+  blockedReason?: string;
+  /** Why the task was rejected in review, oldest first; kept so the agent can see it */
+  reviewFeedback?: ReviewFeedback[];
 }
 
 export interface Request {
@@ -14,9 +37,18 @@ export interface Request {
   splitDetails: string;
   tasks: Task[];
   completed: boolean;
+  /** ISO timestamps stamped by the service; legacy records have none */
+  createdAt?: string;
+  /** Bumped whenever the request or one of its tasks changes */
+  updatedAt?: string;
+  completedAt?: string;
+  /** Overrides the global completion policy for this request */
+  completionPolicy?: CompletionPolicy;
 }
 
 export interface TasksData {
+  /** Format version; files written before versioning have none (version 0) */
+  schemaVersion?: number;
   requests: Request[];
 }
 
@@ -65,6 +97,29 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Raised when an If-Match precondition no longer matches the stored record.
+ * Carries the current server copy so clients can resolve the conflict.
+ */
+export class PreconditionFailedError extends ApiError {
+  public current: unknown;
+  public etag: string;
+
+  constructor(message: string, current: unknown, etag: string) {
+    super(message, 412);
+    this.name = 'PreconditionFailedError';
+    this.current = current;
+    this.etag = etag;
+  }
+}
+
+// Options accepted by service mutations
+export interface MutationOptions {
+  ifMatch?: string | null;
+  /** Who is making the change, for the audit trail */
+  actor?: AuditActor;
+}
+
 // Form data types
 export interface RequestFormData {
   originalRequest: string;
@@ -78,6 +133,423 @@ export interface TaskFormData {
   done: boolean;
   approved: boolean;
   completedDetails: string;
+  status?: TaskStatus;
+  blockedReason?: string;
+}
+
+// Live change notifications published over /api/events
+export interface RequestChange {
+  requestId: string;
+  change: 'added' | 'removed' | 'modified';
+  taskIds: string[];
+}
+
+export interface DataChangeEvent {
+  checksum: string;
+  source: 'editor' | 'external';
+  timestamp: string;
+  requests: RequestChange[];
+}
+
+// Storage backends behind TasksDataService
+export type StorageBackend = 'json' | 'memory' | 'sqlite';
+
+/**
+ * Persistence for the serialized tasks document, its checksum, backups and the
+ * write lock. Parsing, validation and backup policy stay in TasksDataService.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  /** Where the tasks document lives (file path, database path, ...) */
+  readonly location: string;
+  /** Where backups are kept */
+  readonly backupLocation: string;
+  exists(): Promise<boolean>;
+  read(): Promise<string>;
+  /** Atomically replace the document and its checksum */
+  write(content: string, checksum: string): Promise<void>;
+  readChecksum(): Promise<string | null>;
+  acquireLock(): Promise<void>;
+  releaseLock(): Promise<void>;
+  listBackups(): Promise<string[]>;
+  readBackup(name: string): Promise<string>;
+  /** Store a backup and return where it was written */
+  writeBackup(name: string, content: string): Promise<string>;
+  deleteBackup(name: string): Promise<void>;
+  /** Read a named sidecar document kept alongside the data (journal, ...); null if it doesn't exist */
+  readDocument(name: string): Promise<string | null>;
+  writeDocument(name: string, content: string): Promise<void>;
+  /** Call `onChange` whenever the document may have changed; returns an unsubscribe function */
+  watch(onChange: () => void): () => void;
+}
+
+// Schema versioning
+export interface MigrationInfo {
+  /** The schema version this migration upgrades to */
+  version: number;
+  description: string;
+}
+
+export interface SchemaStatus {
+  /** Version of the stored file */
+  fileVersion: number;
+  /** Version the editor works with in memory */
+  currentVersion: number;
+  /** Version files are written in (lower for MCP servers that expect the legacy shape) */
+  writeVersion: number;
+  migrations: MigrationInfo[];
+}
+
+export interface MigrationPlan {
+  fromVersion: number;
+  toVersion: number;
+  /** Migrations in the order they run; downgrades run them in reverse */
+  steps: MigrationInfo[];
+  rootChanges: FieldChange[];
+  diff: TasksDataDiff;
+  dryRun: boolean;
+  /** Backup of the file taken before it was rewritten */
+  backup: string | null;
+}
+
+// Operation journal: every mutation records each request it touched before
+// and after, which is enough to apply it in either direction
+export interface JournalChange {
+  requestId: string;
+  /** The request before the mutation, null if it was created */
+  before: Request | null;
+  beforeIndex: number;
+  /** The request after the mutation, null if it was deleted */
+  after: Request | null;
+  afterIndex: number;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  /** Undo and redo entries point at the mutation they reverted or re-applied */
+  kind: 'mutation' | 'undo' | 'redo';
+  description: string;
+  changes: JournalChange[];
+  target?: string;
+  /** Records the mutation moved to the trash */
+  trashed?: TrashItem[];
+  /** Trash items the mutation put back */
+  untrashed?: TrashItem[];
+}
+
+export interface JournalStatus {
+  /** Description of the mutation the next undo would revert */
+  undo: string | null;
+  /** Description of the mutation the next redo would re-apply */
+  redo: string | null;
+}
+
+export interface UndoResult extends JournalStatus {
+  /** Descriptions of the mutations that were reverted or re-applied */
+  applied: string[];
+}
+
+// Trash: deleted requests and tasks are kept outside the tasks document (so
+// the MCP agent never sees them) until they are restored, purged or expire
+interface TrashItemBase {
+  id: string;
+  deletedAt: string;
+  /** The request the record was deleted from and its position there */
+  origin: { requestId: string; requestTitle: string; index: number };
+}
+
+export type TrashItem =
+  | (TrashItemBase & { type: 'request'; record: Request })
+  | (TrashItemBase & { type: 'task'; record: Task });
+
+export interface TrashRestoreResult {
+  requestId: string;
+  taskId?: string;
+  /** The original request no longer exists, so a new one was created for the task */
+  createdRequest: boolean;
+}
+
+// Completion: whether `completed` is toggled by hand or derived from the tasks
+export type CompletionPolicy = 'manual' | 'allDone' | 'allApproved';
+
+export interface CompletionStatus {
+  /** Policy in effect for the request */
+  policy: CompletionPolicy;
+  /** The policy comes from the global setting rather than the request */
+  inherited: boolean;
+  /** `completed` is kept in sync with the tasks by the service */
+  managed: boolean;
+  /** Why the request is or isn't complete */
+  reason: string;
+}
+
+// Workflow: rules on how a task's done and approved flags may change
+export interface WorkflowRules {
+  /** A task must be done before it can be approved */
+  approveRequiresDone: boolean;
+  /** Marking an approved task not done withdraws its approval */
+  undoneClearsApproval: boolean;
+  /** Completed details must be filled in before a task is marked done */
+  doneRequiresDetails: boolean;
+}
+
+// Review: done tasks wait for approval; rejecting one sends it back with feedback
+export type ReviewDecision = 'approve' | 'reject';
+
+export interface ReviewFeedback {
+  feedback: string;
+  rejectedAt: string;
+  /** Who rejected the task, when the client named itself */
+  reviewer?: string;
+}
+
+export interface ReviewQueueItem {
+  requestId: string;
+  originalRequest: string;
+  task: Task;
+}
+
+// Bulk: a batch of operations run as one transaction, with a result per operation
+export type BulkOperation =
+  | { type: 'deleteRequest'; requestId: string }
+  | { type: 'completeRequest'; requestId: string; completed: boolean }
+  | { type: 'approveTask'; requestId: string; taskId: string; approved: boolean }
+  | { type: 'setTaskDone'; requestId: string; taskId: string; done: boolean }
+  | { type: 'deleteTask'; requestId: string; taskId: string }
+  | { type: 'moveTask'; requestId: string; taskId: string; toRequestId: string };
+
+/** Batch actions on tasks of one request, each expanded to a bulk operation per task */
+export type TaskBatchAction = 'done' | 'undone' | 'approve' | 'unapprove' | 'delete' | 'move';
+
+export interface TaskBatch {
+  action: TaskBatchAction;
+  taskIds: string[];
+  /** Request to move the tasks to; required for `move` */
+  toRequestId?: string;
+}
+
+export interface BulkItemResult {
+  operation: BulkOperation;
+  ok: boolean;
+  /** HTTP status and reason of an operation that failed and was skipped */
+  status?: number;
+  error?: string;
+  /** Id a moved task was given in its new request */
+  taskId?: string;
+}
+
+export interface BulkResult {
+  results: BulkItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
+// Transfers: a task moved or copied to another request gets the next free id there
+export interface TaskTransferResult {
+  /** Where the task was moved or copied from */
+  from: { requestId: string; taskId: string };
+  requestId: string;
+  task: Task;
+}
+
+// Split and merge: a split moves some tasks to a new request under the same
+// ids; a merge appends other requests' tasks to one, renumbering clashing ids
+export interface RequestSplit {
+  taskIds: string[];
+  /** Text for the new request; the source's is used when left out */
+  originalRequest?: string;
+  splitDetails?: string;
+}
+
+export interface SplitResult {
+  source: Request;
+  request: Request;
+}
+
+export interface RequestMerge {
+  /** Requests to merge in, in the order their tasks are appended */
+  requestIds: string[];
+  /** Replaces the target's text; split details are otherwise joined */
+  originalRequest?: string;
+  splitDetails?: string;
+  /** ETags of the requests to merge in, as the caller loaded them; each is checked like If-Match */
+  sourceEtags?: Record<string, string>;
+}
+
+export interface MergeResult {
+  request: Request;
+  mergedRequestIds: string[];
+  renamedTasks: { requestId: string; from: string; to: string }[];
+}
+
+// Templates: reusable task breakdowns kept in a sidecar document next to the
+// workspace's data, not in tasks.json. Text may contain {{placeholders}}.
+export interface TemplateTask {
+  title: string;
+  description: string;
+}
+
+export interface RequestTemplate {
+  id: string;
+  name: string;
+  originalRequest: string;
+  splitDetails: string;
+  tasks: TemplateTask[];
+  /** Placeholder names used in the template, in order of first use */
+  placeholders: string[];
+  /** The request the template was saved from */
+  sourceRequestId?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type TemplateUpdate = Partial<Pick<RequestTemplate, 'name' | 'originalRequest' | 'splitDetails' | 'tasks'>>;
+
+// Versions: each update keeps the record as it was before the save, so a
+// single request or task can be rolled back without restoring a whole backup
+interface RecordVersionBase {
+  id: string;
+  /** When the version was replaced by a save */
+  savedAt: string;
+  requestId: string;
+  /** Who made the save that replaced it */
+  actor?: AuditActor;
+}
+
+export type RecordVersion =
+  | (RecordVersionBase & { type: 'request'; record: Omit<Request, 'tasks'> })
+  | (RecordVersionBase & { type: 'task'; taskId: string; record: Task });
+
+export interface RevertResult {
+  requestId: string;
+  taskId?: string;
+  versionId: string;
+  record: Request | Task;
+}
+
+// Backups: automatic ones are taken before every save, manual ones on demand,
+// safety ones before a restore overwrites the current data
+export type BackupType = 'auto' | 'manual' | 'safety';
+
+export interface BackupInfo {
+  name: string;
+  type: BackupType;
+  timestamp: string;
+  label?: string;
+  checksum: string | null;
+  /** Checksum matches and the data passes schema validation */
+  valid: boolean;
+  requestCount: number;
+  taskCount: number;
+  size: number;
+}
+
+export interface RetentionTier {
+  /** Backups up to this age fall into the tier */
+  maxAgeHours: number;
+  /** Keep one backup per window of this many hours; 0 keeps every backup */
+  everyHours: number;
+}
+
+export interface RetentionPolicy {
+  /** The most recent backups are always kept, whatever their age */
+  minimum: number;
+  tiers: RetentionTier[];
+}
+
+export interface BackupDetail extends BackupInfo {
+  data: TasksData | null;
+}
+
+export interface RestoreResult {
+  restored: BackupInfo;
+  /** Name of the backup taken of the data that was replaced */
+  safetyBackup: string | null;
+}
+
+export interface RecordRestoreResult {
+  requestId: string;
+  taskId?: string;
+  /** `removed` when the record did not exist in the backup */
+  action: 'restored' | 'removed';
+}
+
+// Structural diff between two versions of the tasks data
+export type ChangeKind = 'added' | 'removed' | 'modified';
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface TaskDiff {
+  taskId: string;
+  change: ChangeKind;
+  title: string;
+  fields: FieldChange[];
+}
+
+export interface RequestDiff {
+  requestId: string;
+  change: ChangeKind;
+  title: string;
+  fields: FieldChange[];
+  tasks: TaskDiff[];
+}
+
+export interface TasksDataDiff {
+  requests: RequestDiff[];
+  summary: {
+    requestsAdded: number;
+    requestsRemoved: number;
+    requestsModified: number;
+    tasksAdded: number;
+    tasksRemoved: number;
+    tasksModified: number;
+  };
+}
+
+// Audit trail: one entry per request or task changed, kept in a sidecar file
+export type AuditActorType = 'ui' | 'api' | 'external';
+
+export interface AuditActor {
+  type: AuditActorType;
+  /** API client name (X-Actor header or user agent); not set for external edits */
+  name?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: AuditActor;
+  requestId: string;
+  /** Set when the entry is about a task rather than the request itself */
+  taskId?: string;
+  change: ChangeKind;
+  /** Title of the record at the time of the change */
+  title: string;
+  /** Field values before and after; added and removed records list every field */
+  fields: FieldChange[];
+  /** Set when the change came from an undo, redo or restore rather than an edit */
+  operation?: string;
+}
+
+// Workspaces: named task files managed from one editor instance
+export interface Workspace {
+  name: string;
+  /** Path to the tasks file, or to the directory containing tasks.json */
+  path: string;
+  /** Backup directory; defaults to .backups next to the tasks file */
+  backupDir?: string;
+  /** Lock file; defaults to .<file name>.lock next to the tasks file */
+  lockFile?: string;
+}
+
+export interface WorkspaceInfo extends Workspace {
+  isDefault: boolean;
+  active: boolean;
 }
 
 // Search and filter types
@@ -88,6 +560,17 @@ export interface SearchFilters {
   hasDetails?: boolean | null;
 }
 
+/** Inclusive range in epoch milliseconds; either end may be open */
+export interface DateRange {
+  from?: number;
+  to?: number;
+}
+
+export interface DateRangeFilters {
+  created?: DateRange;
+  updated?: DateRange;
+}
+
 export interface SortOptions {
   field: 'title' | 'completion' | 'created' | 'updated';
   direction: 'asc' | 'desc';
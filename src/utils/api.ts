@@ -1,16 +1,18 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { ZodError, ZodIssue } from 'zod';
-import { ApiResponse, ApiError, ValidationError } from '@/types';
+import { ApiResponse, ApiError, PreconditionFailedError, ValidationError, DateRange, DateRangeFilters, AuditActor, TaskStatus } from '@/types';
+import { TASK_STATUSES, isTaskStatus } from '@/utils/taskStatus';
+import { AUDIT_CONFIG, WORKSPACE_CONFIG } from '@/constants';
 
 /**
  * Create a successful API response
  */
-export function createSuccessResponse<T>(data: T, message?: string): NextResponse<ApiResponse<T>> {
+export function createSuccessResponse<T>(data: T, message?: string, headers?: HeadersInit): NextResponse<ApiResponse<T>> {
   return NextResponse.json({
     success: true,
     data,
     message
-  });
+  }, { headers });
 }
 
 /**
@@ -19,13 +21,16 @@ export function createSuccessResponse<T>(data: T, message?: string): NextRespons
 export function createErrorResponse(
   message: string, 
   status: number = 500, 
-  validation?: ValidationError[]
+  validation?: ValidationError[],
+  data?: unknown,
+  headers?: HeadersInit
 ): NextResponse<ApiResponse> {
   return NextResponse.json({
     success: false,
     error: message,
-    validation
-  }, { status });
+    validation,
+    data
+  }, { status, headers });
 }
 
 /**
@@ -34,6 +39,11 @@ export function createErrorResponse(
 export function handleApiError(error: unknown): NextResponse<ApiResponse> {
   console.error('API Error:', error);
 
+  if (error instanceof PreconditionFailedError) {
+    // Return the current server copy so the client can resolve the conflict
+    return createErrorResponse(error.message, error.status, undefined, error.current, { ETag: error.etag });
+  }
+
   if (error instanceof ApiError) {
     return createErrorResponse(error.message, error.status, error.validation);
   }
@@ -66,6 +76,39 @@ export async function extractRequestBody<T>(request: Request): Promise<T> {
   }
 }
 
+/**
+ * Read the If-Match precondition header from a request
+ */
+export function extractIfMatch(request: Request): string | null {
+  return request.headers.get('if-match');
+}
+
+/**
+ * Read the selected workspace from the X-Workspace header, the ?workspace=
+ * query parameter or the UI's workspace cookie, in that order
+ */
+export function getWorkspaceName(request: NextRequest): string | null {
+  return request.headers.get(WORKSPACE_CONFIG.HEADER)
+    || request.nextUrl.searchParams.get(WORKSPACE_CONFIG.QUERY_PARAM)
+    || request.cookies.get(WORKSPACE_CONFIG.COOKIE)?.value
+    || null;
+}
+
+/**
+ * Work out who is making a request, for the audit trail. Browsers mark fetches
+ * from the editor's own pages as same-origin; anything else is an API client,
+ * named by the X-Actor header or its user agent.
+ */
+export function getActor(request: NextRequest): AuditActor {
+  const name = request.headers.get(AUDIT_CONFIG.ACTOR_HEADER)?.trim() || undefined;
+  if (request.headers.get('sec-fetch-site') === 'same-origin') {
+    return { type: 'ui', ...(name && { name }) };
+  }
+
+  const client = name || request.headers.get('user-agent') || undefined;
+  return { type: 'api', ...(client && { name: client }) };
+}
+
 /**
  * Extract URL parameters (async version for Next.js 15+)
  */
@@ -109,6 +152,49 @@ export function extractSearchParams(searchParams: URLSearchParams): { [key: stri
   return result;
 }
 
+/**
+ * Parse one end of a date range. A date without a time covers the whole day,
+ * so `createdTo=2026-10-19` includes everything created that day.
+ */
+function parseDateParam(searchParams: URLSearchParams, name: string, endOfDay: boolean): number | undefined {
+  const value = searchParams.get(name);
+  if (!value) return undefined;
+
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = Date.parse(dateOnly ? `${value}T00:00:00.000Z` : value);
+  if (Number.isNaN(time)) {
+    throw new ApiError(`Invalid date for ${name}: ${value}`, 400, [{ field: name, message: 'Expected an ISO date or date-time' }]);
+  }
+  return dateOnly && endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+/**
+ * Extract the `createdFrom`/`createdTo` and `updatedFrom`/`updatedTo` filters
+ */
+export function extractDateRanges(searchParams: URLSearchParams): DateRangeFilters {
+  const range = (field: 'created' | 'updated'): DateRange | undefined => {
+    const from = parseDateParam(searchParams, `${field}From`, false);
+    const to = parseDateParam(searchParams, `${field}To`, true);
+    return from === undefined && to === undefined ? undefined : { from, to };
+  };
+  return { created: range('created'), updated: range('updated') };
+}
+
+/**
+ * Extract the `status` filter: one or more comma-separated task statuses
+ */
+export function extractStatusFilter(searchParams: URLSearchParams): TaskStatus[] | undefined {
+  const value = searchParams.get('status');
+  if (!value) return undefined;
+
+  const statuses = value.split(',').map(status => status.trim()).filter(Boolean);
+  const unknown = statuses.filter(status => !isTaskStatus(status));
+  if (unknown.length > 0) {
+    throw new ApiError(`Invalid status: ${unknown.join(', ')}`, 400, [{ field: 'status', message: `Expected one of ${TASK_STATUSES.join(', ')}` }]);
+  }
+  return statuses as TaskStatus[];
+}
+
 /**
  * Generate a unique ID
  */
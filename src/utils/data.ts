@@ -1,4 +1,4 @@
-import { Request, Task, RequestSummary, TaskSummary, SearchFilters } from '@/types';
+import { Request, Task, RequestSummary, TaskSummary, SearchFilters, DateRange, DateRangeFilters } from '@/types';
 
 /**
  * Calculate completion statistics for a request
@@ -199,3 +199,30 @@ export function formatDate(date: Date): string {
     minute: '2-digit'
   });
 }
+
+/**
+ * Fields on a record that the editor doesn't manage, e.g. ones added by the MCP server
+ */
+export function getExtraFields(record: object, knownFields: readonly string[]): [string, unknown][] {
+  return Object.entries(record).filter(([field]) => !knownFields.includes(field));
+}
+
+/**
+ * Whether a timestamp falls inside a date range. Records without the stamp
+ * (created before timestamps were recorded) never match a range.
+ */
+export function inDateRange(stamp: string | undefined, range: DateRange | undefined): boolean {
+  if (!range) return true;
+  if (!stamp) return false;
+
+  const time = Date.parse(stamp);
+  if (Number.isNaN(time)) return false;
+  return (range.from === undefined || time >= range.from) && (range.to === undefined || time <= range.to);
+}
+
+/**
+ * Apply the created/updated date-range filters to a request or task
+ */
+export function matchesDateRanges(record: { createdAt?: string; updatedAt?: string }, ranges: DateRangeFilters): boolean {
+  return inDateRange(record.createdAt, ranges.created) && inDateRange(record.updatedAt ?? record.createdAt, ranges.updated);
+}
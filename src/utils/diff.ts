@@ -0,0 +1,115 @@
+import { ChangeKind, FieldChange, Request, RequestDiff, Task, TaskDiff, TasksData, TasksDataDiff } from '@/types';
+
+// updatedAt moves with every other change, so listing it would only add noise
+export const SKIP_TASK_FIELDS = ['id', 'updatedAt'];
+export const SKIP_REQUEST_FIELDS = ['requestId', 'tasks', 'updatedAt'];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compare every field present on either side, except the ones listed in `skip`.
+ * Comparing all keys means fields added by newer MCP servers show up too.
+ */
+export function diffFields(from: object, to: object, skip: string[] = []): FieldChange[] {
+  const before = from as Record<string, unknown>;
+  const after = to as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .filter(field => !skip.includes(field) && !sameValue(before[field], after[field]))
+    .map(field => ({ field, from: before[field], to: after[field] }));
+}
+
+function diffTasks(from: Task[], to: Task[]): TaskDiff[] {
+  const diffs: TaskDiff[] = [];
+  const before = new Map(from.map(task => [task.id, task]));
+  const after = new Map(to.map(task => [task.id, task]));
+
+  for (const task of to) {
+    const previous = before.get(task.id);
+    if (!previous) {
+      diffs.push({ taskId: task.id, change: 'added', title: task.title, fields: [] });
+      continue;
+    }
+    const fields = diffFields(previous, task, SKIP_TASK_FIELDS);
+    if (fields.length > 0) {
+      diffs.push({ taskId: task.id, change: 'modified', title: task.title, fields });
+    }
+  }
+
+  for (const task of from) {
+    if (!after.has(task.id)) {
+      diffs.push({ taskId: task.id, change: 'removed', title: task.title, fields: [] });
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Report a reorder of the tasks on both sides as a `taskOrder` field change.
+ * Added and removed tasks are left out, so appending a task isn't a reorder.
+ */
+function diffTaskOrder(from: Task[], to: Task[]): FieldChange[] {
+  const fromIds = new Set(from.map(task => task.id));
+  const toIds = new Set(to.map(task => task.id));
+  const before = from.map(task => task.id).filter(id => toIds.has(id));
+  const after = to.map(task => task.id).filter(id => fromIds.has(id));
+  return sameValue(before, after) ? [] : [{ field: 'taskOrder', from: before, to: after }];
+}
+
+function wholeRequest(request: Request, change: ChangeKind): RequestDiff {
+  return {
+    requestId: request.requestId,
+    change,
+    title: request.originalRequest,
+    fields: [],
+    tasks: request.tasks.map(task => ({ taskId: task.id, change, title: task.title, fields: [] }))
+  };
+}
+
+/**
+ * Report requests and tasks that were added, removed or modified between two
+ * versions of the data, with field-level changes for modified records
+ */
+export function diffTasksData(from: TasksData, to: TasksData): TasksDataDiff {
+  const requests: RequestDiff[] = [];
+  const before = new Map(from.requests.map(request => [request.requestId, request]));
+  const after = new Map(to.requests.map(request => [request.requestId, request]));
+
+  for (const request of to.requests) {
+    const previous = before.get(request.requestId);
+    if (!previous) {
+      requests.push(wholeRequest(request, 'added'));
+      continue;
+    }
+    const fields = [...diffFields(previous, request, SKIP_REQUEST_FIELDS), ...diffTaskOrder(previous.tasks, request.tasks)];
+    const tasks = diffTasks(previous.tasks, request.tasks);
+    if (fields.length > 0 || tasks.length > 0) {
+      requests.push({ requestId: request.requestId, change: 'modified', title: request.originalRequest, fields, tasks });
+    }
+  }
+
+  for (const request of from.requests) {
+    if (!after.has(request.requestId)) {
+      requests.push(wholeRequest(request, 'removed'));
+    }
+  }
+
+  const count = (change: ChangeKind) => requests.filter(r => r.change === change).length;
+  const countTasks = (change: ChangeKind) => requests.reduce((sum, r) => sum + r.tasks.filter(t => t.change === change).length, 0);
+
+  return {
+    requests,
+    summary: {
+      requestsAdded: count('added'),
+      requestsRemoved: count('removed'),
+      requestsModified: count('modified'),
+      tasksAdded: countTasks('added'),
+      tasksRemoved: countTasks('removed'),
+      tasksModified: countTasks('modified')
+    }
+  };
+}
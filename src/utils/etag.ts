@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+
+/**
+ * JSON with object keys sorted at every level, so the same content always
+ * serializes the same way whatever order its keys were written in
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Compute an ETag for a request or task from a hash of its content.
+ * Key order does not matter, since saving a record may reorder its keys.
+ */
+export function computeEtag(record: unknown): string {
+  const hash = crypto.createHash('sha256').update(canonicalJson(record)).digest('hex');
+  return `"${hash}"`;
+}
+
+/**
+ * Check an If-Match header value against the current ETag.
+ * Supports `*`, weak validators and comma-separated lists.
+ */
+export function etagMatches(ifMatch: string, etag: string): boolean {
+  const candidates = ifMatch.split(',').map(value => value.trim().replace(/^W\//, ''));
+  return candidates.some(candidate => candidate === '*' || candidate === etag);
+}
@@ -0,0 +1,35 @@
+/**
+ * Result of merging two edited copies of the same record
+ */
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: Array<keyof T>;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Three-way merge of record fields. Fields changed on only one side take that
+ * side's value; fields changed differently on both sides are reported as
+ * conflicts and default to `mine`.
+ */
+export function threeWayMerge<T extends object>(base: T, mine: T, theirs: T, fields: Array<keyof T>): MergeResult<T> {
+  const merged = { ...theirs };
+  const conflicts: Array<keyof T> = [];
+
+  for (const field of fields) {
+    const mineChanged = !sameValue(mine[field], base[field]);
+    const theirsChanged = !sameValue(theirs[field], base[field]);
+
+    if (mineChanged && theirsChanged && !sameValue(mine[field], theirs[field])) {
+      conflicts.push(field);
+      merged[field] = mine[field];
+    } else if (mineChanged) {
+      merged[field] = mine[field];
+    }
+  }
+
+  return { merged, conflicts };
+}
@@ -0,0 +1,69 @@
+import { Task, TaskStatus } from '@/types';
+
+/**
+ * The done/approved flags each status stands for. Several statuses share
+ * flags, which is how MCP servers that only know the flags see them.
+ */
+export const STATUS_FLAGS: Record<TaskStatus, Pick<Task, 'done' | 'approved'>> = {
+  pending: { done: false, approved: false },
+  'in-progress': { done: false, approved: false },
+  blocked: { done: false, approved: false },
+  rejected: { done: false, approved: false },
+  'needs-review': { done: true, approved: false },
+  approved: { done: true, approved: true }
+};
+
+export const TASK_STATUSES = Object.keys(STATUS_FLAGS) as TaskStatus[];
+
+/**
+ * Stored statuses can come from other tools; only known ones are interpreted
+ */
+export function isTaskStatus(value: unknown): value is TaskStatus {
+  return TASK_STATUSES.includes(value as TaskStatus);
+}
+
+/**
+ * Status implied by the flags alone
+ */
+export function statusFromFlags(task: Pick<Task, 'done' | 'approved'>): TaskStatus {
+  if (task.approved) return 'approved';
+  if (task.done) return 'needs-review';
+  return 'pending';
+}
+
+/**
+ * A task's effective status. A stored status that no longer matches the
+ * flags (e.g. the MCP server marked the task done) gives way to them.
+ */
+export function taskStatus(task: Pick<Task, 'done' | 'approved' | 'status'>): TaskStatus {
+  if (isTaskStatus(task.status)) {
+    const flags = STATUS_FLAGS[task.status];
+    if (flags.done === task.done && flags.approved === task.approved) {
+      return task.status;
+    }
+  }
+  return statusFromFlags(task);
+}
+
+/**
+ * Bring a task's flags in line with a status set in this change, and drop
+ * the blocked reason once the task isn't blocked
+ */
+export function applyStatus(before: Task | undefined, after: Task): void {
+  if (isTaskStatus(after.status) && after.status !== before?.status) {
+    Object.assign(after, STATUS_FLAGS[after.status]);
+  }
+  if (after.status !== 'blocked') {
+    delete after.blockedReason;
+  }
+}
+
+/**
+ * Update a stored status the flags have moved away from. Statuses the editor
+ * doesn't know are left to the tool that wrote them.
+ */
+export function reconcileStatus(task: Task): void {
+  if (isTaskStatus(task.status)) {
+    task.status = taskStatus(task);
+  }
+}